@@ -0,0 +1,106 @@
+// ─────────────────────────────────────────────
+// Mock analytics server (فقط برای تست محلی نمودارهای بازدید)
+//
+//   npm run mock:analytics
+//   NEXT_PUBLIC_ANALYTICS_BASE=http://localhost:5056 npm run dev
+//
+// GET /api/analytics/my-ads/views?days=30&adIds=1,2,3
+//   → { days, daily: [{ adId, date, views }], hourly: [{ weekday, hour, views }] }
+// داده‌ها تصادفی ولی ثابت‌اند (بر اساس adId و تاریخ)
+// ─────────────────────────────────────────────
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_ANALYTICS_PORT || 5056);
+const DELAY_MS = Number(process.env.MOCK_ANALYTICS_DELAY_MS || 300);
+
+function cors(res) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type");
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+}
+
+function json(res, status, data) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+/** عدد شبه‌تصادفی ۰..۱ ثابت برای هر seed */
+function rand(seed) {
+  const x = Math.sin(seed * 12.9898) * 43758.5453;
+  return x - Math.floor(x);
+}
+
+function dateKey(d) {
+  const p = (n) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())}`;
+}
+
+// بیشتر بازدیدها عصر و شب (ساعت ۱۸ تا ۲۳)
+const HOUR_WEIGHT = Array.from({ length: 24 }, (_, h) =>
+  h < 7 ? 0.1 : h < 12 ? 0.6 : h < 18 ? 0.8 : 1.4
+);
+const HOUR_TOTAL = HOUR_WEIGHT.reduce((s, w) => s + w, 0);
+
+function buildViews(days, adIds) {
+  const now = new Date();
+  const daily = [];
+  const hourly = new Map();
+
+  for (const adId of adIds) {
+    const base = 3 + Math.floor(rand(adId) * 20);
+    for (let i = days - 1; i >= 0; i--) {
+      const d = new Date(now.getFullYear(), now.getMonth(), now.getDate() - i);
+      const date = dateKey(d);
+      const views = Math.round(
+        base * (0.3 + rand(adId * 1000 + d.getTime() / 864e5))
+      );
+      if (views <= 0) continue;
+      daily.push({ adId, date, views });
+
+      // پخش بازدیدهای روز بین ساعت‌ها
+      for (let n = 0; n < views; n++) {
+        const r = rand(adId + n * 7.1 + i * 13.3);
+        let acc = 0;
+        const hour = HOUR_WEIGHT.findIndex((w) => (acc += w / HOUR_TOTAL) >= r);
+        const key = `${d.getDay()}:${hour < 0 ? 23 : hour}`;
+        hourly.set(key, (hourly.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  return {
+    days,
+    daily,
+    hourly: Array.from(hourly, ([key, views]) => {
+      const [weekday, hour] = key.split(":").map(Number);
+      return { weekday, hour, views };
+    }),
+  };
+}
+
+const server = createServer(async (req, res) => {
+  cors(res);
+  if (req.method === "OPTIONS") return res.writeHead(204).end();
+
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+
+  if (req.method === "GET" && url.pathname === "/api/analytics/my-ads/views") {
+    const days = Math.min(
+      Math.max(Number(url.searchParams.get("days")) || 30, 1),
+      365
+    );
+    const adIds = (url.searchParams.get("adIds") || "")
+      .split(",")
+      .map(Number)
+      .filter((n) => Number.isInteger(n) && n > 0);
+
+    await new Promise((r) => setTimeout(r, DELAY_MS));
+    return json(res, 200, buildViews(days, adIds));
+  }
+
+  json(res, 404, { message: "Not found" });
+});
+
+server.listen(PORT, () => {
+  console.log(`mock analytics server: http://localhost:${PORT}`);
+});
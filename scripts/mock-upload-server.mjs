@@ -0,0 +1,100 @@
+// ─────────────────────────────────────────────
+// Mock upload server (فقط برای تست محلی آپلود عکس)
+//
+//   npm run mock:uploads
+//   NEXT_PUBLIC_UPLOAD_BASE=http://localhost:5055 npm run dev
+//
+// POST /api/uploads/photos (multipart, فیلد file) → { id, url, thumbUrl }
+// GET  /uploads/:id → خود عکس (در حافظه؛ با ری‌استارت پاک می‌شود)
+// ─────────────────────────────────────────────
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+
+const PORT = Number(process.env.MOCK_UPLOAD_PORT || 5055);
+const DELAY_MS = Number(process.env.MOCK_UPLOAD_DELAY_MS || 400);
+
+/** @type {Map<string, { type: string; body: Buffer }>} */
+const files = new Map();
+
+function cors(res) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+}
+
+function json(res, status, data) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (c) => chunks.push(c));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+/** اولین part که فایل دارد */
+function parseMultipartFile(body, contentType) {
+  const m = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType || "");
+  if (!m) return null;
+  const boundary = Buffer.from(`--${m[1] || m[2]}`);
+
+  let start = body.indexOf(boundary);
+  while (start !== -1) {
+    const next = body.indexOf(boundary, start + boundary.length);
+    if (next === -1) break;
+
+    const part = body.subarray(start + boundary.length + 2, next - 2);
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString("utf8");
+      if (/filename=/i.test(headers)) {
+        const type =
+          /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1] ||
+          "application/octet-stream";
+        return { type, body: part.subarray(headerEnd + 4) };
+      }
+    }
+    start = next;
+  }
+  return null;
+}
+
+const server = createServer(async (req, res) => {
+  cors(res);
+  if (req.method === "OPTIONS") return res.writeHead(204).end();
+
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+
+  if (req.method === "POST" && url.pathname === "/api/uploads/photos") {
+    const file = parseMultipartFile(
+      await readBody(req),
+      req.headers["content-type"]
+    );
+    if (!file || !file.type.startsWith("image/"))
+      return json(res, 400, { message: "فایل عکس ارسال نشده" });
+
+    const id = randomUUID();
+    files.set(id, file);
+    const fileUrl = `http://localhost:${PORT}/uploads/${id}`;
+    await new Promise((r) => setTimeout(r, DELAY_MS));
+    return json(res, 201, { id, url: fileUrl, thumbUrl: fileUrl });
+  }
+
+  const match = /^\/uploads\/([\w-]+)$/.exec(url.pathname);
+  if (req.method === "GET" && match) {
+    const file = files.get(match[1]);
+    if (!file) return json(res, 404, { message: "پیدا نشد" });
+    res.writeHead(200, { "Content-Type": file.type });
+    return res.end(file.body);
+  }
+
+  json(res, 404, { message: "Not found" });
+});
+
+server.listen(PORT, () => {
+  console.log(`mock upload server: http://localhost:${PORT}`);
+});
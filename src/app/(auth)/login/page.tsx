@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { api } from "@/lib/api";
+import { authApi } from "@/lib/apiClient";
 import { useAuthStore } from "@/store/auth.store";
 import { startSignalR } from "@/lib/signalr";
 import { useRouter } from "next/navigation";
@@ -12,6 +12,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { motion } from "framer-motion";
 
+// ✅ فقط مسیر داخلی (جلوگیری از open redirect)
+function nextPath(): string {
+  const next = new URLSearchParams(window.location.search).get("next");
+  if (!next || !next.startsWith("/") || next.startsWith("//"))
+    return "/dashboard";
+  return next;
+}
+
 export default function LoginPage() {
   const router = useRouter();
   const token = useAuthStore((s) => s.token);
@@ -23,7 +31,7 @@ export default function LoginPage() {
   const [err, setErr] = useState<string | null>(null);
 
   useEffect(() => {
-    if (token) router.replace("/dashboard");
+    if (token) router.replace(nextPath());
   }, [token, router]);
 
   async function onSubmit(e: React.FormEvent) {
@@ -32,15 +40,16 @@ export default function LoginPage() {
     setLoading(true);
 
     try {
-      const res = await api.post("/api/auth/login", { username, password });
-
-      const t: string = res.data.token;
-      const role: "User" | "Admin" | "SuperAdmin" = res.data.role;
+      const {
+        token: t,
+        role,
+        refreshToken,
+      } = await authApi.login(username, password);
 
-      setAuth({ token: t, role });
+      setAuth({ token: t, role, refreshToken });
       await startSignalR();
 
-      router.replace("/dashboard");
+      router.replace(nextPath());
     } catch (e: any) {
       setErr(e?.response?.data ?? "خطا در ورود");
     } finally {
@@ -1,10 +1,11 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { api } from "@/lib/api";
+import { authApi } from "@/lib/apiClient";
 import { useAuthStore } from "@/store/auth.store";
 import { useRouter } from "next/navigation";
 import Header from "@/components/Header";
+import { normalizePhoneInput } from "@/domain";
 
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -35,7 +36,7 @@ export default function RegisterPage() {
     setLoading(true);
 
     try {
-      await api.post("/api/auth/register", {
+      await authApi.register({
         firstName,
         lastName,
         username,
@@ -133,7 +134,9 @@ export default function RegisterPage() {
                       </div>
                       <Input
                         value={phone}
-                        onChange={(e) => setPhone(e.target.value)}
+                        onChange={(e) =>
+                          setPhone(normalizePhoneInput(e.target.value))
+                        }
                         required
                         className="rounded-2xl h-12"
                       />
@@ -1,7 +1,8 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-import { api } from "@/lib/api";
+import { bioApi } from "@/lib/apiClient";
+import { errorToText } from "@/lib/errorText";
 import { toast } from "sonner";
 import { motion } from "framer-motion";
 import { useTheme } from "next-themes";
@@ -15,71 +16,7 @@ import BioModal, {
 } from "@/components/bio/BioModal";
 
 import { Pencil, Trash2 } from "lucide-react";
-
-type BioItem = {
-  id: number;
-  userId: number;
-
-  groupKey: string;
-
-  isAdvanced: boolean;
-  title: string;
-  description: string;
-  contactInfo: string | null;
-
-  createdAt?: string;
-  updatedAt?: string;
-};
-
-function toBool(v: any): boolean {
-  if (v === true) return true;
-  if (v === false) return false;
-  if (v === 11 || v === "1") return true;
-  if (v === 0 || v === "0") return false;
-  const s = String(v ?? "")
-    .trim()
-    .toLowerCase();
-  return s === "true" || s === "yes";
-}
-
-function toNum(v: any): number {
-  const n = Number(v);
-  return Number.isFinite(n) ? n : 0;
-}
-
-function normalizeBioItem(raw: any): BioItem {
-  const id = toNum(raw?.id ?? raw?.Id ?? raw?.ID);
-  const userId = toNum(raw?.userId ?? raw?.UserId ?? raw?.UserID);
-
-  const groupKey = String(raw?.groupKey ?? raw?.GroupKey ?? "").trim();
-
-  const isAdvanced = toBool(
-    raw?.isAdvanced ?? raw?.IsAdvanced ?? raw?.ISAdvanced
-  );
-
-  const title = String(raw?.title ?? raw?.Title ?? "");
-  const description = String(raw?.description ?? raw?.Description ?? "");
-  const contactInfoRaw = raw?.contactInfo ?? raw?.ContactInfo ?? null;
-  const contactInfo =
-    contactInfoRaw === null || contactInfoRaw === undefined
-      ? null
-      : String(contactInfoRaw);
-
-  const createdAt = raw?.createdAt ?? raw?.CreatedAt ?? undefined;
-  const updatedAt = raw?.updatedAt ?? raw?.UpdatedAt ?? undefined;
-
-  return {
-    id,
-    userId,
-    groupKey,
-    isAdvanced,
-    title,
-    description,
-    contactInfo,
-    createdAt,
-    updatedAt,
-  };
-}
+import type { BioItem } from "@/domain";
 
 function clean(v?: string | null) {
   return String(v ?? "").trim();
@@ -149,13 +86,11 @@ export default function BioManager({
   async function load() {
     setLoading(true);
     try {
-      const res = await api.get("/api/bio/mine");
-      const rawList = (res.data ?? []) as any[];
-      setItems(rawList.map(normalizeBioItem));
-    } catch (e: any) {
+      setItems(await bioApi.mine());
+    } catch (e) {
       setItems([]);
       toast.error("خطا در دریافت بیوگرافی", {
-        description: e?.response?.data ?? "لطفاً دوباره تلاش کنید.",
+        description: errorToText(e) || "لطفاً دوباره تلاش کنید.",
       });
     } finally {
       setLoading(false);
@@ -240,7 +175,7 @@ export default function BioManager({
   }
 
   async function removeItem(id: number) {
-    await api.delete(`/api/bio/${id}`);
+    await bioApi.remove(id);
   }
 
   async function removeRow(it: BioItem) {
@@ -312,7 +247,7 @@ export default function BioManager({
           }
 
           if (g.advanced) {
-            await api.put(`/api/bio/${g.advanced.id}`, {
+            await bioApi.update(g.advanced.id, {
               GroupKey: groupKey,
               IsAdvanced: true,
               Title: clean((payload as any).title),
@@ -320,7 +255,7 @@ export default function BioManager({
               ContactInfo: clean((payload as any).contactInfo) || null,
             });
           } else {
-            await api.post("/api/bio", {
+            await bioApi.create({
               GroupKey: groupKey,
               IsAdvanced: true,
               Title: clean((payload as any).title),
@@ -343,7 +278,7 @@ export default function BioManager({
         }
 
         if (g.simple) {
-          await api.put(`/api/bio/${g.simple.id}`, {
+          await bioApi.update(g.simple.id, {
             GroupKey: groupKey,
             IsAdvanced: false,
             Title: null,
@@ -351,7 +286,7 @@ export default function BioManager({
             ContactInfo: null,
           });
         } else {
-          await api.post("/api/bio", {
+          await bioApi.create({
             GroupKey: groupKey,
             IsAdvanced: false,
             Title: null,
@@ -381,7 +316,7 @@ export default function BioManager({
       const newGroupKey = makeGroupKey();
 
       if (wantAdv) {
-        await api.post("/api/bio", {
+        await bioApi.create({
           GroupKey: newGroupKey,
           IsAdvanced: true,
           Title: clean((payload as any).title),
@@ -391,7 +326,7 @@ export default function BioManager({
       }
 
       if (wantSimple) {
-        await api.post("/api/bio", {
+        await bioApi.create({
           GroupKey: newGroupKey,
           IsAdvanced: false,
           Title: null,
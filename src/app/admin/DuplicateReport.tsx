@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { useTheme } from "next-themes";
+import { ExternalLink, Loader2, RefreshCw } from "lucide-react";
+
+import { adminUsersApi, adsApi } from "@/lib/apiClient";
+import { errorToText } from "@/lib/errorText";
+import AdStatusBadge from "@/components/ads/AdStatusBadge";
+import { Button } from "@/components/ui/button";
+import {
+  findDuplicateGroups,
+  priceToText,
+  type Ad,
+  type DuplicateGroup,
+  type User,
+} from "@/domain";
+
+// ─────────────────────────────────────────────
+// گزارش آگهی‌های تکراری در کل سایت (ادمین)
+// ─────────────────────────────────────────────
+export default function DuplicateReport({
+  canSeeUsers,
+}: {
+  /** لیست کاربران فقط برای SuperAdmin؛ بدون آن «کاربر #id» نمایش داده می‌شود */
+  canSeeUsers: boolean;
+}) {
+  const { resolvedTheme } = useTheme();
+  const isDark = resolvedTheme === "dark";
+
+  const [ads, setAds] = useState<Ad[] | null>(null);
+  const [users, setUsers] = useState<Map<number, User>>(new Map());
+  const [err, setErr] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    adsApi
+      .list()
+      .then((list) => {
+        if (!cancelled) setAds(list);
+      })
+      .catch((e) => {
+        if (!cancelled) setErr(errorToText(e) || "خطا در دریافت آگهی‌ها");
+      });
+    if (canSeeUsers) {
+      adminUsersApi
+        .search()
+        .then((list) => {
+          if (!cancelled) setUsers(new Map(list.map((u) => [u.id, u])));
+        })
+        .catch(() => {});
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey, canSeeUsers]);
+
+  const groups = useMemo<DuplicateGroup[]>(
+    () => (ads ? findDuplicateGroups(ads) : []),
+    [ads]
+  );
+
+  function userName(id: number) {
+    const u = users.get(id);
+    if (!u) return `کاربر #${id.toLocaleString("fa-IR")}`;
+    return `${u.firstName} ${u.lastName}`.trim() || u.username;
+  }
+
+  const itemBg = isDark ? "hsl(0 0% 10%)" : "hsl(var(--card))";
+
+  return (
+    <div className="space-y-4" dir="rtl">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="text-lg font-extrabold">آگهی‌های تکراری</div>
+          <div className="text-xs text-muted-foreground">
+            شماره شاسی یکسان یا نام، سال، رنگ و کارکرد نزدیک به هم
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          className="rounded-2xl"
+          disabled={!ads && !err}
+          onClick={() => {
+            setAds(null);
+            setErr(null);
+            setReloadKey((k) => k + 1);
+          }}
+        >
+          <RefreshCw className="h-4 w-4" />
+          بررسی دوباره
+        </Button>
+      </div>
+
+      {err ? (
+        <div className="text-sm text-center text-red-500">{err}</div>
+      ) : !ads ? (
+        <div className="py-10 flex justify-center">
+          <Loader2 className="h-5 w-5 animate-spin opacity-70" />
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="py-10 text-center text-sm text-muted-foreground">
+          آگهی تکراری پیدا نشد ✅
+        </div>
+      ) : (
+        <>
+          <div className="text-sm font-semibold">
+            {groups.length.toLocaleString("fa-IR")} گروه تکراری در{" "}
+            {ads.length.toLocaleString("fa-IR")} آگهی
+          </div>
+          {groups.map((g, idx) => (
+            <motion.div
+              key={g.ads[0].id}
+              initial={{ opacity: 0, y: 6 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.18, delay: Math.min(idx * 0.02, 0.2) }}
+              className="rounded-2xl border p-3 space-y-2"
+              style={{ borderColor: "hsl(var(--border))", background: itemBg }}
+            >
+              <div
+                className={`text-xs font-bold ${
+                  g.reason === "chassis" ? "text-red-500" : "text-amber-500"
+                }`}
+              >
+                {g.reason === "chassis" ? "شماره شاسی یکسان" : "آگهی‌های مشابه"}{" "}
+                • {g.ads.length.toLocaleString("fa-IR")} آگهی
+              </div>
+              {g.ads.map((ad) => (
+                <div key={ad.id} className="flex items-center gap-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-1.5 font-semibold">
+                      <span className="truncate">{ad.title}</span>
+                      <AdStatusBadge ad={ad} />
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {userName(ad.userId)} • {ad.year} • {ad.color} •{" "}
+                      {ad.mileageKm.toLocaleString("fa-IR")} km •{" "}
+                      {priceToText(ad.price)}
+                      {ad.chassisNumber ? ` • ${ad.chassisNumber}` : ""}
+                    </div>
+                  </div>
+                  <Link
+                    href={`/u/${ad.userId}?ad=${ad.id}`}
+                    target="_blank"
+                    className="h-8 w-8 rounded-xl border grid place-items-center shrink-0"
+                    title="مشاهده آگهی"
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                  </Link>
+                </div>
+              ))}
+            </motion.div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
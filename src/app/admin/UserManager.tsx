@@ -5,11 +5,14 @@ import { toast } from "sonner";
 import { motion } from "framer-motion";
 import { useTheme } from "next-themes";
 
-import { api } from "@/lib/api";
+import { adminUsersApi } from "@/lib/apiClient";
 import UserModal, { type UserForm } from "@/app/admin/UserModal";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { errorToText } from "@/lib/errorText";
+import { toEnDigits, type User } from "@/domain";
+import JalaliRangePicker from "@/components/JalaliRangePicker";
+import { countByDay, inDateRange, type DateRange } from "@/lib/jalaliRange";
 
 import {
   Table,
@@ -22,35 +25,6 @@ import {
 
 import { Pencil, Trash2, Search } from "lucide-react";
 
-type AdminUserRow = {
-  id: number;
-  firstName: string;
-  lastName: string;
-  username: string;
-  phone: string;
-  email: string;
-  role: "User" | "Admin" | "SuperAdmin";
-  createdAt?: string;
-};
-
-function toNum(v: any) {
-  const n = Number(v);
-  return Number.isFinite(n) ? n : 0;
-}
-
-function normalizeUser(raw: any): AdminUserRow {
-  return {
-    id: toNum(raw?.id ?? raw?.Id),
-    firstName: String(raw?.firstName ?? raw?.FirstName ?? ""),
-    lastName: String(raw?.lastName ?? raw?.LastName ?? ""),
-    username: String(raw?.username ?? raw?.Username ?? ""),
-    phone: String(raw?.phone ?? raw?.Phone ?? ""),
-    email: String(raw?.email ?? raw?.Email ?? ""),
-    role: (raw?.role ?? raw?.Role ?? "User") as any,
-    createdAt: raw?.createdAt ?? raw?.CreatedAt ?? undefined,
-  };
-}
-
 function clean(v?: string | null) {
   return String(v ?? "").trim();
 }
@@ -65,15 +39,27 @@ export default function UserManager({
   const { resolvedTheme } = useTheme();
   const isDark = resolvedTheme === "dark";
 
-  const [items, setItems] = useState<AdminUserRow[]>([]);
+  const [items, setItems] = useState<User[]>([]);
   const [loading, setLoading] = useState(false);
 
   // سرچ لحظه‌ای
   const [q, setQ] = useState("");
   const debounceRef = useRef<any>(null);
 
+  // ✅ فیلتر تاریخ عضویت (سمت کلاینت)
+  const [range, setRange] = useState<DateRange | undefined>();
+  const dayCounts = useMemo(
+    () => countByDay(items.map((u) => u.createdAt)),
+    [items]
+  );
+  const visibleItems = useMemo(
+    () =>
+      range ? items.filter((u) => inDateRange(u.createdAt, range)) : items,
+    [items, range]
+  );
+
   const [open, setOpen] = useState(false);
-  const [editing, setEditing] = useState<AdminUserRow | null>(null);
+  const [editing, setEditing] = useState<User | null>(null);
 
   // ✅ گرادیانت هماهنگ با Header (دارک پررنگ‌تر)
   const softGradient = useMemo(() => {
@@ -88,7 +74,7 @@ export default function UserManager({
     "hover:-translate-y-[1px] hover:scale-[1.02] hover:shadow-md " +
     "active:translate-y-0 active:scale-100 active:shadow-sm";
 
-  function rolePill(role: AdminUserRow["role"]) {
+  function rolePill(role: User["role"]) {
     const base =
       "inline-flex items-center justify-center rounded-full border px-3 py-1 text-xs font-semibold";
     if (role === "SuperAdmin")
@@ -138,12 +124,9 @@ export default function UserManager({
   async function load(queryValue?: string) {
     setLoading(true);
     try {
-      const qq = (queryValue ?? q).trim();
-      const res = await api.get("/api/admin/users", {
-        params: qq ? { q: qq } : undefined,
-      });
-      const list = (res.data ?? []) as any[];
-      setItems(list.map(normalizeUser));
+      // سرور ارقام فارسی را نمی‌شناسد
+      const qq = toEnDigits(queryValue ?? q).trim();
+      setItems(await adminUsersApi.search(qq));
     } catch (e: any) {
       setItems([]);
       toast.error("خطا در دریافت کاربران", {
@@ -185,7 +168,7 @@ export default function UserManager({
     setOpen(true);
   }
 
-  function openEdit(u: AdminUserRow) {
+  function openEdit(u: User) {
     if (!canManageUsers) {
       toast.error("دسترسی ندارید", {
         description: "فقط SuperAdmin امکان ویرایش کاربر را دارد.",
@@ -196,7 +179,7 @@ export default function UserManager({
     setOpen(true);
   }
 
-  async function removeUser(u: AdminUserRow) {
+  async function removeUser(u: User) {
     if (!canManageUsers) {
       toast.error("دسترسی ندارید", {
         description: "فقط SuperAdmin امکان حذف کاربر را دارد.",
@@ -211,7 +194,7 @@ export default function UserManager({
 
     toast.loading("در حال حذف کاربر...", { id: "user-del" });
     try {
-      await api.delete(`/api/admin/users/${u.id}`);
+      await adminUsersApi.remove(u.id);
       toast.success("کاربر حذف شد ✅", { id: "user-del" });
       await load(q);
     } catch (e: any) {
@@ -232,7 +215,7 @@ export default function UserManager({
 
     // create
     if (!editing) {
-      await api.post("/api/admin/users", {
+      await adminUsersApi.create({
         FirstName: clean(payload.firstName),
         LastName: clean(payload.lastName),
         Username: clean(payload.username),
@@ -246,7 +229,7 @@ export default function UserManager({
     }
 
     // edit (UpdateUserDto)
-    await api.put(`/api/admin/users/${editing.id}`, {
+    await adminUsersApi.update(editing.id, {
       FirstName: clean(payload.firstName),
       LastName: clean(payload.lastName),
       Username: clean(payload.username),
@@ -258,9 +241,7 @@ export default function UserManager({
     const prevRole = editing.role === "Admin" ? "Admin" : "User";
     const nextRole = payload.role === "Admin" ? "Admin" : "User";
     if (prevRole !== nextRole) {
-      await api.put(`/api/admin/users/${editing.id}/role`, {
-        Role: nextRole,
-      });
+      await adminUsersApi.setRole(editing.id, nextRole);
     }
 
     await load(q);
@@ -340,8 +321,8 @@ export default function UserManager({
       ) : null}
 
       {/* Search Bar (Live) */}
-      <div className="mt-4">
-        <div className="relative">
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[240px]">
           <Search className="absolute right-4 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
             value={q}
@@ -350,6 +331,16 @@ export default function UserManager({
             className="rounded-2xl h-12 pr-11"
           />
         </div>
+        <JalaliRangePicker
+          value={range}
+          onChange={setRange}
+          counts={dayCounts}
+          placeholder="تاریخ عضویت"
+          borderColor="hsl(var(--border))"
+          baseBg={isDark ? "hsl(0 0% 10%)" : "hsl(var(--card))"}
+          activeBg={softGradient}
+          popoverBg={isDark ? "hsl(0 0% 10%)" : "hsl(var(--popover))"}
+        />
       </div>
 
       <UserModal
@@ -391,7 +382,7 @@ export default function UserManager({
                   در حال بارگذاری...
                 </TableCell>
               </TableRow>
-            ) : items.length === 0 ? (
+            ) : visibleItems.length === 0 ? (
               <TableRow>
                 <TableCell
                   colSpan={6}
@@ -401,7 +392,7 @@ export default function UserManager({
                 </TableCell>
               </TableRow>
             ) : (
-              items.map((u, idx) => (
+              visibleItems.map((u, idx) => (
                 <TableRow key={u.id}>
                   <TableCell className="text-right">
                     <motion.div
@@ -10,6 +10,7 @@ import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
+import { normalizePhoneInput } from "@/domain";
 
 import { X, Eye, EyeOff } from "lucide-react";
 
@@ -232,7 +233,9 @@ export default function UserModal({
             <Field label="شماره تماس *">
               <Input
                 value={form.phone}
-                onChange={(e) => set("phone", e.target.value)}
+                onChange={(e) =>
+                  set("phone", normalizePhoneInput(e.target.value))
+                }
                 className="rounded-2xl h-12"
                 placeholder="مثلاً 09123456789"
                 disabled={!canManageUsers || loading}
@@ -9,6 +9,7 @@ import { useTheme } from "next-themes";
 
 import BioManager from "@/app/admin/BioManager";
 import UserManager from "@/app/admin/UserManager"; // ✅ اضافه شد
+import DuplicateReport from "@/app/admin/DuplicateReport";
 
 export default function AdminPage() {
   const token = useAuthStore((s) => s.token);
@@ -28,6 +29,11 @@ export default function AdminPage() {
       [
         { key: "bio" as const, label: "مدیریت بیوگرافی", show: isAdmin },
         { key: "users" as const, label: "مدیریت کاربران", show: isSuperAdmin },
+        {
+          key: "duplicates" as const,
+          label: "آگهی‌های تکراری",
+          show: isAdmin,
+        },
       ].filter((t) => t.show),
     [isAdmin, isSuperAdmin]
   );
@@ -218,6 +224,8 @@ export default function AdminPage() {
                 <BioManager embedded canManageBio={true} />
               ) : active === "users" ? (
                 <UserManager canManageUsers={isSuperAdmin} />
+              ) : active === "duplicates" ? (
+                <DuplicateReport canSeeUsers={isSuperAdmin} />
               ) : null}
             </motion.div>
           </section>
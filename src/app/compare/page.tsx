@@ -0,0 +1,257 @@
+"use client";
+
+import Header from "@/components/Header";
+import { adsApi } from "@/lib/apiClient";
+import { errorToText } from "@/lib/errorText";
+import { useUrlQuery } from "@/lib/useUrlQuery";
+import { useCompareStore } from "@/store/compare.store";
+import {
+  COMPARE_MIN,
+  COMPARE_ROWS,
+  bestInRow,
+  parseCompareIds,
+  type Ad,
+} from "@/domain";
+import Link from "next/link";
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { motion } from "framer-motion";
+import { useTheme } from "next-themes";
+import { toast } from "sonner";
+import { ExternalLink, Link2, Loader2, Scale, X } from "lucide-react";
+
+// فقط برای تشخیص render سمت client (تم)
+const noopSubscribe = () => () => {};
+
+// ─────────────────────────────────────────────
+// Compare Page — /compare?ids=1,2,3
+// ─────────────────────────────────────────────
+export default function ComparePage() {
+  const [query, updateQuery] = useUrlQuery();
+  const ids = useMemo(
+    () => parseCompareIds(new URLSearchParams(query).get("ids")),
+    [query]
+  );
+  const removeSelected = useCompareStore((s) => s.remove);
+
+  const { resolvedTheme } = useTheme();
+  const mounted = useSyncExternalStore(
+    noopSubscribe,
+    () => true,
+    () => false
+  );
+  const isDark = mounted ? resolvedTheme === "dark" : true;
+
+  const softGradient = useMemo(
+    () =>
+      isDark
+        ? "linear-gradient(90deg, rgba(34,197,94,.56), rgba(56,189,248,.48), rgba(217,70,239,.46))"
+        : "linear-gradient(90deg, rgba(34,197,94,.12), rgba(56,189,248,.10), rgba(217,70,239,.10))",
+    [isDark]
+  );
+
+  const borderColor = useMemo(
+    () =>
+      isDark
+        ? "color-mix(in srgb, hsl(var(--border)) 65%, rgba(255,255,255,.18) 35%)"
+        : "hsl(var(--border))",
+    [isDark]
+  );
+
+  const sectionBg = useMemo(
+    () =>
+      isDark
+        ? "linear-gradient(180deg, rgba(0,0,0,.55) 0%, rgba(0,0,0,.20) 100%)"
+        : "linear-gradient(180deg, color-mix(in srgb, var(--card) 94%, transparent), color-mix(in srgb, var(--card) 86%, transparent))",
+    [isDark]
+  );
+
+  const cellBg = isDark ? "hsl(0 0% 10%)" : "hsl(var(--background))";
+
+  // ── Load ──
+  // endpoint تکی نداریم؛ مثل صفحه پروفایل از لیست کامل برمی‌داریم
+  const [allAds, setAllAds] = useState<Ad[] | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    adsApi
+      .list()
+      .then((list) => {
+        if (!cancelled) setAllAds(list);
+      })
+      .catch((e) => {
+        if (!cancelled) setErr(errorToText(e) || "خطا در دریافت آگهی‌ها");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const ads = useMemo(() => {
+    if (!allAds) return [];
+    const byId = new Map(allAds.map((a) => [a.id, a]));
+    return ids.map((id) => byId.get(id)).filter((a): a is Ad => !!a);
+  }, [allAds, ids]);
+
+  const missing = allAds ? ids.length - ads.length : 0;
+
+  const best = useMemo(
+    () => new Map(COMPARE_ROWS.map((r) => [r.key, bestInRow(ads, r)])),
+    [ads]
+  );
+
+  function removeColumn(adId: number) {
+    removeSelected(adId);
+    updateQuery((p) => {
+      const rest = ids.filter((id) => id !== adId);
+      if (rest.length) p.set("ids", rest.join(","));
+      else p.delete("ids");
+    });
+  }
+
+  async function copyLink() {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("لینک مقایسه کپی شد");
+    } catch {
+      toast.error("کپی لینک ممکن نشد");
+    }
+  }
+
+  const gridTemplateColumns = `120px repeat(${Math.max(
+    ads.length,
+    1
+  )}, minmax(180px, 1fr))`;
+
+  return (
+    <>
+      <Header />
+
+      <main className="mx-auto max-w-6xl px-4 py-4">
+        <motion.section
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.28 }}
+          className="rounded-3xl border p-4"
+          style={{ borderColor, background: sectionBg }}
+          dir="rtl"
+        >
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <h1 className="flex items-center gap-2 text-lg font-extrabold text-foreground">
+              <Scale className="h-5 w-5 opacity-70" />
+              مقایسه آگهی‌ها
+            </h1>
+            <button
+              type="button"
+              onClick={copyLink}
+              disabled={ads.length < COMPARE_MIN}
+              className="flex items-center gap-1.5 h-9 rounded-2xl border px-3 text-xs font-semibold disabled:opacity-40"
+              style={{ borderColor, background: cellBg }}
+            >
+              <Link2 className="h-4 w-4" />
+              کپی لینک
+            </button>
+          </div>
+
+          {err && (
+            <div className="text-sm rounded-xl p-3 mb-3 border border-destructive/30 text-destructive bg-card">
+              {err}
+            </div>
+          )}
+
+          {!allAds && !err ? (
+            <div className="py-16 grid place-items-center">
+              <Loader2 className="h-6 w-6 animate-spin opacity-60" />
+            </div>
+          ) : ads.length < COMPARE_MIN ? (
+            <div className="py-12 text-center text-sm text-muted-foreground">
+              برای مقایسه حداقل {COMPARE_MIN.toLocaleString("fa-IR")} آگهی از
+              صفحه اصلی یا صفحه نمایشگاه انتخاب کنید.
+              <div className="mt-3">
+                <Link href="/" className="font-bold text-foreground underline">
+                  رفتن به صفحه اصلی
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto" style={{ scrollbarWidth: "thin" }}>
+              <div className="grid gap-2" style={{ gridTemplateColumns }}>
+                {/* ── سرستون‌ها ── */}
+                <div />
+                {ads.map((ad) => (
+                  <div
+                    key={ad.id}
+                    className="rounded-2xl border px-3 py-2.5 flex items-center gap-2"
+                    style={{ borderColor, background: softGradient }}
+                  >
+                    <span className="flex-1 min-w-0 text-sm font-extrabold truncate">
+                      {ad.title}
+                    </span>
+                    <Link
+                      href={`/u/${ad.userId}?ad=${ad.id}`}
+                      className="opacity-70 hover:opacity-100"
+                      title="مشاهده آگهی"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </Link>
+                    <button
+                      type="button"
+                      onClick={() => removeColumn(ad.id)}
+                      className="opacity-70 hover:opacity-100"
+                      title="حذف از مقایسه"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+
+                {/* ── ردیف‌ها ── */}
+                {COMPARE_ROWS.map((row) => (
+                  <div key={row.key} className="contents">
+                    <div className="flex items-center text-[11px] font-bold px-2">
+                      {row.label}
+                    </div>
+                    {ads.map((ad) => {
+                      const isBest = best.get(row.key)?.has(ad.id);
+                      return (
+                        <div
+                          key={ad.id}
+                          className="rounded-2xl border px-3 py-2.5 text-sm font-semibold leading-relaxed whitespace-pre-wrap"
+                          style={{
+                            borderColor: isBest
+                              ? "rgba(34,197,94,0.8)"
+                              : borderColor,
+                            background: isBest
+                              ? "rgba(34,197,94,0.12)"
+                              : cellBg,
+                          }}
+                        >
+                          {row.value(ad)}
+                          {isBest && (
+                            <span
+                              className="mr-1.5 text-[10px] font-bold"
+                              style={{ color: "rgb(34,197,94)" }}
+                            >
+                              ✓ بهترین
+                            </span>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {missing > 0 && (
+            <div className="mt-3 text-xs text-muted-foreground text-center">
+              {missing.toLocaleString("fa-IR")} آگهی از این مقایسه دیگر موجود
+              نیست.
+            </div>
+          )}
+        </motion.section>
+      </main>
+    </>
+  );
+}
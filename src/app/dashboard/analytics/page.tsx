@@ -0,0 +1,388 @@
+"use client";
+
+import Header from "@/components/Header";
+import ViewsChart from "@/components/analytics/ViewsChart";
+import ViewsHeatmap from "@/components/analytics/ViewsHeatmap";
+import { adsApi, analyticsApi } from "@/lib/apiClient";
+import { errorToText } from "@/lib/errorText";
+import { useHubEvent, useHubReconnected } from "@/lib/useHubEvent";
+import { useAuthStore } from "@/store/auth.store";
+import {
+  ANALYTICS_RANGES,
+  CAR_AD_TYPE_LABELS,
+  addLiveViews,
+  dailySeries,
+  heatmapGrid,
+  rankAdsByViews,
+  viewsByType,
+  type Ad,
+  type AnalyticsRange,
+  type ViewAnalytics,
+} from "@/domain";
+import Link from "next/link";
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { motion } from "framer-motion";
+import { useTheme } from "next-themes";
+import { ArrowRight, BarChart3, Eye, Loader2 } from "lucide-react";
+
+// فقط برای تشخیص render سمت client (تم)
+const noopSubscribe = () => () => {};
+
+// ─────────────────────────────────────────────
+// Seller Analytics — /dashboard/analytics
+// ─────────────────────────────────────────────
+export default function SellerAnalyticsPage() {
+  const token = useAuthStore((s) => s.token);
+
+  const { resolvedTheme } = useTheme();
+  const mounted = useSyncExternalStore(
+    noopSubscribe,
+    () => true,
+    () => false
+  );
+  const isDark = mounted ? resolvedTheme === "dark" : true;
+
+  const softGradient = useMemo(
+    () =>
+      isDark
+        ? "linear-gradient(90deg, rgba(34,197,94,.56), rgba(56,189,248,.48), rgba(217,70,239,.46))"
+        : "linear-gradient(90deg, rgba(34,197,94,.12), rgba(56,189,248,.10), rgba(217,70,239,.10))",
+    [isDark]
+  );
+
+  const borderColor = useMemo(
+    () =>
+      isDark
+        ? "color-mix(in srgb, hsl(var(--border)) 65%, rgba(255,255,255,.18) 35%)"
+        : "hsl(var(--border))",
+    [isDark]
+  );
+
+  const sectionBg = useMemo(
+    () =>
+      isDark
+        ? "linear-gradient(180deg, rgba(0,0,0,.55) 0%, rgba(0,0,0,.20) 100%)"
+        : "linear-gradient(180deg, color-mix(in srgb, var(--card) 94%, transparent), color-mix(in srgb, var(--card) 86%, transparent))",
+    [isDark]
+  );
+
+  const cardBg = isDark ? "hsl(0 0% 10%)" : "hsl(var(--background))";
+
+  // ── Load ──
+  const [days, setDays] = useState<AnalyticsRange>(30);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [ads, setAds] = useState<Ad[] | null>(null);
+  const [analytics, setAnalytics] = useState<ViewAnalytics | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  // بعد از reconnect همه‌چیز دوباره گرفته می‌شود
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    adsApi
+      .mine()
+      .then((list) => {
+        if (!cancelled) setAds(list);
+      })
+      .catch((e) => {
+        if (!cancelled) setErr(errorToText(e) || "خطا در دریافت آگهی‌ها");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, reloadKey]);
+
+  const adIdsKey = ads?.map((a) => a.id).join(",") ?? null;
+
+  useEffect(() => {
+    if (!token || adIdsKey === null) return;
+    let cancelled = false;
+    const ids = adIdsKey ? adIdsKey.split(",").map(Number) : [];
+    analyticsApi
+      .myViews(days, ids)
+      .then((a) => {
+        if (!cancelled) setAnalytics({ ...a, days });
+      })
+      .catch((e) => {
+        if (!cancelled) setErr(errorToText(e) || "خطا در دریافت آمار بازدید");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, days, adIdsKey, reloadKey]);
+
+  const loading = !err && (!analytics || analytics.days !== days);
+
+  // ✅ بازدید زنده: اختلاف viewCount به امروز و ساعت فعلی اضافه می‌شود
+  useHubEvent(
+    "AdViewUpdated",
+    ({ adId, viewCount }) => {
+      const prev = ads?.find((a) => a.id === adId);
+      if (!prev) return;
+      const delta = viewCount - prev.viewCount;
+      setAds((list) =>
+        list ? list.map((a) => (a.id === adId ? { ...a, viewCount } : a)) : list
+      );
+      setAnalytics((a) => (a ? addLiveViews(a, adId, delta) : a));
+    },
+    !!token
+  );
+
+  useHubReconnected(() => setReloadKey((k) => k + 1), !!token);
+
+  // ── Aggregations ──
+  const series = useMemo(
+    () => (analytics ? dailySeries(analytics, selectedId ?? undefined) : []),
+    [analytics, selectedId]
+  );
+  const periodViews = series.reduce((s, p) => s + p.views, 0);
+  const todayViews = series[series.length - 1]?.views ?? 0;
+
+  const ranking = useMemo(
+    () => (analytics && ads ? rankAdsByViews(ads, analytics) : []),
+    [analytics, ads]
+  );
+  const maxRank = Math.max(1, ranking[0]?.views ?? 0);
+
+  const byType = useMemo(
+    () => (analytics && ads ? viewsByType(ads, analytics) : []),
+    [analytics, ads]
+  );
+  const maxTypeAvg = Math.max(1, ...byType.map((t) => t.avg));
+
+  const grid = useMemo(
+    () => (analytics ? heatmapGrid(analytics) : []),
+    [analytics]
+  );
+
+  const selectedAd = ads?.find((a) => a.id === selectedId) ?? null;
+
+  // ── Not logged in ──
+  if (!token) {
+    return (
+      <>
+        <Header />
+        <main className="mx-auto max-w-6xl px-4 py-10">
+          <div
+            className="rounded-3xl border p-5 text-center text-sm text-muted-foreground"
+            style={{ borderColor, background: sectionBg }}
+          >
+            برای دیدن آمار بازدید، ابتدا وارد شوید.
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const card = "rounded-3xl border p-4";
+
+  return (
+    <>
+      <Header />
+
+      <main className="mx-auto max-w-6xl px-4 py-4">
+        <motion.section
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.28 }}
+          className="rounded-3xl border p-4 space-y-4"
+          style={{ borderColor, background: sectionBg }}
+          dir="rtl"
+        >
+          {/* ── Top bar ── */}
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h1 className="flex items-center gap-2 text-lg font-extrabold text-foreground">
+              <BarChart3 className="h-5 w-5" />
+              آمار بازدید آگهی‌های من
+              {loading && (
+                <Loader2 className="h-4 w-4 animate-spin opacity-70" />
+              )}
+            </h1>
+
+            <div className="flex items-center gap-2">
+              {ANALYTICS_RANGES.map((d) => (
+                <button
+                  key={d}
+                  type="button"
+                  onClick={() => setDays(d)}
+                  className="h-9 rounded-2xl border px-3 text-sm font-semibold"
+                  style={{
+                    borderColor,
+                    background: days === d ? softGradient : cardBg,
+                  }}
+                >
+                  {d.toLocaleString("fa-IR")} روز اخیر
+                </button>
+              ))}
+              <Link
+                href="/dashboard"
+                className="h-9 rounded-2xl border px-3 text-sm font-semibold inline-flex items-center gap-1.5"
+                style={{ borderColor, background: cardBg }}
+              >
+                <ArrowRight className="h-4 w-4" />
+                داشبورد
+              </Link>
+            </div>
+          </div>
+
+          {err && (
+            <div
+              className="text-sm rounded-2xl p-3 border text-center"
+              style={{
+                borderColor:
+                  "color-mix(in srgb, hsl(var(--destructive)) 65%, transparent)",
+                color: "hsl(var(--destructive))",
+              }}
+            >
+              {err}
+            </div>
+          )}
+
+          {/* ── Daily series ── */}
+          <div className={card} style={{ borderColor, background: cardBg }}>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <div className="text-sm font-bold">
+                بازدید روزانه • {selectedAd ? selectedAd.title : "همه آگهی‌ها"}
+                {selectedAd && (
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(null)}
+                    className="mr-2 text-xs font-semibold text-sky-500 hover:underline"
+                  >
+                    (نمایش همه)
+                  </button>
+                )}
+              </div>
+              <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                <span>
+                  امروز:{" "}
+                  <b className="text-foreground">
+                    {todayViews.toLocaleString("fa-IR")}
+                  </b>
+                </span>
+                <span className="inline-flex items-center gap-1">
+                  <Eye className="h-3.5 w-3.5" />
+                  کل بازه:{" "}
+                  <b className="text-foreground">
+                    {periodViews.toLocaleString("fa-IR")}
+                  </b>
+                </span>
+              </div>
+            </div>
+            {series.length > 0 ? (
+              <ViewsChart points={series} />
+            ) : (
+              <div className="py-10 text-center text-sm text-muted-foreground">
+                {loading ? "در حال بارگذاری..." : "داده‌ای موجود نیست."}
+              </div>
+            )}
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            {/* ── Ranking ── */}
+            <div className={card} style={{ borderColor, background: cardBg }}>
+              <div className="text-sm font-bold mb-3">رتبه‌بندی آگهی‌ها</div>
+              {ranking.length === 0 ? (
+                <div className="py-6 text-center text-sm text-muted-foreground">
+                  آگهی‌ای ندارید.
+                </div>
+              ) : (
+                <div
+                  className="space-y-1.5 max-h-[320px] overflow-y-auto"
+                  style={{ scrollbarWidth: "thin" }}
+                >
+                  {ranking.map(({ ad, views }, idx) => (
+                    <button
+                      key={ad.id}
+                      type="button"
+                      onClick={() =>
+                        setSelectedId((id) => (id === ad.id ? null : ad.id))
+                      }
+                      className="w-full text-right rounded-2xl border px-3 py-2"
+                      style={{
+                        borderColor,
+                        background:
+                          selectedId === ad.id ? softGradient : "transparent",
+                      }}
+                    >
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="w-6 text-xs text-muted-foreground">
+                          {(idx + 1).toLocaleString("fa-IR")}
+                        </span>
+                        <span className="flex-1 min-w-0 truncate font-semibold">
+                          {ad.title}
+                        </span>
+                        <span className="text-xs font-bold">
+                          {views.toLocaleString("fa-IR")}
+                        </span>
+                      </div>
+                      <div className="mt-1.5 h-1.5 rounded-full bg-muted overflow-hidden">
+                        <div
+                          className="h-full rounded-full bg-sky-400"
+                          style={{ width: `${(views / maxRank) * 100}%` }}
+                        />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* ── By type ── */}
+            <div className={card} style={{ borderColor, background: cardBg }}>
+              <div className="text-sm font-bold mb-3">
+                عملکرد بر اساس نوع آگهی
+                <span className="mr-1 text-xs font-normal text-muted-foreground">
+                  (میانگین بازدید هر آگهی)
+                </span>
+              </div>
+              {byType.length === 0 ? (
+                <div className="py-6 text-center text-sm text-muted-foreground">
+                  داده‌ای موجود نیست.
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {byType.map((t) => (
+                    <div key={t.type}>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-semibold">
+                          {CAR_AD_TYPE_LABELS[t.type]}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {t.ads.toLocaleString("fa-IR")} آگهی •{" "}
+                          {t.views.toLocaleString("fa-IR")} بازدید •{" "}
+                          <b className="text-foreground">
+                            {Math.round(t.avg).toLocaleString("fa-IR")}
+                          </b>{" "}
+                          میانگین
+                        </span>
+                      </div>
+                      <div className="mt-1.5 h-2 rounded-full bg-muted overflow-hidden">
+                        <div
+                          className="h-full rounded-full"
+                          style={{
+                            width: `${(t.avg / maxTypeAvg) * 100}%`,
+                            background: softGradient,
+                          }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* ── Heatmap ── */}
+          <div className={card} style={{ borderColor, background: cardBg }}>
+            <div className="text-sm font-bold mb-3">
+              بازدید بر اساس روز و ساعت
+            </div>
+            <ViewsHeatmap grid={grid} borderColor={borderColor} />
+          </div>
+        </motion.section>
+      </main>
+    </>
+  );
+}
@@ -1,8 +1,10 @@
 "use client";
 
 import Header from "@/components/Header";
-import { api } from "@/lib/api";
-import { startSignalR, getConnection } from "@/lib/signalr";
+import Link from "next/link";
+import { adsApi } from "@/lib/apiClient";
+import { errorToText } from "@/lib/errorText";
+import { useHubEvent, useHubReconnected } from "@/lib/useHubEvent";
 import { useAuthStore } from "@/store/auth.store";
 
 import { useEffect, useMemo, useRef, useState } from "react";
@@ -17,13 +19,46 @@ import {
   Plus,
   Pencil,
   Trash2,
-  ChevronDown,
-  Search,
-  X,
   Eye,
+  BookmarkCheck,
+  FileClock,
+  Star,
+  BarChart3,
+  CheckSquare,
+  Square,
+  ListChecks,
+  Archive,
+  Copy,
+  FileSpreadsheet,
 } from "lucide-react";
 
-import AddAdModal, { AddAdPayload } from "@/components/ads/AddAdModal";
+import AddAdModal from "@/components/ads/AddAdModal";
+import SavedSearchesDialog from "@/components/ads/SavedSearchesDialog";
+import { useMySavedSearches } from "@/store/savedSearches.store";
+import WatchlistDialog from "@/components/ads/WatchlistDialog";
+import DraftsDialog from "@/components/ads/DraftsDialog";
+import BulkActionsDialog from "@/components/ads/BulkActionsDialog";
+import ImportAdsDialog from "@/components/ads/ImportAdsDialog";
+import AdStatusBadge from "@/components/ads/AdStatusBadge";
+import MarkSoldDialog from "@/components/ads/MarkSoldDialog";
+import { useMyDrafts } from "@/store/drafts.store";
+import { useMyWatchlist } from "@/store/watchlist.store";
+import JalaliRangePicker from "@/components/JalaliRangePicker";
+import { countByDay, inDateRange, type DateRange } from "@/lib/jalaliRange";
+import {
+  adStatus,
+  adToPayload,
+  applyLifecycle,
+  daysUntilExpiry,
+  duplicateAdPayload,
+  gearboxLabel,
+  priceToText,
+  payloadToRequestBody,
+  type Ad,
+  type AddAdPayload,
+  type AdDraft,
+  type AdLifecycleAction,
+} from "@/domain";
 import {
   Dialog,
   DialogContent,
@@ -36,27 +71,6 @@ import { useTheme } from "next-themes";
 
 dayjs.extend(jalaliday);
 
-// ─────────────────────────────────────────────
-// Types
-// ─────────────────────────────────────────────
-type Ad = {
-  id: number;
-  userId: number;
-  type: number;
-  title: string;
-  year: number;
-  color: string;
-  mileageKm: number;
-  price: number;
-  gearbox: number;
-  createdAt: string;
-  insuranceMonths?: number | null;
-  chassisNumber?: string;
-  contactPhone?: string;
-  description?: string;
-  viewCount: number;
-};
-
 // ─────────────────────────────────────────────
 // Helpers
 // ─────────────────────────────────────────────
@@ -71,216 +85,6 @@ function toJalaliDay(iso: string) {
   return dayjs(iso).calendar("jalali").locale("fa").format("YYYY/MM/DD");
 }
 
-function typeNumToKey(n: number): AddAdPayload["type"] {
-  if (n === 2) return "CoopSale";
-  if (n === 3) return "BuyRequest";
-  if (n === 4) return "ZeroSale";
-  return "UsedSale";
-}
-
-function gearboxNumToKey(n: number): AddAdPayload["gearbox"] | "" {
-  if (n === 1) return "Automatic";
-  if (n === 2) return "Manual";
-  return "";
-}
-
-function typeKeyToNum(k: AddAdPayload["type"]) {
-  const map: Record<AddAdPayload["type"], number> = {
-    UsedSale: 1,
-    CoopSale: 2,
-    BuyRequest: 3,
-    ZeroSale: 4,
-  };
-  return map[k];
-}
-
-function gearboxKeyToNum(k: AddAdPayload["gearbox"] | "") {
-  const map: Record<string, number> = { "": 0, Automatic: 1, Manual: 2 };
-  return map[k] ?? 0;
-}
-
-function gearboxLabel(n: number) {
-  if (n === 1) return "اتومات";
-  if (n === 2) return "دنده‌ای";
-  return "";
-}
-
-// ─────────────────────────────────────────────
-// SearchableSelect
-// ─────────────────────────────────────────────
-type Opt = { value: string; label: string; disabled?: boolean };
-
-function SearchableSelect({
-  value,
-  onChange,
-  placeholder,
-  options,
-  widthClass = "w-[180px]",
-  disabled = false,
-  softGradient,
-  borderColor,
-  baseBg,
-  popoverBg,
-}: {
-  value: string;
-  onChange: (v: string) => void;
-  placeholder: string;
-  options: Opt[];
-  widthClass?: string;
-  disabled?: boolean;
-  softGradient: string;
-  borderColor: string;
-  baseBg: string;
-  popoverBg: string;
-}) {
-  const [open, setOpen] = useState(false);
-  const [q, setQ] = useState("");
-  const wrapRef = useRef<HTMLDivElement | null>(null);
-  const selectedLabel = options.find((x) => x.value === value)?.label ?? "";
-  const filtered = useMemo(() => {
-    const s = q.trim().toLowerCase();
-    if (!s) return options;
-    return options.filter((o) => o.label.toLowerCase().includes(s));
-  }, [options, q]);
-
-  useEffect(() => {
-    function onDocClick(e: MouseEvent) {
-      if (!wrapRef.current?.contains(e.target as Node)) {
-        setOpen(false);
-        setQ("");
-      }
-    }
-    document.addEventListener("mousedown", onDocClick);
-    return () => document.removeEventListener("mousedown", onDocClick);
-  }, []);
-
-  return (
-    <div ref={wrapRef} className={`relative ${widthClass}`}>
-      <button
-        type="button"
-        disabled={disabled}
-        onClick={() => {
-          if (!disabled) {
-            setOpen((p) => !p);
-            setQ("");
-          }
-        }}
-        className={[
-          "h-10 w-full rounded-2xl border px-3 flex items-center justify-between gap-2 transition-all duration-200",
-          disabled
-            ? "opacity-50 cursor-not-allowed"
-            : "cursor-pointer hover:-translate-y-[1px] hover:shadow-md",
-        ].join(" ")}
-        style={{
-          borderColor,
-          background: baseBg,
-          color: "hsl(var(--foreground))",
-        }}
-        onMouseEnter={(e) => {
-          if (!disabled) e.currentTarget.style.background = softGradient;
-        }}
-        onMouseLeave={(e) => {
-          if (!disabled) e.currentTarget.style.background = baseBg;
-        }}
-      >
-        <span className="text-[13px] font-semibold truncate">
-          {selectedLabel || placeholder}
-        </span>
-        <span className="flex items-center gap-2">
-          {value ? (
-            <span
-              onClick={(ev) => {
-                ev.stopPropagation();
-                onChange("");
-              }}
-              className="h-7 w-7 rounded-xl grid place-items-center border cursor-pointer"
-              style={{ borderColor, background: "hsl(var(--background))" }}
-            >
-              <X className="h-4 w-4" />
-            </span>
-          ) : null}
-          <ChevronDown className="h-4 w-4 opacity-80" />
-        </span>
-      </button>
-
-      {open && !disabled && (
-        <div
-          className="absolute z-50 mt-2 w-full rounded-2xl border shadow-lg overflow-hidden"
-          style={{
-            borderColor,
-            background: popoverBg,
-            color: "hsl(var(--popover-foreground))",
-          }}
-        >
-          <div className="p-2 border-b" style={{ borderColor }}>
-            <div
-              className="h-10 rounded-2xl border px-3 flex items-center gap-2"
-              style={{ borderColor, background: "hsl(var(--background))" }}
-            >
-              <Search className="h-4 w-4 opacity-70" />
-              <input
-                value={q}
-                onChange={(e) => setQ(e.target.value)}
-                placeholder="جستجو..."
-                className="w-full bg-transparent outline-none text-sm"
-                autoFocus
-              />
-            </div>
-          </div>
-          <div className="max-h-64 overflow-auto p-2 space-y-2">
-            {filtered.length === 0 ? (
-              <div className="py-6 text-center text-sm text-muted-foreground">
-                موردی پیدا نشد
-              </div>
-            ) : (
-              filtered.map((o) => {
-                const active = o.value === value;
-                return (
-                  <button
-                    key={o.value}
-                    type="button"
-                    disabled={o.disabled}
-                    onClick={() => {
-                      if (!o.disabled) {
-                        onChange(o.value);
-                        setOpen(false);
-                        setQ("");
-                      }
-                    }}
-                    className={[
-                      "w-full text-right px-3 py-2 rounded-2xl border text-sm font-semibold transition-all",
-                      o.disabled
-                        ? "opacity-40 cursor-not-allowed"
-                        : "cursor-pointer hover:-translate-y-[1px] hover:shadow-sm",
-                    ].join(" ")}
-                    style={{
-                      borderColor,
-                      background: active
-                        ? softGradient
-                        : "hsl(var(--background))",
-                    }}
-                    onMouseEnter={(e) => {
-                      if (!o.disabled && !active)
-                        e.currentTarget.style.background = softGradient;
-                    }}
-                    onMouseLeave={(e) => {
-                      if (!o.disabled && !active)
-                        e.currentTarget.style.background =
-                          "hsl(var(--background))";
-                    }}
-                  >
-                    {o.label}
-                  </button>
-                );
-              })
-            )}
-          </div>
-        </div>
-      )}
-    </div>
-  );
-}
-
 // ─────────────────────────────────────────────
 // Skeleton
 // ─────────────────────────────────────────────
@@ -342,7 +146,13 @@ function AdCard({
   ad,
   flashCount,
   onEdit,
+  onDuplicate,
   onDelete,
+  selectable,
+  selected,
+  onToggleSelect,
+  onMarkSold,
+  onLifecycle,
   softGradient,
   borderColor,
   cardItemBg,
@@ -353,7 +163,13 @@ function AdCard({
   ad: Ad;
   flashCount: number;
   onEdit: () => void;
+  onDuplicate: () => void;
   onDelete: () => void;
+  selectable: boolean;
+  selected: boolean;
+  onToggleSelect: () => void;
+  onMarkSold: () => void;
+  onLifecycle: (action: "renew" | "archive") => void;
   softGradient: string;
   borderColor: string;
   cardItemBg: string;
@@ -376,13 +192,22 @@ function AdCard({
   }, [flashCount]);
 
   const gb = gearboxLabel(ad.gearbox);
+  const status = adStatus(ad);
+  const daysLeft = status === "Active" ? daysUntilExpiry(ad) : null;
+
+  const lifecycleBtn =
+    "h-8 rounded-xl border px-3 text-xs font-semibold cursor-pointer transition hover:-translate-y-[1px]";
 
   return (
     <div
       ref={cardRef}
       className="relative rounded-[26px] border p-4 sm:p-5 transition-all hover:-translate-y-[2px]"
       style={{
-        borderColor: isFlashing ? "rgba(56,189,248,0.92)" : borderColor,
+        borderColor: isFlashing
+          ? "rgba(56,189,248,0.92)"
+          : selected
+          ? "rgba(56,189,248,0.7)"
+          : borderColor,
         background: cardItemBg,
         boxShadow: isFlashing
           ? "0 0 0 2px rgba(56,189,248,0.5), 0 0 36px rgba(56,189,248,0.30)"
@@ -401,6 +226,23 @@ function AdCard({
           (e.currentTarget as HTMLDivElement).style.boxShadow = "none";
       }}
     >
+      {/* انتخاب گروهی */}
+      {selectable && (
+        <button
+          type="button"
+          onClick={onToggleSelect}
+          className="absolute top-3 right-3 h-10 w-10 rounded-2xl border grid place-items-center cursor-pointer transition hover:-translate-y-[1px]"
+          style={{ borderColor, background: selected ? softGradient : chipBg }}
+          title={selected ? "لغو انتخاب" : "انتخاب"}
+        >
+          {selected ? (
+            <CheckSquare className="h-5 w-5 text-sky-500" />
+          ) : (
+            <Square className="h-5 w-5 opacity-60" />
+          )}
+        </button>
+      )}
+
       {/* دکمه‌های ویرایش/حذف */}
       <div className="absolute top-3 left-3 flex items-center gap-2">
         <button
@@ -417,6 +259,20 @@ function AdCard({
         >
           <Pencil className="h-5 w-5 text-yellow-400" />
         </button>
+        <button
+          type="button"
+          onClick={onDuplicate}
+          className="h-10 w-10 rounded-2xl border grid place-items-center cursor-pointer transition hover:-translate-y-[1px] hover:shadow-md"
+          style={{
+            borderColor,
+            background: isDark
+              ? "color-mix(in srgb, rgb(56 189 248) 18%, rgba(255,255,255,.06) 82%)"
+              : "color-mix(in srgb, rgba(56,189,248,.22) 22%, hsl(var(--background)) 78%)",
+          }}
+          title="کپی به‌عنوان آگهی جدید"
+        >
+          <Copy className="h-5 w-5 text-sky-500" />
+        </button>
         <button
           type="button"
           onClick={onDelete}
@@ -437,6 +293,18 @@ function AdCard({
         <div className="text-lg sm:text-xl font-extrabold text-foreground">
           {ad.title}
         </div>
+        <div className="mt-2 flex items-center justify-center gap-2">
+          <AdStatusBadge ad={ad} showActive />
+          {daysLeft !== null && (
+            <span
+              className={`text-[11px] font-semibold ${
+                daysLeft <= 3 ? "text-amber-500" : "text-muted-foreground"
+              }`}
+            >
+              {daysLeft.toLocaleString("fa-IR")} روز تا انقضا
+            </span>
+          )}
+        </div>
 
         <div className="mt-4 flex flex-wrap items-center justify-center gap-2">
           <div
@@ -476,6 +344,48 @@ function AdCard({
             <span className="text-xs font-semibold opacity-80">میلیون</span>
           </div>
         </div>
+        {status === "Sold" && !!ad.soldPrice && (
+          <div className="mt-2 text-xs font-semibold text-muted-foreground">
+            فروخته شد به {priceToText(ad.soldPrice)}
+          </div>
+        )}
+
+        {/* چرخه‌ی عمر */}
+        <div className="mt-4 flex flex-wrap items-center justify-center gap-2">
+          {status === "Active" && (
+            <button
+              type="button"
+              onClick={onMarkSold}
+              className={lifecycleBtn}
+              style={{ borderColor, background: chipBg }}
+            >
+              فروخته شد
+            </button>
+          )}
+          {status !== "Active" && (
+            <button
+              type="button"
+              onClick={() => onLifecycle("renew")}
+              className={lifecycleBtn}
+              style={{
+                borderColor,
+                background: status === "Expired" ? softGradient : chipBg,
+              }}
+            >
+              {status === "Archived" ? "بازگردانی" : "تمدید"}
+            </button>
+          )}
+          {status !== "Archived" && (
+            <button
+              type="button"
+              onClick={() => onLifecycle("archive")}
+              className={lifecycleBtn}
+              style={{ borderColor, background: chipBg }}
+            >
+              بایگانی
+            </button>
+          )}
+        </div>
       </div>
 
       {/* بازدید + تاریخ */}
@@ -497,11 +407,24 @@ function AdCard({
   );
 }
 
+const LIFECYCLE_TEXT: Record<AdLifecycleAction, string> = {
+  sold: "آگهی به‌عنوان فروخته‌شده ثبت شد ✅",
+  renew: "آگهی تمدید شد ✅",
+  archive: "آگهی بایگانی شد ✅",
+};
+
 // ─────────────────────────────────────────────
 // Main Dashboard Page
 // ─────────────────────────────────────────────
 export default function DashboardPage() {
   const token = useAuthStore((s) => s.token);
+  const userId = useAuthStore((s) => s.userId);
+  const savedSearches = useMySavedSearches(userId);
+  const [savedOpen, setSavedOpen] = useState(false);
+  const watchlist = useMyWatchlist(userId);
+  const [watchOpen, setWatchOpen] = useState(false);
+  const drafts = useMyDrafts(userId);
+  const [draftsOpen, setDraftsOpen] = useState(false);
 
   const { resolvedTheme } = useTheme();
   const isDark = resolvedTheme === "dark";
@@ -570,12 +493,28 @@ export default function DashboardPage() {
   const [addOpen, setAddOpen] = useState(false);
   const [editingAdId, setEditingAdId] = useState<number | null>(null);
   const [editInitial, setEditInitial] = useState<AddAdPayload | null>(null);
+  const [resumeDraft, setResumeDraft] = useState<AdDraft | null>(null);
   const [deleteOpen, setDeleteOpen] = useState(false);
   const [deleting, setDeleting] = useState<Ad | null>(null);
 
-  const [selYear, setSelYear] = useState("");
-  const [selMonth, setSelMonth] = useState("");
-  const [selDay, setSelDay] = useState("");
+  const [range, setRange] = useState<DateRange | undefined>();
+
+  // ✅ چرخه‌ی عمر: تب بایگانی + «فروخته شد»
+  const [tab, setTab] = useState<"current" | "archived">("current");
+  const [sellingAd, setSellingAd] = useState<Ad | null>(null);
+
+  // ✅ انتخاب گروهی
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [bulkOpen, setBulkOpen] = useState(false);
+  // هر بار باز شدن، دیالوگ از نو ساخته شود
+  const [bulkSession, setBulkSession] = useState(0);
+  // در حین عملیات گروهی toastهای تکی hub نمایش داده نشوند
+  const bulkBusyRef = useRef(false);
+
+  // ✅ ورود از CSV/اکسل
+  const [importOpen, setImportOpen] = useState(false);
+  const [importSession, setImportSession] = useState(0);
 
   // ✅ flash counter per ad
   const [flashCounts, setFlashCounts] = useState<Record<number, number>>({});
@@ -591,64 +530,70 @@ export default function DashboardPage() {
   }, [token]);
 
   // ── SignalR ───────────────────────────────────
-  useEffect(() => {
-    if (!token) return;
-    (async () => {
-      try {
-        await startSignalR();
-        const conn = getConnection();
-        if (!conn) return;
-
-        conn.off("CarAdCreatedForUser");
-        conn.on("CarAdCreatedForUser", (ad: Ad) => {
-          setAds((prev) => [ad, ...prev]);
-          toast.success("آگهی جدید ثبت شد ✅");
-        });
-
-        conn.off("MyCarAdUpdated");
-        conn.on("MyCarAdUpdated", (payload: any) => {
-          setAds((prev) =>
-            prev.map((x) => (x.id === payload.id ? { ...x, ...payload } : x))
-          );
-          toast.success("آگهی ویرایش شد ✅");
-        });
-
-        conn.off("MyCarAdDeleted");
-        conn.on("MyCarAdDeleted", (payload: any) => {
-          setAds((prev) => prev.filter((x) => x.id !== payload.adId));
-          toast.success("آگهی حذف شد ✅");
-        });
-
-        // ✅ بازدید → آپدیت viewCount + flash + scroll to top
-        conn.off("AdViewUpdated");
-        conn.on(
-          "AdViewUpdated",
-          (payload: { adId: number; viewCount: number }) => {
-            setAds((prev) => {
-              const updated = prev.map((x) =>
-                x.id === payload.adId
-                  ? { ...x, viewCount: payload.viewCount }
-                  : x
-              );
-              // آگهی بازدیدشده را اول لیست بیاور
-              const idx = updated.findIndex((x) => x.id === payload.adId);
-              if (idx > 0) {
-                const [item] = updated.splice(idx, 1);
-                updated.unshift(item);
-              }
-              return updated;
-            });
-
-            // flash کارت
-            setFlashCounts((prev) => ({
-              ...prev,
-              [payload.adId]: (prev[payload.adId] ?? 0) + 1,
-            }));
-          }
+  useHubEvent(
+    "CarAdCreatedForUser",
+    (ad) => {
+      setAds((prev) => [ad, ...prev]);
+      if (!bulkBusyRef.current) toast.success("آگهی جدید ثبت شد ✅");
+    },
+    !!token
+  );
+
+  useHubEvent(
+    "MyCarAdUpdated",
+    (ad) => {
+      // ✅ payload جزئی فیلدهای نیامده را ریست نکند
+      setAds((prev) => prev.map((x) => (x.id === ad.id ? { ...x, ...ad } : x)));
+      if (!bulkBusyRef.current) toast.success("آگهی ویرایش شد ✅");
+    },
+    !!token
+  );
+
+  useHubEvent(
+    "MyCarAdDeleted",
+    ({ adId }) => {
+      setAds((prev) => prev.filter((x) => x.id !== adId));
+      if (!bulkBusyRef.current) toast.success("آگهی حذف شد ✅");
+    },
+    !!token
+  );
+
+  // ✅ بعد از reconnect کل لیست (بی‌صدا)؛ delta آگهی‌های حذف‌شده را نمی‌آورد
+  useHubReconnected(() => {
+    adsApi
+      .mine()
+      .then((list) => {
+        list.sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+        setAds(list);
+      })
+      .catch(() => {});
+  }, !!token);
+
+  // ✅ بازدید → آپدیت viewCount + flash + scroll to top
+  useHubEvent(
+    "AdViewUpdated",
+    (payload) => {
+      setAds((prev) => {
+        const updated = prev.map((x) =>
+          x.id === payload.adId ? { ...x, viewCount: payload.viewCount } : x
         );
-      } catch {}
-    })();
-  }, [token]);
+        // آگهی بازدیدشده را اول لیست بیاور
+        const idx = updated.findIndex((x) => x.id === payload.adId);
+        if (idx > 0) {
+          const [item] = updated.splice(idx, 1);
+          updated.unshift(item);
+        }
+        return updated;
+      });
+
+      // flash کارت
+      setFlashCounts((prev) => ({
+        ...prev,
+        [payload.adId]: (prev[payload.adId] ?? 0) + 1,
+      }));
+    },
+    !!token
+  );
 
   // ✅ همچنین CustomEvent از همان مرورگر
   useEffect(() => {
@@ -682,12 +627,11 @@ export default function DashboardPage() {
     setErr(null);
     setAdsLoading(true);
     try {
-      const res = await api.get("/api/ads/mine");
-      const list = (res.data ?? []) as Ad[];
+      const list = await adsApi.mine();
       list.sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
       setAds(list);
-    } catch (e: any) {
-      setErr(e?.response?.data ?? "خطا در دریافت آگهی‌های شما");
+    } catch (e) {
+      setErr(errorToText(e) || "خطا در دریافت آگهی‌های شما");
     } finally {
       setAdsLoading(false);
     }
@@ -699,65 +643,31 @@ export default function DashboardPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [token]);
 
-  // ── Date index ────────────────────────────────
-  const dateIndex = useMemo(() => {
-    const map = new Map<string, Map<string, Set<string>>>();
-    for (const ad of ads) {
-      const d = toJalaliDay(ad.createdAt);
-      const [y, m, da] = d.split("/");
-      if (!y || !m || !da) continue;
-      if (!map.has(y)) map.set(y, new Map());
-      const mm = map.get(y)!;
-      if (!mm.has(m)) mm.set(m, new Set());
-      mm.get(m)!.add(da);
-    }
-    return {
-      map,
-      years: Array.from(map.keys()).sort((a, b) => (a < b ? 1 : -1)),
-    };
-  }, [ads]);
+  // ── Date range ────────────────────────────────
+  const dayCounts = useMemo(
+    () => countByDay(ads.map((a) => a.createdAt)),
+    [ads]
+  );
 
-  const yearOptions = useMemo(
-    () => dateIndex.years.map((y) => ({ value: y, label: `سال ${y}` })),
-    [dateIndex.years]
+  const archivedCount = useMemo(
+    () => ads.filter((a) => adStatus(a) === "Archived").length,
+    [ads]
   );
 
-  const monthOptions = useMemo(() => {
-    if (!selYear) return [];
-    const mm = dateIndex.map.get(selYear);
-    if (!mm) return [];
-    return Array.from(mm.keys())
-      .sort((a, b) => (a < b ? 1 : -1))
-      .map((m) => ({ value: m, label: `ماه ${m}` }));
-  }, [dateIndex.map, selYear]);
-
-  const dayOptions = useMemo(() => {
-    if (!selYear || !selMonth) return [];
-    const set = dateIndex.map.get(selYear)?.get(selMonth);
-    if (!set) return [];
-    return Array.from(set)
-      .sort((a, b) => (a < b ? 1 : -1))
-      .map((d) => ({ value: d, label: `روز ${d}` }));
-  }, [dateIndex.map, selYear, selMonth]);
+  const filteredAds = useMemo(
+    () =>
+      ads.filter(
+        (ad) =>
+          (adStatus(ad) === "Archived") === (tab === "archived") &&
+          inDateRange(ad.createdAt, range)
+      ),
+    [ads, range, tab]
+  );
 
-  useEffect(() => {
-    setSelMonth("");
-    setSelDay("");
-  }, [selYear]);
-  useEffect(() => {
-    setSelDay("");
-  }, [selMonth]);
-
-  const filteredAds = useMemo(() => {
-    if (!selYear && !selMonth && !selDay) return ads;
-    return ads.filter((ad) => {
-      const [y, m, da] = toJalaliDay(ad.createdAt).split("/");
-      if (selYear && y !== selYear) return false;
-      if (selMonth && m !== selMonth) return false;
-      if (selDay && da !== selDay) return false;
-      return true;
-    });
-  }, [ads, selYear, selMonth, selDay]);
+  const selectedAds = useMemo(
+    () => ads.filter((a) => selectedIds.has(a.id)),
+    [ads, selectedIds]
+  );
 
   // ── Total views ───────────────────────────────
   const totalViews = useMemo(
@@ -786,24 +696,11 @@ export default function DashboardPage() {
 
   // ── Handlers ──────────────────────────────────
   async function handleAddOrUpdate(payload: AddAdPayload) {
-    const body = {
-      type: typeKeyToNum(payload.type),
-      title: payload.title,
-      year: payload.year === "" ? 0 : payload.year,
-      color: payload.color,
-      mileageKm: payload.mileageKm === "" ? 0 : payload.mileageKm,
-      insuranceMonths:
-        payload.insuranceMonths === "" ? null : payload.insuranceMonths,
-      gearbox: gearboxKeyToNum(payload.gearbox),
-      chassisNumber: payload.chassisNumber,
-      contactPhone: payload.contactPhone,
-      price: payload.price === "" ? 0 : payload.price,
-      description: payload.description ?? "",
-    };
+    const body = payloadToRequestBody(payload);
 
     if (editingAdId) {
       toast.loading("در حال ویرایش آگهی...", { id: "edit-ad" });
-      await api.put(`/api/ads/${editingAdId}`, body);
+      await adsApi.update(editingAdId, body);
       toast.success("آگهی ویرایش شد ✅", { id: "edit-ad" });
       await loadAds();
       setEditingAdId(null);
@@ -812,29 +709,98 @@ export default function DashboardPage() {
     }
 
     toast.loading("در حال ثبت آگهی...", { id: "add-ad" });
-    await api.post("/api/ads", body);
+    await adsApi.create(body);
     toast.success("آگهی ثبت شد ✅", { id: "add-ad" });
     await loadAds();
   }
 
   function openEdit(ad: Ad) {
     setEditingAdId(ad.id);
-    setEditInitial({
-      type: typeNumToKey(ad.type),
-      title: ad.title ?? "",
-      year: ad.year ?? "",
-      color: ad.color ?? "",
-      mileageKm: ad.mileageKm ?? "",
-      insuranceMonths: ad.insuranceMonths ?? "",
-      gearbox: gearboxNumToKey(ad.gearbox),
-      chassisNumber: ad.chassisNumber ?? "",
-      contactPhone: ad.contactPhone ?? "",
-      price: ad.price ?? "",
-      description: ad.description ?? "",
-    });
+    setEditInitial(adToPayload(ad));
     setAddOpen(true);
   }
 
+  // ✅ کپی آگهی: همان نگاشت ویرایش، ولی ثبت جدید و بدون شاسی و عکس
+  function openDuplicate(ad: Ad) {
+    setEditingAdId(null);
+    setEditInitial(duplicateAdPayload(ad));
+    setResumeDraft(null);
+    setAddOpen(true);
+  }
+
+  function openDraft(draft: AdDraft) {
+    if (draft.adId !== null) {
+      const ad = ads.find((a) => a.id === draft.adId);
+      if (!ad) {
+        toast.error("آگهیِ این پیش‌نویس دیگر وجود ندارد");
+        return;
+      }
+      setEditingAdId(ad.id);
+      setEditInitial(adToPayload(ad));
+    } else {
+      setEditingAdId(null);
+      setEditInitial(null);
+    }
+    setResumeDraft(draft);
+    setDraftsOpen(false);
+    setAddOpen(true);
+  }
+
+  function toggleSelected(adId: number) {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(adId)) next.delete(adId);
+      else next.add(adId);
+      return next;
+    });
+  }
+
+  function exitSelectMode() {
+    setSelectMode(false);
+    setSelectedIds(new Set());
+  }
+
+  function openBulk() {
+    setBulkSession((n) => n + 1);
+    setBulkOpen(true);
+  }
+
+  // موفق‌ها از انتخاب خارج می‌شوند؛ ناموفق‌ها برای تلاش دوباره می‌مانند
+  function finishBulk(doneIds: number[]) {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      for (const id of doneIds) next.delete(id);
+      return next;
+    });
+    if (doneIds.length) loadAds();
+  }
+
+  async function runLifecycle(
+    ad: Ad,
+    action: AdLifecycleAction,
+    soldPrice: number | null = null
+  ) {
+    const id = `lifecycle-${ad.id}`;
+    toast.loading("در حال ثبت...", { id });
+    try {
+      if (action === "sold") await adsApi.markSold(ad.id, soldPrice);
+      else if (action === "renew") await adsApi.renew(ad.id);
+      else await adsApi.archive(ad.id);
+      setAds((prev) =>
+        prev.map((x) =>
+          x.id === ad.id ? applyLifecycle(x, action, soldPrice) : x
+        )
+      );
+      toast.success(LIFECYCLE_TEXT[action], { id });
+    } catch (e) {
+      toast.error("عملیات ناموفق بود", {
+        id,
+        description: errorToText(e) || "لطفاً دوباره تلاش کنید.",
+      });
+      throw e;
+    }
+  }
+
   function openDelete(ad: Ad) {
     setDeleting(ad);
     setDeleteOpen(true);
@@ -844,13 +810,13 @@ export default function DashboardPage() {
     if (!deleting) return;
     toast.loading("در حال حذف آگهی...", { id: "del-ad" });
     try {
-      await api.delete(`/api/ads/${deleting.id}`);
+      await adsApi.remove(deleting.id);
       toast.success("آگهی حذف شد ✅", { id: "del-ad" });
       await loadAds();
-    } catch (e: any) {
+    } catch (e) {
       toast.error("حذف آگهی ناموفق بود", {
         id: "del-ad",
-        description: e?.response?.data ?? "لطفاً دوباره تلاش کنید.",
+        description: errorToText(e) || "لطفاً دوباره تلاش کنید.",
       });
     } finally {
       setDeleteOpen(false);
@@ -878,11 +844,90 @@ export default function DashboardPage() {
           if (!v) {
             setEditingAdId(null);
             setEditInitial(null);
+            setResumeDraft(null);
           }
         }}
         onSubmit={handleAddOrUpdate}
         initialValue={editInitial ?? undefined}
         mode={editingAdId ? "edit" : "create"}
+        adId={editingAdId}
+        resumeDraft={resumeDraft}
+        existingAds={ads}
+        onEditExisting={(ad) => {
+          setResumeDraft(null);
+          openEdit(ad);
+        }}
+      />
+
+      <DraftsDialog
+        open={draftsOpen}
+        onOpenChange={setDraftsOpen}
+        userId={userId}
+        onResume={openDraft}
+        borderColor={borderColor}
+        itemBg={cardItemBg}
+      />
+
+      <SavedSearchesDialog
+        open={savedOpen}
+        onOpenChange={setSavedOpen}
+        userId={userId}
+        borderColor={borderColor}
+        itemBg={cardItemBg}
+      />
+
+      <MarkSoldDialog
+        key={sellingAd?.id ?? 0}
+        ad={sellingAd}
+        onOpenChange={(v) => {
+          if (!v) setSellingAd(null);
+        }}
+        onConfirm={async (ad, finalPrice) => {
+          try {
+            await runLifecycle(ad, "sold", finalPrice);
+            setSellingAd(null);
+          } catch {
+            // خطا با toast نمایش داده شد؛ دیالوگ باز می‌ماند
+          }
+        }}
+      />
+
+      <BulkActionsDialog
+        key={bulkSession}
+        open={bulkOpen}
+        onOpenChange={setBulkOpen}
+        ads={selectedAds}
+        onBusyChange={(busy) => {
+          bulkBusyRef.current = busy;
+        }}
+        onFinished={finishBulk}
+        borderColor={borderColor}
+        itemBg={cardItemBg}
+        activeBg={softGradient}
+      />
+
+      <ImportAdsDialog
+        key={`import-${importSession}`}
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onBusyChange={(busy) => {
+          bulkBusyRef.current = busy;
+        }}
+        onFinished={(created) => {
+          if (created) loadAds();
+        }}
+        borderColor={borderColor}
+        itemBg={cardItemBg}
+        activeBg={softGradient}
+      />
+
+      <WatchlistDialog
+        open={watchOpen}
+        onOpenChange={setWatchOpen}
+        userId={userId}
+        borderColor={borderColor}
+        itemBg={cardItemBg}
+        chipBg={chipBg}
       />
 
       <Dialog open={deleteOpen} onOpenChange={setDeleteOpen}>
@@ -928,7 +973,7 @@ export default function DashboardPage() {
         >
           {/* ── Top bar ── */}
           <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-2">
-            <div className="flex justify-start">
+            <div className="flex justify-start gap-2">
               <Button
                 variant="outline"
                 onClick={() => {
@@ -956,6 +1001,25 @@ export default function DashboardPage() {
                   افزودن آگهی
                 </span>
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setImportSession((n) => n + 1);
+                  setImportOpen(true);
+                }}
+                className="h-9 rounded-2xl border px-3 text-sm font-semibold"
+                style={{
+                  borderColor,
+                  background: baseBtnBg,
+                  color: "hsl(var(--foreground))",
+                }}
+                title="ورود گروهی آگهی از فایل CSV یا اکسل"
+              >
+                <span className="inline-flex items-center gap-2">
+                  <FileSpreadsheet className="h-4 w-4" />
+                  ورود از اکسل
+                </span>
+              </Button>
             </div>
 
             <div className="flex justify-center">
@@ -967,49 +1031,166 @@ export default function DashboardPage() {
               </div>
             </div>
 
-            <div />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setDraftsOpen(true)}
+                className="h-9 rounded-2xl border px-3 text-sm font-semibold"
+                style={{
+                  borderColor,
+                  background: baseBtnBg,
+                  color: "hsl(var(--foreground))",
+                }}
+              >
+                <span className="inline-flex items-center gap-2">
+                  <FileClock className="h-4 w-4" />
+                  پیش‌نویس‌ها
+                  {drafts.length > 0 && (
+                    <span className="text-[11px] opacity-70">
+                      ({drafts.length.toLocaleString("fa-IR")})
+                    </span>
+                  )}
+                </span>
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setWatchOpen(true)}
+                className="h-9 rounded-2xl border px-3 text-sm font-semibold"
+                style={{
+                  borderColor,
+                  background: baseBtnBg,
+                  color: "hsl(var(--foreground))",
+                }}
+              >
+                <span className="inline-flex items-center gap-2">
+                  <Star className="h-4 w-4" />
+                  نشان‌شده‌ها
+                  {watchlist.length > 0 && (
+                    <span className="text-[11px] opacity-70">
+                      ({watchlist.length.toLocaleString("fa-IR")})
+                    </span>
+                  )}
+                </span>
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setSavedOpen(true)}
+                className="h-9 rounded-2xl border px-3 text-sm font-semibold"
+                style={{
+                  borderColor,
+                  background: baseBtnBg,
+                  color: "hsl(var(--foreground))",
+                }}
+              >
+                <span className="inline-flex items-center gap-2">
+                  <BookmarkCheck className="h-4 w-4" />
+                  جستجوهای ذخیره‌شده
+                  {savedSearches.length > 0 && (
+                    <span className="text-[11px] opacity-70">
+                      ({savedSearches.length.toLocaleString("fa-IR")})
+                    </span>
+                  )}
+                </span>
+              </Button>
+            </div>
           </div>
 
-          {/* ── Date filters ── */}
+          {/* ── Tabs + Date filter ── */}
           <div className="mt-3 flex flex-wrap gap-2 justify-center">
-            <SearchableSelect
-              value={selYear}
-              onChange={setSelYear}
-              placeholder="انتخاب سال"
-              options={yearOptions}
-              widthClass="w-[170px]"
-              disabled={yearOptions.length === 0}
-              softGradient={softGradient}
-              borderColor={borderColor}
-              baseBg={baseBtnBg}
-              popoverBg={popoverBg}
-            />
-            <SearchableSelect
-              value={selMonth}
-              onChange={setSelMonth}
-              placeholder="انتخاب ماه"
-              options={monthOptions}
-              widthClass="w-[170px]"
-              disabled={!selYear || monthOptions.length === 0}
-              softGradient={softGradient}
-              borderColor={borderColor}
-              baseBg={baseBtnBg}
-              popoverBg={popoverBg}
-            />
-            <SearchableSelect
-              value={selDay}
-              onChange={setSelDay}
-              placeholder="انتخاب روز"
-              options={dayOptions}
-              widthClass="w-[170px]"
-              disabled={!selYear || !selMonth || dayOptions.length === 0}
-              softGradient={softGradient}
+            {(["current", "archived"] as const).map((t) => (
+              <Button
+                key={t}
+                variant="outline"
+                onClick={() => setTab(t)}
+                className="h-9 rounded-2xl border px-3 text-sm font-semibold"
+                style={{
+                  borderColor,
+                  background: tab === t ? softGradient : baseBtnBg,
+                  color: "hsl(var(--foreground))",
+                }}
+              >
+                {t === "current" ? (
+                  "آگهی‌های من"
+                ) : (
+                  <span className="inline-flex items-center gap-2">
+                    <Archive className="h-4 w-4" />
+                    بایگانی
+                    {archivedCount > 0 && (
+                      <span className="text-[11px] opacity-70">
+                        ({archivedCount.toLocaleString("fa-IR")})
+                      </span>
+                    )}
+                  </span>
+                )}
+              </Button>
+            ))}
+            <JalaliRangePicker
+              value={range}
+              onChange={setRange}
+              counts={dayCounts}
+              placeholder="فیلتر تاریخ ثبت آگهی"
               borderColor={borderColor}
               baseBg={baseBtnBg}
+              activeBg={softGradient}
               popoverBg={popoverBg}
             />
+            <Button
+              variant="outline"
+              onClick={() =>
+                selectMode ? exitSelectMode() : setSelectMode(true)
+              }
+              className="h-9 rounded-2xl border px-3 text-sm font-semibold"
+              style={{
+                borderColor,
+                background: selectMode ? softGradient : baseBtnBg,
+                color: "hsl(var(--foreground))",
+              }}
+            >
+              <span className="inline-flex items-center gap-2">
+                <ListChecks className="h-4 w-4" />
+                {selectMode ? "خروج از انتخاب" : "انتخاب گروهی"}
+              </span>
+            </Button>
           </div>
 
+          {/* ── Bulk bar ── */}
+          {selectMode && (
+            <div
+              className="mt-2 flex flex-wrap items-center justify-center gap-2 rounded-2xl border px-3 py-2 text-sm"
+              style={{ borderColor, background: baseBtnBg }}
+            >
+              <span className="font-semibold">
+                {selectedIds.size.toLocaleString("fa-IR")} آگهی انتخاب شده
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  setSelectedIds(new Set(filteredAds.map((a) => a.id)))
+                }
+                className="rounded-xl border px-2.5 py-1 text-xs font-semibold"
+                style={{ borderColor }}
+              >
+                انتخاب همه ({filteredAds.length.toLocaleString("fa-IR")})
+              </button>
+              <button
+                type="button"
+                onClick={() => setSelectedIds(new Set())}
+                disabled={selectedIds.size === 0}
+                className="rounded-xl border px-2.5 py-1 text-xs font-semibold disabled:opacity-50"
+                style={{ borderColor }}
+              >
+                لغو انتخاب
+              </button>
+              <Button
+                onClick={openBulk}
+                disabled={selectedAds.length === 0}
+                className="h-8 rounded-xl px-3 text-xs font-semibold"
+              >
+                عملیات گروهی…
+              </Button>
+            </div>
+          )}
+
           <Separator className="mt-3 opacity-70" />
 
           {/* ── Ad grid ── */}
@@ -1056,7 +1237,15 @@ export default function DashboardPage() {
                         ad={ad}
                         flashCount={flashCounts[ad.id] ?? 0}
                         onEdit={() => openEdit(ad)}
+                        onDuplicate={() => openDuplicate(ad)}
                         onDelete={() => openDelete(ad)}
+                        selectable={selectMode}
+                        selected={selectedIds.has(ad.id)}
+                        onToggleSelect={() => toggleSelected(ad.id)}
+                        onMarkSold={() => setSellingAd(ad)}
+                        onLifecycle={(action) =>
+                          runLifecycle(ad, action).catch(() => {})
+                        }
                         softGradient={softGradient}
                         borderColor={borderColor}
                         cardItemBg={cardItemBg}
@@ -1073,7 +1262,7 @@ export default function DashboardPage() {
 
           {/* ── Footer: بازدید کل ── */}
           <div
-            className="mt-2 pt-2 flex items-center justify-center"
+            className="mt-2 pt-2 flex items-center justify-center gap-2"
             style={{ borderTop: `1px solid hsl(var(--border) / 0.25)` }}
           >
             <div
@@ -1092,6 +1281,14 @@ export default function DashboardPage() {
                 {totalViews.toLocaleString("fa-IR")}
               </span>
             </div>
+            <Link
+              href="/dashboard/analytics"
+              className="flex items-center gap-2 px-4 py-2 rounded-2xl border font-semibold text-sm hover:-translate-y-[1px] transition-all"
+              style={{ borderColor, background: baseBtnBg }}
+            >
+              <BarChart3 className="h-4 w-4" />
+              نمودار بازدیدها
+            </Link>
           </div>
         </motion.section>
       </main>
@@ -1,6 +1,10 @@
 import "./globals.css";
 import AppThemeProvider from "@/lib/theme-provider";
 import { Toaster } from "@/components/ui/sonner";
+import SessionGuard from "@/components/SessionGuard";
+import SavedSearchAlerts from "@/components/SavedSearchAlerts";
+import WatchlistTracker from "@/components/WatchlistTracker";
+import CompareTray from "@/components/CompareTray";
 
 export const metadata = {
   title: "CarAds",
@@ -16,6 +20,10 @@ export default function RootLayout({
     <html lang="fa" dir="rtl" suppressHydrationWarning>
       <body className="min-h-screen bg-background text-foreground antialiased">
         <AppThemeProvider>
+          <SessionGuard />
+          <SavedSearchAlerts />
+          <WatchlistTracker />
+          <CompareTray />
           {children}
 
           {/* ✅ همیشه روی مودال‌ها */}
@@ -2,8 +2,18 @@
 
 import { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import Header from "@/components/Header";
-import { api } from "@/lib/api";
-import { startSignalR } from "@/lib/signalr";
+import { AD_PAGE_SIZE, adsApi, telegramApi, usersApi } from "@/lib/apiClient";
+import { getConnection, startSignalR } from "@/lib/signalr";
+import { useHubEvent, useHubReconnected } from "@/lib/useHubEvent";
+import { useVirtualList } from "@/lib/useVirtualList";
+import { useUrlQuery } from "@/lib/useUrlQuery";
+import AdFiltersPanel from "@/components/ads/AdFiltersPanel";
+import AdStatusBadge from "@/components/ads/AdStatusBadge";
+import WatchStar from "@/components/ads/WatchStar";
+import CompareToggle from "@/components/ads/CompareToggle";
+import { useAuthStore } from "@/store/auth.store";
+import { prefsUserKey, usePrefsStore } from "@/store/prefs.store";
+import { useSavedSearchesStore } from "@/store/savedSearches.store";
 import { motion, AnimatePresence } from "framer-motion";
 import { useTheme } from "next-themes";
 import {
@@ -16,97 +26,47 @@ import {
   Send,
   Radio,
   Clock,
+  SlidersHorizontal,
+  ArrowUpDown,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { errorToText } from "@/lib/errorText";
 import dayjs from "dayjs";
 import jalaliday from "jalaliday";
+import {
+  AD_SORTS,
+  AD_SORT_LABELS,
+  activeFilterCount,
+  carAdTypeLabel,
+  compareAds,
+  describeAdSearch,
+  filtersFromQuery,
+  filtersToQuery,
+  gearboxLabel,
+  matchesAdFilters,
+  matchesAdText,
+  onlineCountSchema,
+  priceToText,
+  searchIncludes,
+  type Ad,
+  type AdFilters,
+  type AdSort,
+  type TelegramMessage,
+  type User,
+} from "@/domain";
 
 dayjs.extend(jalaliday);
 
 // ─────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────
-type Ad = {
-  id: number;
-  userId: number;
-  type: number | string;
-  title: string;
-  year: number;
-  color: string;
-  mileageKm: number;
-  price: number;
-  gearbox: number | string;
-  createdAt: string;
-  insuranceMonths?: number | null;
-  chassisNumber?: string;
-  contactPhone?: string;
-  description?: string;
-  viewCount: number;
-};
-
-type UserInfo = {
-  id: number;
-  username: string;
-  firstName: string;
-  lastName: string;
-};
-
-type TelegramMsg = {
-  id: string;
-  text: string;
-  senderName: string;
-  sentAt: string;
-};
-
-// ─────────────────────────────────────────────
-// Label helpers
-// ─────────────────────────────────────────────
-const TYPE_NUM: Record<string, string> = {
-  "1": "فروش کارکرده",
-  "2": "فروش همکاری",
-  "3": "درخواست خرید",
-  "4": "فروش صفر",
-};
-const TYPE_STR: Record<string, string> = {
-  usedsale: "فروش کارکرده",
-  coopsale: "فروش همکاری",
-  buyrequest: "درخواست خرید",
-  zerosale: "فروش صفر",
-};
-function typeLabel(t: number | string): string {
-  const s = String(t).toLowerCase().replace(/\s/g, "");
-  return TYPE_NUM[s] ?? TYPE_STR[s] ?? "نامشخص";
-}
-
-const GEAR_NUM: Record<string, string> = {
-  "0": "—",
-  "1": "اتومات",
-  "2": "دنده‌ای",
-};
-const GEAR_STR: Record<string, string> = {
-  none: "—",
-  automatic: "اتومات",
-  manual: "دنده‌ای",
-};
-function gearboxLabel(g: number | string): string {
-  const s = String(g).toLowerCase().replace(/\s/g, "");
-  return GEAR_NUM[s] ?? GEAR_STR[s] ?? "—";
-}
+type UserInfo = Pick<User, "id" | "username" | "firstName" | "lastName">;
 
-function priceToText(v: number): string {
-  const n = Number(v);
-  if (!Number.isFinite(n) || n <= 0) return "—";
-  const billion = Math.floor(n / 1000);
-  const rem = n - billion * 1000;
-  const million = Math.floor(rem);
-  const thousand = Math.round((rem - million) * 1000);
-  const toFa = (x: number) => x.toLocaleString("fa-IR");
-  const parts: string[] = [];
-  if (billion > 0) parts.push(`${toFa(billion)} میلیارد`);
-  if (million > 0) parts.push(`${toFa(million)} میلیون`);
-  if (thousand > 0) parts.push(`${toFa(thousand)} هزار`);
-  return parts.length ? parts.join(" و ") + " تومان" : "—";
-}
+// ارتفاع ثابت هر ردیف فید (۴px فاصله بین ردیف‌ها) — لازمه‌ی virtualization
+const AD_ROW_HEIGHT = 50;
+// مدت فلش سبز آگهی جدید
+const NEW_AD_FLASH_MS = 3000;
 
 // ─────────────────────────────────────────────
 // Description Modal
@@ -281,7 +241,7 @@ function AdRow({
       : "0 0 0 2px rgba(56,189,248,0.45), 0 0 30px rgba(56,189,248,0.22)";
   const flashAnim = flashColor === "green" ? "rowFlashGreen" : "rowFlashBlue";
   const hasDesc = !!ad.description?.trim();
-  const gb = gearboxLabel(ad.gearbox);
+  const gb = gearboxLabel(ad.gearbox) || "—";
 
   const chip = (content: React.ReactNode) => (
     <span
@@ -294,10 +254,8 @@ function AdRow({
 
   return (
     <motion.div
-      layout
-      initial={isNew ? { opacity: 0, y: 40 } : { opacity: 1, y: 0 }}
+      initial={isNew ? { opacity: 0, y: 40 } : false}
       animate={{ opacity: 1, y: 0 }}
-      exit={{ opacity: 0, y: -12, scale: 0.97 }}
       transition={{ type: "spring", stiffness: 300, damping: 30 }}
     >
       <div
@@ -355,6 +313,16 @@ function AdRow({
             className="flex items-center gap-1.5 shrink-0"
             style={{ maxWidth: 200 }}
           >
+            {ad.photos[0] && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={ad.photos[0].thumbUrl}
+                alt=""
+                loading="lazy"
+                className="h-8 w-8 rounded-lg object-cover shrink-0 border"
+                style={{ borderColor }}
+              />
+            )}
             <span className="font-bold text-sm text-foreground truncate leading-tight">
               {ad.title}
             </span>
@@ -362,8 +330,9 @@ function AdRow({
               className="text-[10px] px-2 py-0.5 rounded-full font-semibold whitespace-nowrap shrink-0"
               style={{ background: softGradient }}
             >
-              {typeLabel(ad.type)}
+              {carAdTypeLabel(ad.type)}
             </span>
+            <AdStatusBadge ad={ad} />
           </div>
 
           <div
@@ -446,6 +415,18 @@ function AdRow({
 
           {/* ── ستون چپ ── */}
           <div className="flex items-center gap-1.5 shrink-0">
+            <WatchStar
+              ad={ad}
+              borderColor={borderColor}
+              isDark={isDark}
+              size={26}
+            />
+            <CompareToggle
+              ad={ad}
+              borderColor={borderColor}
+              isDark={isDark}
+              size={26}
+            />
             {userInfo && (
               <span
                 className="text-[11px] font-bold px-2 py-1 rounded-xl border whitespace-nowrap"
@@ -499,7 +480,7 @@ function MessageRow({
   softGradient,
   isDark,
 }: {
-  msg: TelegramMsg;
+  msg: TelegramMessage;
   borderColor: string;
   softGradient: string;
   isDark: boolean;
@@ -565,11 +546,11 @@ function SitePanel({
   borderColor: string;
   softGradient: string;
   isDark: boolean;
-  messages: TelegramMsg[];
+  messages: TelegramMessage[];
 }) {
   const scrollRef = useRef<HTMLDivElement>(null);
   const [activeTab, setActiveTab] = useState<"live" | "yesterday">("live");
-  const [historyMsgs, setHistoryMsgs] = useState<TelegramMsg[]>([]);
+  const [historyMsgs, setHistoryMsgs] = useState<TelegramMessage[]>([]);
   const [historyLoading, setHistoryLoading] = useState(false);
 
   const bg = isDark
@@ -587,20 +568,9 @@ function SitePanel({
   useEffect(() => {
     if (activeTab !== "yesterday") return;
     setHistoryLoading(true);
-    api
-      .get("/api/telegram/messages/history")
-      .then((res) => {
-        const list = res.data ?? [];
-        const mapped: TelegramMsg[] = (list as any[]).map((m) => ({
-          id: String(
-            m.id || `${m.sentAt}-${m.senderName}-${String(m.text).slice(0, 10)}`
-          ),
-          text: m.text,
-          senderName: m.senderName,
-          sentAt: m.sentAt,
-        }));
-        setHistoryMsgs(mapped);
-      })
+    telegramApi
+      .history()
+      .then(setHistoryMsgs)
       .catch(() => setHistoryMsgs([]))
       .finally(() => setHistoryLoading(false));
   }, [activeTab]);
@@ -812,51 +782,98 @@ export default function HomePage() {
   const [users, setUsers] = useState<Record<number, UserInfo>>({});
   const [newIds, setNewIds] = useState<Set<number>>(new Set());
   const [flashCounts, setFlashCounts] = useState<Record<number, number>>({});
-  const [search, setSearch] = useState("");
+  // ✅ جستجو و فیلترها در query string (لینک قابل اشتراک)
+  const [query, updateQuery] = useUrlQuery();
+  const filters = useMemo(
+    () => filtersFromQuery(new URLSearchParams(query)),
+    [query]
+  );
+  const search = new URLSearchParams(query).get("q") ?? "";
+  // ✅ جستجو با تاخیر به سرور می‌رود (نه با هر کلید)
+  const [serverSearch, setServerSearch] = useState(search);
+  useEffect(() => {
+    const t = setTimeout(() => setServerSearch(search.trim()), 350);
+    return () => clearTimeout(t);
+  }, [search]);
+  const filterKey = useMemo(
+    () => filtersToQuery(filters, undefined, serverSearch).toString(),
+    [filters, serverSearch]
+  );
+  const [filtersOpen, setFiltersOpen] = useState(false);
+
+  // ✅ مرتب‌سازی برای هر کاربر جدا ذخیره می‌شود
+  const userId = useAuthStore((s) => s.userId);
+  const sort = usePrefsStore(
+    (s) => s.adSortByUser[prefsUserKey(userId)] ?? "newest"
+  );
+  const setAdSort = usePrefsStore((s) => s.setAdSort);
+  const addSavedSearch = useSavedSearchesStore((s) => s.add);
+  const feedKey = `${filterKey}|${sort}`;
   const [todayViews, setTodayViews] = useState(0);
   const [onlineCount, setOnlineCount] = useState(0);
   const [selectedAd, setSelectedAd] = useState<Ad | null>(null);
   const [descAd, setDescAd] = useState<Ad | null>(null);
   const [descOpen, setDescOpen] = useState(false);
-  const [telegramMsgs, setTelegramMsgs] = useState<TelegramMsg[]>([]);
+  const [telegramMsgs, setTelegramMsgs] = useState<TelegramMessage[]>([]);
+  // ── Paging ──
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadingMoreRef = useRef(false);
+  // پاسخ صفحه‌ای که برای فیلترهای قبلی رفته بود نادیده گرفته شود
+  const feedKeyRef = useRef(feedKey);
+
+  function setSearch(q: string) {
+    updateQuery((p) => {
+      if (q) p.set("q", q);
+      else p.delete("q");
+    });
+  }
+
+  function setFilters(next: AdFilters) {
+    updateQuery((p) => filtersToQuery(next, p));
+  }
 
   const fetchedUserIds = useRef<Set<number>>(new Set());
   function fetchUser(userId: number) {
     if (fetchedUserIds.current.has(userId)) return;
     fetchedUserIds.current.add(userId);
-    api
-      .get(`/api/users/${userId}`)
-      .then((r) =>
-        setUsers((prev) => ({
-          ...prev,
-          [userId]: {
-            id: r.data.id,
-            username: r.data.username,
-            firstName: r.data.firstName,
-            lastName: r.data.lastName,
-          },
-        }))
-      )
+    usersApi
+      .get(userId)
+      .then((u) => setUsers((prev) => ({ ...prev, [userId]: u })))
       .catch(() => {
         fetchedUserIds.current.delete(userId);
       });
   }
 
   useEffect(() => {
-    api.get("/api/ads").then((res) => {
-      const list: Ad[] = res.data ?? [];
-      setAds(list);
-      [...new Set(list.map((a) => a.userId))].forEach(fetchUser);
-    });
-    api
-      .get("/api/ads/stats/today")
-      .then((r) => setTodayViews(r.data?.todayViews ?? 0))
-      .catch(() => {});
+    feedKeyRef.current = feedKey;
+    // cursor فیلترهای قبلی نباید برای صفحه‌ی بعدِ فیلترهای جدید استفاده شود
+    setNextCursor(null);
+    setHasMore(false);
+    adsApi
+      .page(null, filters, sort, serverSearch)
+      .then(({ items, nextCursor }) => {
+        if (feedKeyRef.current !== feedKey) return;
+        setAds(items);
+        setNextCursor(nextCursor);
+        setHasMore(!!nextCursor);
+        [...new Set(items.map((a) => a.userId))].forEach(fetchUser);
+      })
+      .catch((e) => {
+        toast.error("خطا در دریافت آگهی‌ها", { description: errorToText(e) });
+      });
     // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [feedKey]);
+
+  useEffect(() => {
+    adsApi
+      .todayStats()
+      .then((r) => setTodayViews(r.todayViews))
+      .catch(() => {});
   }, []);
 
   useEffect(() => {
-    let unsub: (() => void) | null = null;
     let pollTimer: any = null;
 
     const startTelegramPolling = () => {
@@ -864,33 +881,11 @@ export default function HomePage() {
 
       pollTimer = setInterval(async () => {
         try {
-          const res = await api.get("/api/telegram/messages");
-          const list = res.data ?? [];
+          const list = await telegramApi.recent();
 
           setTelegramMsgs((prev) => {
             const existingIds = new Set(prev.map((m) => m.id));
-            const newMsgs: TelegramMsg[] = (list as any[])
-              .filter(
-                (m) =>
-                  !existingIds.has(
-                    String(
-                      m.id ||
-                        `${m.sentAt}-${m.senderName}-${String(m.text).slice(
-                          0,
-                          10
-                        )}`
-                    )
-                  )
-              )
-              .map((m) => ({
-                id: String(
-                  m.id ||
-                    `${m.sentAt}-${m.senderName}-${String(m.text).slice(0, 10)}`
-                ),
-                text: m.text,
-                senderName: m.senderName,
-                sentAt: m.sentAt,
-              }));
+            const newMsgs = list.filter((m) => !existingIds.has(m.id));
 
             if (newMsgs.length === 0) return prev;
             const updated = [...prev, ...newMsgs];
@@ -921,34 +916,12 @@ export default function HomePage() {
           startTelegramPolling();
         });
 
-        const onTelegramMessage = (p: {
-          id?: number;
-          text: string;
-          senderName: string;
-          sentAt: string;
-        }) => {
-          const newMsg: TelegramMsg = {
-            id: String(p.id ?? `${Date.now()}-${Math.random()}`),
-            text: p.text,
-            senderName: p.senderName,
-            sentAt: p.sentAt,
-          };
-          setTelegramMsgs((prev) => {
-            if (prev.some((m) => m.id === newMsg.id)) return prev;
-            const updated = [...prev, newMsg];
-            return updated.length > 200 ? updated.slice(-200) : updated;
-          });
-        };
-
-        conn.on("TelegramMessage", onTelegramMessage);
-
         try {
-          await conn.invoke("GetOnlineCount");
+          // ✅ جواب GetOnlineCount همان عدد فعلی است (broadcast فقط با تغییر می‌آید)
+          setOnlineCount(
+            onlineCountSchema.parse(await conn.invoke("GetOnlineCount"))
+          );
         } catch {}
-
-        unsub = () => {
-          conn.off("TelegramMessage", onTelegramMessage);
-        };
       } catch (err) {
         console.log("SignalR failed, enabling polling...", err);
         startTelegramPolling();
@@ -956,18 +929,131 @@ export default function HomePage() {
     })();
 
     return () => {
-      unsub?.();
       stopTelegramPolling();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // ✅ رویدادهای از دست رفته در زمان قطعی: فید + آمار + تلگرام
+  // حذف‌ها در delta نمی‌آیند؛ پس همان تعداد لودشده از اول دوباره گرفته می‌شود
+  useHubReconnected(() => {
+    const key = feedKeyRef.current;
+    adsApi
+      .page(
+        null,
+        filters,
+        sort,
+        serverSearch,
+        Math.max(AD_PAGE_SIZE, ads.length)
+      )
+      .then(({ items, nextCursor }) => {
+        if (feedKeyRef.current !== key) return;
+        setAds(items);
+        setNextCursor(nextCursor);
+        setHasMore(!!nextCursor);
+        [...new Set(items.map((a) => a.userId))].forEach(fetchUser);
+      })
+      .catch(() => {});
+    adsApi
+      .todayStats()
+      .then((r) => setTodayViews(r.todayViews))
+      .catch(() => {});
+    telegramApi
+      .recent()
+      .then((list) =>
+        setTelegramMsgs((prev) => {
+          const existingIds = new Set(prev.map((m) => m.id));
+          const newMsgs = list.filter((m) => !existingIds.has(m.id));
+          if (newMsgs.length === 0) return prev;
+          const updated = [...prev, ...newMsgs];
+          return updated.length > 200 ? updated.slice(-200) : updated;
+        })
+      )
+      .catch(() => {});
+    getConnection()
+      ?.invoke("GetOnlineCount")
+      .then((raw) => setOnlineCount(onlineCountSchema.parse(raw)))
+      .catch(() => {});
+  });
+
+  // ✅ صفحه‌ی بعد وقتی اسکرول به انتهای فید رسید
+  const loadMore = useCallback(() => {
+    if (!hasMore || !nextCursor || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    const key = feedKeyRef.current;
+    adsApi
+      .page(nextCursor, filters, sort, serverSearch)
+      .then(({ items, nextCursor: cursor }) => {
+        if (feedKeyRef.current !== key) return;
+        setAds((prev) => {
+          const known = new Set(prev.map((a) => a.id));
+          return [...prev, ...items.filter((a) => !known.has(a.id))];
+        });
+        setNextCursor(cursor);
+        setHasMore(!!cursor);
+        [...new Set(items.map((a) => a.userId))].forEach(fetchUser);
+      })
+      .catch((e) => {
+        toast.error("خطا در دریافت آگهی‌ها", { description: errorToText(e) });
+      })
+      .finally(() => {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasMore, nextCursor, feedKey]);
+
+  // ✅ آگهی جدید: در جای مرتب‌شده‌ی خودش + فلش سبز
+  useHubEvent("CarAdCreated", (ad) => {
+    if (ads.some((x) => x.id === ad.id)) return;
+    // بعد از آخرین آگهی لودشده؟ با صفحه‌های بعد می‌رسد
+    const last = ads[ads.length - 1];
+    if (hasMore && last && compareAds(sort)(ad, last) > 0) return;
+
+    setAds((prev) => (prev.some((x) => x.id === ad.id) ? prev : [ad, ...prev]));
+    fetchUser(ad.userId);
+    setNewIds((prev) => new Set(prev).add(ad.id));
+    setTimeout(() => {
+      setNewIds((prev) => {
+        const next = new Set(prev);
+        next.delete(ad.id);
+        return next;
+      });
+    }, NEW_AD_FLASH_MS);
+  });
+
+  useHubEvent("CarAdUpdated", (ad) => {
+    setAds((prev) => prev.map((x) => (x.id === ad.id ? ad : x)));
+  });
+
+  useHubEvent("CarAdDeleted", ({ adId }) => {
+    setAds((prev) => prev.filter((x) => x.id !== adId));
+  });
+
+  useHubEvent("AdViewUpdated", ({ adId, viewCount }) => {
+    setAds((prev) =>
+      prev.map((x) => (x.id === adId ? { ...x, viewCount } : x))
+    );
+  });
+
+  // ✅ hub با هر اتصال/قطع اتصال تعداد آنلاین‌ها را push می‌کند
+  useHubEvent("OnlineCount", setOnlineCount);
+
+  useHubEvent("TelegramMessage", (newMsg) => {
+    setTelegramMsgs((prev) => {
+      if (prev.some((m) => m.id === newMsg.id)) return prev;
+      const updated = [...prev, newMsg];
+      return updated.length > 200 ? updated.slice(-200) : updated;
+    });
+  });
+
   const handleViewClick = useCallback(
     async (ad: Ad) => {
       setFlashCounts((prev) => ({ ...prev, [ad.id]: (prev[ad.id] ?? 0) + 1 }));
       try {
-        const res = await api.post(`/api/ads/${ad.id}/view`);
-        const newCount = res.data?.viewCount ?? Number(ad.viewCount) + 1;
+        const newCount =
+          (await adsApi.recordView(ad.id)) ?? Number(ad.viewCount) + 1;
         setAds((prev) =>
           prev.map((x) => (x.id === ad.id ? { ...x, viewCount: newCount } : x))
         );
@@ -983,18 +1069,26 @@ export default function HomePage() {
     [router]
   );
 
+  // آگهی‌های زنده (SignalR) هم باید از همین فیلترها رد شوند
   const filtered = useMemo(() => {
-    if (!search.trim()) return ads;
-    const q = search.trim().toLowerCase();
-    return ads.filter(
-      (a) =>
-        a.title.toLowerCase().includes(q) ||
-        a.color.toLowerCase().includes(q) ||
-        String(a.year).includes(q) ||
-        typeLabel(a.type).includes(q) ||
-        priceToText(a.price).includes(q)
-    );
-  }, [ads, search]);
+    // ارقام فارسی («۱۴۰۱») هم با سال/قیمت جور می‌شوند
+    const q = search.trim();
+    return ads
+      .filter(
+        (a) =>
+          matchesAdFilters(a, filters) &&
+          (!q || matchesAdText(a, q) || searchIncludes(priceToText(a.price), q))
+      )
+      .sort(compareAds(sort));
+  }, [ads, search, filters, sort]);
+
+  const filterCount = activeFilterCount(filters);
+
+  const feed = useVirtualList<HTMLDivElement>({
+    count: filtered.length,
+    rowHeight: AD_ROW_HEIGHT,
+    onReachEnd: loadMore,
+  });
 
   useEffect(() => {
     if (selectedAd) {
@@ -1039,7 +1133,7 @@ export default function HomePage() {
           style={{ borderColor, background: sectionBg }}
         >
           {/* Search */}
-          <div className="flex justify-center shrink-0">
+          <div className="flex justify-center items-center gap-2 shrink-0">
             <div className="w-full max-w-[520px] relative">
               <Search className="absolute right-3.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
               <input
@@ -1065,8 +1159,71 @@ export default function HomePage() {
                 </button>
               )}
             </div>
+            <button
+              type="button"
+              onClick={() => setFiltersOpen((v) => !v)}
+              className="h-10 flex items-center gap-1.5 px-4 rounded-2xl border text-xs font-bold whitespace-nowrap shrink-0"
+              style={{
+                borderColor,
+                background:
+                  filtersOpen || filterCount
+                    ? softGradient
+                    : isDark
+                    ? "hsl(0 0% 10%)"
+                    : "hsl(var(--background))",
+              }}
+            >
+              <SlidersHorizontal className="h-3.5 w-3.5" />
+              فیلترها
+              {filterCount > 0 && (
+                <span className="text-[10px] font-bold px-1.5 py-0.5 rounded-full leading-none bg-black/20">
+                  {filterCount.toLocaleString("fa-IR")}
+                </span>
+              )}
+            </button>
+            <div className="relative shrink-0">
+              <ArrowUpDown className="absolute right-3 top-1/2 -translate-y-1/2 h-3.5 w-3.5 opacity-70 pointer-events-none" />
+              <select
+                value={sort}
+                onChange={(e) => setAdSort(userId, e.target.value as AdSort)}
+                className="h-10 rounded-2xl border pr-8 pl-3 text-xs font-bold outline-none cursor-pointer"
+                style={{
+                  borderColor,
+                  background: isDark
+                    ? "hsl(0 0% 10%)"
+                    : "hsl(var(--background))",
+                  color: "hsl(var(--foreground))",
+                }}
+                aria-label="مرتب‌سازی"
+              >
+                {AD_SORTS.map((s) => (
+                  <option key={s} value={s}>
+                    {AD_SORT_LABELS[s]}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
+          {filtersOpen && (
+            <div className="mt-2 shrink-0">
+              <AdFiltersPanel
+                filters={filters}
+                onChange={setFilters}
+                suggestedName={describeAdSearch(search, filters)}
+                onSave={(name) => {
+                  addSavedSearch(userId, { name, q: search, filters });
+                  toast.success("جستجو ذخیره شد ✅", {
+                    description: "آگهی‌های جدید مطابق آن اطلاع داده می‌شوند",
+                  });
+                }}
+                borderColor={borderColor}
+                softGradient={softGradient}
+                isDark={isDark}
+              />
+            </div>
+          )}
+
           <div
             className="mt-2.5 h-px opacity-25 shrink-0"
             style={{ background: "hsl(var(--border))" }}
@@ -1079,10 +1236,11 @@ export default function HomePage() {
           >
             {/* لیست آگهی‌ها */}
             <div
+              ref={feed.ref}
               className="flex-1 min-w-0 overflow-y-auto overflow-x-hidden pb-1"
               style={{ scrollbarWidth: "thin" }}
             >
-              <div className="space-y-1">
+              <div>
                 {filtered.length === 0 ? (
                   <div className="h-full flex flex-col items-center justify-center gap-2 opacity-40 py-20">
                     <Car className="h-8 w-8" />
@@ -1091,34 +1249,51 @@ export default function HomePage() {
                     </div>
                   </div>
                 ) : (
-                  <AnimatePresence initial={false} mode="popLayout">
-                    {filtered.map((ad) => (
-                      <AdRow
+                  <div
+                    style={{
+                      paddingTop: feed.padTop,
+                      paddingBottom: feed.padBottom,
+                    }}
+                  >
+                    {filtered.slice(feed.start, feed.end).map((ad) => (
+                      <div
                         key={ad.id}
-                        ad={ad}
-                        userInfo={users[ad.userId]}
-                        isNew={newIds.has(ad.id)}
-                        flashCount={flashCounts[ad.id] ?? 0}
-                        selected={selectedAd?.id === ad.id}
-                        onViewClick={handleViewClick}
-                        onSelect={(a) =>
-                          setSelectedAd((prev) =>
-                            prev?.id === a.id ? null : a
-                          )
-                        }
-                        onDescClick={(a) => {
-                          setDescAd(a);
-                          setDescOpen(true);
-                        }}
-                        softGradient={softGradient}
-                        greenGradient={greenGradient}
-                        borderColor={borderColor}
-                        cardBg={cardBg}
-                        chipBg={chipBg}
-                        isDark={isDark}
-                      />
+                        style={{ height: AD_ROW_HEIGHT, paddingBottom: 4 }}
+                      >
+                        <AdRow
+                          ad={ad}
+                          userInfo={users[ad.userId]}
+                          isNew={newIds.has(ad.id)}
+                          flashCount={flashCounts[ad.id] ?? 0}
+                          selected={selectedAd?.id === ad.id}
+                          onViewClick={handleViewClick}
+                          onSelect={(a) =>
+                            setSelectedAd((prev) =>
+                              prev?.id === a.id ? null : a
+                            )
+                          }
+                          onDescClick={(a) => {
+                            setDescAd(a);
+                            setDescOpen(true);
+                          }}
+                          softGradient={softGradient}
+                          greenGradient={greenGradient}
+                          borderColor={borderColor}
+                          cardBg={cardBg}
+                          chipBg={chipBg}
+                          isDark={isDark}
+                        />
+                      </div>
                     ))}
-                  </AnimatePresence>
+                  </div>
+                )}
+                {loadingMore && (
+                  <div className="flex justify-center py-3 opacity-50">
+                    <div
+                      className="h-5 w-5 rounded-full border-2 border-t-transparent animate-spin"
+                      style={{ borderColor: "currentColor" }}
+                    />
+                  </div>
                 )}
               </div>
             </div>
@@ -1144,7 +1319,10 @@ export default function HomePage() {
               style={{ borderColor, background: softGradient }}
             >
               <Car className="h-3.5 w-3.5" />
-              <span>{filtered.length.toLocaleString("fa-IR")} آگهی فعال</span>
+              <span>
+                {filtered.length.toLocaleString("fa-IR")}
+                {hasMore ? "+" : ""} آگهی فعال
+              </span>
             </div>
             <div className="flex items-center gap-2">
               <div
@@ -1,11 +1,30 @@
 "use client";
 
 import Header from "@/components/Header";
-import { api } from "@/lib/api";
+import WatchStar from "@/components/ads/WatchStar";
+import CompareToggle from "@/components/ads/CompareToggle";
+import AdStatusBadge from "@/components/ads/AdStatusBadge";
+import PhotoGallery from "@/components/ads/PhotoGallery";
+import { adsApi, bioApi, usersApi } from "@/lib/apiClient";
 import { joinProfile, leaveProfile, startSignalR } from "@/lib/signalr";
+import { useHubEvent } from "@/lib/useHubEvent";
 import { useAuthStore } from "@/store/auth.store";
+import { errorToText } from "@/lib/errorText";
 import dayjs from "dayjs";
 import jalaliday from "jalaliday";
+import {
+  carAdTypeLabel,
+  compareBioItems,
+  formatBioLine,
+  gearboxLabel,
+  adStatus,
+  matchesAdText,
+  priceToText,
+  searchIncludes,
+  type Ad,
+  type BioItem,
+  type User,
+} from "@/domain";
 import Link from "next/link";
 import { useParams, useSearchParams } from "next/navigation";
 import { useEffect, useMemo, useRef, useState } from "react";
@@ -15,95 +34,6 @@ import { Search, X, Eye } from "lucide-react";
 
 dayjs.extend(jalaliday);
 
-// ─────────────────────────────────────────────
-// Types
-// ─────────────────────────────────────────────
-type PublicUser = {
-  id: number;
-  firstName: string;
-  lastName: string;
-  username: string;
-  role: "User" | "Admin" | "SuperAdmin";
-  createdAt: string;
-};
-
-type BioItem = {
-  id: number;
-  userId: number;
-  isAdvanced: boolean;
-  title: string;
-  description: string;
-  contactInfo?: string | null;
-  createdAt: string;
-  updatedAt: string;
-};
-
-type Ad = {
-  id: number;
-  userId: number;
-  type: number;
-  title: string;
-  year: number;
-  color: string;
-  mileageKm: number;
-  price: number;
-  gearbox: number;
-  createdAt: string;
-  viewCount: number;
-  insuranceMonths?: number | null;
-  chassisNumber?: string;
-  contactPhone?: string;
-  description?: string;
-};
-
-// ─────────────────────────────────────────────
-// Helpers
-// ─────────────────────────────────────────────
-function formatBioLine(item: BioItem) {
-  const title = (item.title ?? "").trim();
-  const desc = (item.description ?? "").trim();
-  const contact = (item.contactInfo ?? "").trim();
-  if (item.isAdvanced) {
-    const left = title ? `${title}: ` : "";
-    const right = contact ? ` - ${contact}` : "";
-    return `${left}${desc}${right}`.trim();
-  }
-  return desc;
-}
-
-function priceToText(millionVal: number): string {
-  if (!Number.isFinite(millionVal) || millionVal <= 0) return "—";
-  const billion = Math.floor(millionVal / 1000);
-  const rem = millionVal - billion * 1000;
-  const million = Math.floor(rem);
-  const thousand = Math.round((rem - million) * 1000);
-  const toFa = (n: number) => n.toLocaleString("fa-IR");
-  const parts: string[] = [];
-  if (billion > 0) parts.push(`${toFa(billion)} میلیارد`);
-  if (million > 0) parts.push(`${toFa(million)} میلیون`);
-  if (thousand > 0) parts.push(`${toFa(thousand)} هزار`);
-  if (parts.length === 0) return "—";
-  return parts.join(" و ") + " تومان";
-}
-
-const TYPE_LABELS: Record<number, string> = {
-  1: "فروش کارکرده",
-  2: "فروش همکاری",
-  3: "درخواست خرید",
-  4: "فروش صفر",
-};
-const GEARBOX_LABELS: Record<number, string> = {
-  0: "—",
-  1: "اتومات",
-  2: "دنده‌ای",
-};
-function typeLabel(t: number | string) {
-  return TYPE_LABELS[Number(t)] ?? "نامشخص";
-}
-function gearboxLabel(g: number | string) {
-  return GEARBOX_LABELS[Number(g)] ?? "—";
-}
-
 // ─────────────────────────────────────────────
 // Details Modal
 // ─────────────────────────────────────────────
@@ -135,14 +65,14 @@ function DetailsModal({
 
   const rows: { label: string; value: string }[] = [
     { label: "عنوان", value: ad.title },
-    { label: "نوع آگهی", value: typeLabel(ad.type) },
+    { label: "نوع آگهی", value: carAdTypeLabel(ad.type) },
     { label: "سال تولید", value: String(ad.year) },
     { label: "رنگ", value: ad.color },
     {
       label: "کارکرد",
       value: `${Number(ad.mileageKm).toLocaleString("fa-IR")} کیلومتر`,
     },
-    { label: "گیربکس", value: gearboxLabel(ad.gearbox) },
+    { label: "گیربکس", value: gearboxLabel(ad.gearbox) || "—" },
     { label: "قیمت", value: priceToText(ad.price) },
     ...(ad.insuranceMonths != null
       ? [{ label: "بیمه", value: `${ad.insuranceMonths} ماه` }]
@@ -211,6 +141,12 @@ function DetailsModal({
                 </button>
               </div>
 
+              {ad.photos.length > 0 && (
+                <div className="mb-3">
+                  <PhotoGallery photos={ad.photos} borderColor={borderColor} />
+                </div>
+              )}
+
               <div className="space-y-2" dir="rtl">
                 {rows.map((r) => (
                   <div
@@ -348,6 +284,22 @@ function AdCard({
           transition: "box-shadow 0.15s, border-color 0.15s",
         }}
       >
+        {/* ✅ نشان کردن + مقایسه — بالا راست */}
+        <div className="absolute top-3 right-3 flex gap-1.5">
+          <WatchStar
+            ad={ad}
+            borderColor={borderColor}
+            isDark={isDark}
+            size={32}
+          />
+          <CompareToggle
+            ad={ad}
+            borderColor={borderColor}
+            isDark={isDark}
+            size={32}
+          />
+        </div>
+
         {/* ✅ ذره‌بین — بالا چپ */}
         <div className="absolute top-3 left-3">
           <button
@@ -415,8 +367,9 @@ function AdCard({
           className="mt-1.5 text-[10px] px-2.5 py-0.5 rounded-full font-semibold"
           style={{ background: softGradient }}
         >
-          {typeLabel(ad.type)}
+          {carAdTypeLabel(ad.type)}
         </div>
+        <AdStatusBadge ad={ad} className="mt-1" />
 
         {/* چیپ‌ها */}
         <div className="mt-3 flex flex-wrap items-center justify-center gap-1.5">
@@ -438,7 +391,7 @@ function AdCard({
           >
             {Number(ad.mileageKm).toLocaleString("fa-IR")} km
           </span>
-          {Number(ad.gearbox) > 0 && (
+          {ad.gearbox > 0 && (
             <span
               className="text-xs px-2 py-0.5 rounded-lg font-medium"
               style={{ background: chipBg }}
@@ -493,6 +446,7 @@ export default function PublicUserPage() {
   const highlightAdId = Number(searchParams.get("ad") ?? "0") || null;
 
   const { userId: meId, role: myRole, token } = useAuthStore();
+  const signedIn = !!token;
 
   const { resolvedTheme } = useTheme();
   const [mounted, setMounted] = useState(false);
@@ -532,12 +486,14 @@ export default function PublicUserPage() {
   );
 
   // ── State ──
-  const [user, setUser] = useState<PublicUser | null>(null);
+  const [user, setUser] = useState<User | null>(null);
   const [bio, setBio] = useState<BioItem[]>([]);
   const [allAds, setAllAds] = useState<Ad[]>([]);
   const [err, setErr] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
+  // تعداد بیننده‌های اتاق پروفایل؛ null یعنی هنوز join نشده
+  const [watchers, setWatchers] = useState<number | null>(null);
   const [detailsAd, setDetailsAd] = useState<Ad | null>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
 
@@ -548,24 +504,18 @@ export default function PublicUserPage() {
     setErr(null);
     setLoading(true);
     try {
-      const [uRes, bioRes, adsRes] = await Promise.all([
-        api.get(`/api/users/${profileId}`),
-        api.get(`/api/bio/user/${profileId}`),
-        api.get(`/api/ads`),
+      const [u, bioList, ads] = await Promise.all([
+        usersApi.get(profileId),
+        bioApi.forUser(profileId),
+        adsApi.list(),
       ]);
 
-      setUser(uRes.data);
+      setUser(u);
 
-      const bioList = (bioRes.data ?? []) as BioItem[];
-      bioList.sort((a, b) => {
-        if (!!a.isAdvanced !== !!b.isAdvanced) return a.isAdvanced ? -1 : 1;
-        return a.createdAt < b.createdAt ? 1 : -1;
-      });
+      bioList.sort(compareBioItems);
       setBio(bioList);
 
-      const onlyThis = (adsRes.data as Ad[]).filter(
-        (x) => x.userId === profileId
-      );
+      const onlyThis = ads.filter((x) => x.userId === profileId);
 
       if (highlightAdId) {
         const idx = onlyThis.findIndex((a) => a.id === highlightAdId);
@@ -578,8 +528,8 @@ export default function PublicUserPage() {
       }
 
       setAllAds(onlyThis);
-    } catch (e: any) {
-      setErr(e?.response?.data ?? "خطا در دریافت اطلاعات کاربر");
+    } catch (e) {
+      setErr(errorToText(e) || "خطا در دریافت اطلاعات کاربر");
     } finally {
       setLoading(false);
     }
@@ -592,109 +542,81 @@ export default function PublicUserPage() {
   }, [profileId]);
 
   // ── Filter ──
+  // بایگانی‌شده‌ها فقط در داشبورد صاحب آگهی دیده می‌شوند
   const filteredAds = useMemo(() => {
-    if (!search.trim()) return allAds;
-    const q = search.trim().toLowerCase();
-    return allAds.filter(
+    const visible = allAds.filter((a) => adStatus(a) !== "Archived");
+    if (!search.trim()) return visible;
+    return visible.filter(
       (a) =>
-        a.title.toLowerCase().includes(q) ||
-        a.color.toLowerCase().includes(q) ||
-        String(a.year).includes(q) ||
-        priceToText(a.price).includes(q)
+        matchesAdText(a, search) || searchIncludes(priceToText(a.price), search)
     );
   }, [allAds, search]);
 
   // ── SignalR ──
   useEffect(() => {
     if (!Number.isFinite(profileId)) return;
-    let unsub: (() => void) | null = null;
     let alive = true;
 
     (async () => {
       try {
-        const conn = await startSignalR();
+        await startSignalR();
         if (!alive) return;
         await joinProfile(profileId);
-
-        const onBioAdded = (p: any) => {
-          if (p.userId !== profileId) return;
-          setBio((prev) => {
-            const next = [p as BioItem, ...prev];
-            next.sort((a, b) => {
-              if (!!a.isAdvanced !== !!b.isAdvanced)
-                return a.isAdvanced ? -1 : 1;
-              return a.createdAt < b.createdAt ? 1 : -1;
-            });
-            return next;
-          });
-        };
-        const onBioUpdated = (p: any) => {
-          if (p.userId !== profileId) return;
-          setBio((prev) => {
-            const next = prev.map((x) => (x.id === p.id ? { ...x, ...p } : x));
-            next.sort((a, b) => {
-              if (!!a.isAdvanced !== !!b.isAdvanced)
-                return a.isAdvanced ? -1 : 1;
-              return a.createdAt < b.createdAt ? 1 : -1;
-            });
-            return next;
-          });
-        };
-        const onBioDeleted = (p: any) => {
-          if (p.userId !== profileId) return;
-          setBio((prev) => prev.filter((x) => x.id !== p.id));
-        };
-        const onAdCreated = (p: any) => {
-          if (p.userId !== profileId) return;
-          setAllAds((prev) => {
-            if (prev.some((x) => x.id === p.id)) return prev;
-            return [p, ...prev];
-          });
-        };
-        const onAdUpdated = (p: any) => {
-          if (p.userId !== profileId) return;
-          setAllAds((prev) =>
-            prev.map((x) => (x.id === p.id ? { ...x, ...p } : x))
-          );
-        };
-        const onAdDeleted = (p: any) => {
-          if (p.userId !== profileId) return;
-          setAllAds((prev) => prev.filter((x) => x.id !== p.adId));
-        };
-        const onAdView = (p: { adId: number; viewCount: number }) => {
-          setAllAds((prev) =>
-            prev.map((x) =>
-              x.id === p.adId ? { ...x, viewCount: p.viewCount } : x
-            )
-          );
-        };
-
-        conn.on("BioItemAdded", onBioAdded);
-        conn.on("BioItemUpdated", onBioUpdated);
-        conn.on("BioItemDeleted", onBioDeleted);
-        conn.on("CarAdCreated", onAdCreated);
-        conn.on("CarAdUpdated", onAdUpdated);
-        conn.on("CarAdDeleted", onAdDeleted);
-        conn.on("AdViewUpdated", onAdView);
-
-        unsub = () => {
-          conn.off("BioItemAdded", onBioAdded);
-          conn.off("BioItemUpdated", onBioUpdated);
-          conn.off("BioItemDeleted", onBioDeleted);
-          conn.off("CarAdCreated", onAdCreated);
-          conn.off("CarAdUpdated", onAdUpdated);
-          conn.off("CarAdDeleted", onAdDeleted);
-          conn.off("AdViewUpdated", onAdView);
-        };
       } catch {}
     })();
 
     return () => {
       alive = false;
-      unsub?.();
+      setWatchers(null);
       leaveProfile(profileId).catch(() => {});
     };
-  }, [profileId, token]);
+    // فقط وجود نشست مهم است؛ refresh توکن نباید leave/join کند (accessTokenFactory توکن فعلی را می‌خواند)
+  }, [profileId, signedIn]);
+
+  useHubEvent("ProfileWatchers", ({ userId, count }) => {
+    if (userId === profileId) setWatchers(count);
+  });
+
+  useHubEvent("BioItemAdded", (item) => {
+    if (item.userId !== profileId) return;
+    setBio((prev) => [item, ...prev].sort(compareBioItems));
+  });
+
+  useHubEvent("BioItemUpdated", (item) => {
+    if (item.userId !== profileId) return;
+    setBio((prev) =>
+      prev.map((x) => (x.id === item.id ? item : x)).sort(compareBioItems)
+    );
+  });
+
+  useHubEvent("BioItemDeleted", ({ id, userId }) => {
+    if (userId !== profileId) return;
+    setBio((prev) => prev.filter((x) => x.id !== id));
+  });
+
+  useHubEvent("CarAdCreated", (ad) => {
+    if (ad.userId !== profileId) return;
+    setAllAds((prev) => {
+      if (prev.some((x) => x.id === ad.id)) return prev;
+      return [ad, ...prev];
+    });
+  });
+
+  useHubEvent("CarAdUpdated", (ad) => {
+    if (ad.userId !== profileId) return;
+    setAllAds((prev) => prev.map((x) => (x.id === ad.id ? ad : x)));
+  });
+
+  useHubEvent("CarAdDeleted", ({ adId, userId }) => {
+    if (userId !== profileId) return;
+    setAllAds((prev) => prev.filter((x) => x.id !== adId));
+  });
+
+  useHubEvent("AdViewUpdated", ({ adId, viewCount }) => {
+    setAllAds((prev) =>
+      prev.map((x) => (x.id === adId ? { ...x, viewCount } : x))
+    );
+  });
 
   if (!Number.isFinite(profileId)) {
     return (
@@ -761,6 +683,27 @@ export default function PublicUserPage() {
               نمایشگاه {loading ? "..." : user?.username ?? ""}
             </h1>
 
+            {/* ✅ تعداد بیننده‌های همین پروفایل (بعد از join اتاق) */}
+            {watchers !== null && (
+              <div
+                className="flex items-center gap-1.5 px-3 py-1 rounded-2xl border text-xs font-semibold"
+                style={{ borderColor }}
+              >
+                <span
+                  className="inline-block h-2 w-2 rounded-full shrink-0"
+                  style={{
+                    background: "rgb(34,197,94)",
+                    boxShadow: "0 0 6px rgba(34,197,94,0.8)",
+                  }}
+                />
+                <Eye className="h-3.5 w-3.5 opacity-70" />
+                <span>در حال مشاهده:</span>
+                <span style={{ color: "rgb(34,197,94)" }}>
+                  {watchers.toLocaleString("fa-IR")}
+                </span>
+              </div>
+            )}
+
             {/* ✅ سرچ وسط‌چین */}
             <div className="w-full max-w-[440px] relative">
               <Search className="absolute right-3.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
@@ -0,0 +1,85 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { AnimatePresence, motion } from "framer-motion";
+import { Scale, X } from "lucide-react";
+import { COMPARE_MIN, compareHref } from "@/domain";
+import { useCompareStore } from "@/store/compare.store";
+
+const noopSubscribe = () => () => {};
+
+/** نوار پایین صفحه: آگهی‌های انتخاب‌شده برای مقایسه */
+export default function CompareTray() {
+  const pathname = usePathname();
+  const ads = useCompareStore((s) => s.ads);
+  const remove = useCompareStore((s) => s.remove);
+  const clear = useCompareStore((s) => s.clear);
+
+  // store از localStorage می‌آید؛ قبل از mount چیزی نشان نده (hydration)
+  const mounted = useSyncExternalStore(
+    noopSubscribe,
+    () => true,
+    () => false
+  );
+
+  const visible = mounted && ads.length > 0 && pathname !== "/compare";
+  const ready = ads.length >= COMPARE_MIN;
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 30 }}
+          transition={{ type: "spring", stiffness: 320, damping: 28 }}
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 rounded-2xl border bg-card px-3 py-2 shadow-2xl max-w-[95vw]"
+          dir="rtl"
+        >
+          <Scale className="h-4 w-4 shrink-0 opacity-70" />
+          <div className="flex items-center gap-1.5 overflow-x-auto">
+            {ads.map((ad) => (
+              <span
+                key={ad.id}
+                className="flex items-center gap-1 text-xs font-semibold rounded-xl border px-2 py-1 whitespace-nowrap"
+              >
+                {ad.title}
+                <button
+                  type="button"
+                  onClick={() => remove(ad.id)}
+                  className="opacity-60 hover:opacity-100"
+                  title="حذف از مقایسه"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+
+          {ready ? (
+            <Link
+              href={compareHref(ads.map((a) => a.id))}
+              className="text-xs font-bold rounded-xl px-3 py-1.5 whitespace-nowrap text-white"
+              style={{ background: "rgb(56,189,248)" }}
+            >
+              مقایسه ({ads.length.toLocaleString("fa-IR")})
+            </Link>
+          ) : (
+            <span className="text-[11px] text-muted-foreground whitespace-nowrap">
+              حداقل {COMPARE_MIN.toLocaleString("fa-IR")} آگهی انتخاب کنید
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={clear}
+            className="text-[11px] text-muted-foreground hover:text-foreground whitespace-nowrap"
+          >
+            پاک کردن
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
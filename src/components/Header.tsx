@@ -5,6 +5,10 @@ import { useRouter } from "next/navigation";
 import { useAuthStore } from "@/store/auth.store";
 import ThemeToggle from "@/components/ThemeToggle";
 import { cn } from "@/lib/utils";
+import { isAdminRole, onSchemaIssues, type BioItem } from "@/domain";
+import { toast } from "sonner";
+import { useHubStatus } from "@/lib/useHubEvent";
+import type { HubStatus } from "@/lib/signalr";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -28,17 +32,6 @@ import {
   Sparkles,
 } from "lucide-react";
 
-type BioItem = {
-  id: number;
-  userId?: number;
-  title?: string;
-  description?: string;
-  isAdvanced?: boolean;
-  contactInfo?: string | null;
-  createdAt?: string;
-  updatedAt?: string;
-};
-
 function roleLabel(role?: string | null) {
   if (!role) return "";
   if (role === "SuperAdmin") return "Super Admin";
@@ -70,16 +63,70 @@ function parseAdvancedLegacy(
   return null;
 }
 
+const HUB_STATUS_UI: Record<
+  Exclude<HubStatus, "idle">,
+  { label: string; color: string; pulse: boolean }
+> = {
+  connecting: { label: "در حال اتصال", color: "rgb(245,158,11)", pulse: true },
+  connected: { label: "آنلاین", color: "rgb(34,197,94)", pulse: false },
+  reconnecting: {
+    label: "اتصال مجدد...",
+    color: "rgb(245,158,11)",
+    pulse: true,
+  },
+  disconnected: { label: "قطع ارتباط", color: "rgb(239,68,68)", pulse: false },
+};
+
+// ✅ وضعیت اتصال realtime (تا وقتی صفحه SignalR را start نکرده مخفی)
+function ConnectionBadge({ isDark }: { isDark: boolean }) {
+  const status = useHubStatus();
+  if (status === "idle") return null;
+  const ui = HUB_STATUS_UI[status];
+
+  return (
+    <div
+      className="flex items-center gap-1.5 px-3 py-1.5 rounded-2xl border text-xs font-semibold"
+      style={{
+        borderColor: "hsl(var(--border))",
+        background: isDark ? "hsl(0 0% 8%)" : "hsl(0 0% 100%)",
+      }}
+      title="وضعیت اتصال زنده"
+    >
+      <span
+        className="inline-block h-2 w-2 rounded-full shrink-0"
+        style={{
+          background: ui.color,
+          boxShadow: `0 0 6px ${ui.color}`,
+          animation: ui.pulse ? "pulse 1.2s infinite" : undefined,
+        }}
+      />
+      <span style={{ color: ui.color }}>{ui.label}</span>
+    </div>
+  );
+}
+
 export default function Header() {
   const router = useRouter();
   const { token, role, clear } = useAuthStore();
-  const isAdmin = role === "Admin" || role === "SuperAdmin";
+  const isAdmin = isAdminRole(role);
 
   const { resolvedTheme } = useTheme();
   const [mounted, setMounted] = useState(false);
   useEffect(() => setMounted(true), []);
   const isDark = mounted ? resolvedTheme === "dark" : false;
 
+  // ✅ آیتم نامعتبر لیست‌های سرور کنار گذاشته می‌شود؛ فقط اطلاع بده
+  useEffect(
+    () =>
+      onSchemaIssues((e) =>
+        toast.warning("بخشی از داده‌های سرور نامعتبر بود و نمایش داده نشد", {
+          id: "schema-issues",
+          description: e.issues.slice(0, 3).join("\n"),
+        })
+      ),
+    []
+  );
+
   const [loggingOut, setLoggingOut] = useState(false);
 
   // (برای اینکه state اضافی بعد از خروج مزاحم نشه)
@@ -242,8 +289,8 @@ export default function Header() {
             </button>
           </motion.div>
 
-          {/* CENTER: role pill */}
-          <div className="flex-1 flex justify-center">
+          {/* CENTER: role pill + وضعیت اتصال */}
+          <div className="flex-1 flex justify-center items-center gap-2">
             {token ? (
               <div
                 className={cn(
@@ -259,6 +306,7 @@ export default function Header() {
                 {roleLabel(role)}
               </div>
             ) : null}
+            <ConnectionBadge isDark={isDark} />
           </div>
 
           {/* RIGHT */}
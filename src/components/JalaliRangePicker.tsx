@@ -0,0 +1,141 @@
+"use client";
+
+import { createContext, useContext, useState } from "react";
+import { DayButton, type DayButtonProps } from "react-day-picker";
+import { DayPicker } from "react-day-picker/persian";
+import "react-day-picker/style.css";
+import { CalendarRange, X } from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  DATE_PRESETS,
+  dayKey,
+  formatJalaliRange,
+  type DateRange,
+} from "@/lib/jalaliRange";
+
+// تعداد آیتم‌های هر روز برای DayButton (کامپوننت سفارشی باید بیرون render باشد)
+const CountsContext = createContext<Map<string, number> | null>(null);
+
+function CountDayButton({
+  day,
+  modifiers,
+  children,
+  ...props
+}: DayButtonProps) {
+  const counts = useContext(CountsContext);
+  const n = counts?.get(dayKey(day.date)) ?? 0;
+  return (
+    <DayButton day={day} modifiers={modifiers} {...props}>
+      <span className="flex flex-col items-center leading-none">
+        {children}
+        {n > 0 && !modifiers.outside && (
+          <span className="mt-0.5 text-[9px] font-bold text-sky-500">
+            {n.toLocaleString("fa-IR")}
+          </span>
+        )}
+      </span>
+    </DayButton>
+  );
+}
+
+// ─────────────────────────────────────────────
+// انتخاب بازه‌ی تاریخ شمسی + میانبرها + تعداد در هر روز
+// ─────────────────────────────────────────────
+export default function JalaliRangePicker({
+  value,
+  onChange,
+  counts,
+  placeholder = "انتخاب بازه‌ی تاریخ",
+  borderColor,
+  baseBg,
+  activeBg,
+  popoverBg,
+}: {
+  value: DateRange | undefined;
+  onChange: (range: DateRange | undefined) => void;
+  /** کلید dayKey → تعداد */
+  counts?: Map<string, number>;
+  placeholder?: string;
+  borderColor: string;
+  baseBg: string;
+  activeBg: string;
+  popoverBg?: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const label = formatJalaliRange(value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <div className="relative inline-flex">
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className="h-9 min-w-[220px] rounded-2xl border px-3 pl-8 text-sm font-semibold inline-flex items-center gap-2"
+            style={{ borderColor, background: label ? activeBg : baseBg }}
+          >
+            <CalendarRange className="h-4 w-4 opacity-70 shrink-0" />
+            <span className={label ? "" : "text-muted-foreground"}>
+              {label || placeholder}
+            </span>
+          </button>
+        </PopoverTrigger>
+        {label && (
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            className="absolute left-2 top-1/2 -translate-y-1/2 opacity-60 hover:opacity-100"
+            title="حذف فیلتر تاریخ"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      <PopoverContent
+        className="p-3"
+        align="center"
+        dir="rtl"
+        style={{ borderColor, background: popoverBg }}
+      >
+        <div className="flex flex-wrap gap-1.5 justify-center mb-2">
+          {DATE_PRESETS.map((p) => (
+            <button
+              key={p.key}
+              type="button"
+              onClick={() => {
+                onChange(p.range());
+                setOpen(false);
+              }}
+              className="text-xs font-semibold rounded-xl border px-2.5 py-1 hover:-translate-y-[1px] transition-all"
+              style={{ borderColor }}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+
+        <CountsContext.Provider value={counts ?? null}>
+          <DayPicker
+            mode="range"
+            selected={value}
+            onSelect={onChange}
+            defaultMonth={value?.from}
+            components={{ DayButton: CountDayButton }}
+            style={
+              {
+                "--rdp-accent-color": "rgb(56,189,248)",
+                "--rdp-accent-background-color": "rgba(56,189,248,0.15)",
+                "--rdp-day-height": "40px",
+                "--rdp-day_button-height": "38px",
+              } as React.CSSProperties
+            }
+          />
+        </CountsContext.Provider>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { matchesSavedSearch, type Ad } from "@/domain";
+import { useHubEvent } from "@/lib/useHubEvent";
+import { useAuthStore } from "@/store/auth.store";
+import { useMySavedSearches } from "@/store/savedSearches.store";
+
+/**
+ * آگهی جدید (CarAdCreated) که با یکی از جستجوهای ذخیره‌شده جور باشد
+ * => toast با لینک به آگهی، و اگر خواسته شده نوتیفیکیشن مرورگر
+ */
+export default function SavedSearchAlerts() {
+  const router = useRouter();
+  const userId = useAuthStore((s) => s.userId);
+  const searches = useMySavedSearches(userId);
+
+  useHubEvent(
+    "CarAdCreated",
+    (ad: Ad) => {
+      // آگهی خود کاربر هشدار نمی‌خواهد
+      if (userId !== null && ad.userId === userId) return;
+      const matched = searches.filter((s) => matchesSavedSearch(ad, s));
+      if (!matched.length) return;
+
+      const href = `/u/${ad.userId}?ad=${ad.id}`;
+      const names = matched.map((s) => s.name).join("، ");
+
+      toast.success(`آگهی جدید: ${ad.title}`, {
+        description: `مطابق جستجوی «${names}»`,
+        duration: 10000,
+        action: { label: "مشاهده", onClick: () => router.push(href) },
+      });
+
+      if (
+        matched.some((s) => s.notify) &&
+        typeof Notification !== "undefined" &&
+        Notification.permission === "granted"
+      ) {
+        const n = new Notification(`آگهی جدید: ${ad.title}`, {
+          body: `مطابق جستجوی «${names}»`,
+          tag: `carads-ad-${ad.id}`,
+        });
+        n.onclick = () => {
+          window.focus();
+          router.push(href);
+          n.close();
+        };
+      }
+    },
+    searches.length > 0
+  );
+
+  return null;
+}
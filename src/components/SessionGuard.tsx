@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { setUnauthorizedHandler } from "@/lib/api";
+import { stopSignalR } from "@/lib/signalr";
+import { setExpiryHandler, useAuthStore } from "@/store/auth.store";
+
+/**
+ * 401 از API یا رسیدن exp توکن => پاک کردن نشست، قطع SignalR
+ * و رفتن به /login?next=<مسیر فعلی>
+ */
+export default function SessionGuard() {
+  const router = useRouter();
+  const token = useAuthStore((s) => s.token);
+  const endingRef = useRef(false);
+
+  // ✅ با ورود دوباره، آماده‌ی پایان نشست بعدی
+  useEffect(() => {
+    if (token) endingRef.current = false;
+  }, [token]);
+
+  useEffect(() => {
+    const endSession = () => {
+      if (endingRef.current || !useAuthStore.getState().token) return;
+      endingRef.current = true;
+
+      useAuthStore.getState().clear();
+      stopSignalR().catch(() => {});
+      toast.error("نشست شما منقضی شد؛ لطفاً دوباره وارد شوید");
+
+      const { pathname, search } = window.location;
+      if (pathname.startsWith("/login")) return;
+      router.replace(`/login?next=${encodeURIComponent(pathname + search)}`);
+    };
+
+    setUnauthorizedHandler(endSession);
+    setExpiryHandler(endSession);
+    return () => {
+      setUnauthorizedHandler(null);
+      setExpiryHandler(null);
+    };
+  }, [router]);
+
+  return null;
+}
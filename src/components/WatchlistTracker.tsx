@@ -0,0 +1,49 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { priceToText } from "@/domain";
+import { useHubEvent } from "@/lib/useHubEvent";
+import { useAuthStore } from "@/store/auth.store";
+import { useMyWatchlist, useWatchlistStore } from "@/store/watchlist.store";
+
+/**
+ * آگهی‌های نشان‌شده را با رویدادهای زنده به‌روز نگه می‌دارد:
+ * تغییر قیمت => تاریخچه + اعلان ؛ حذف => علامت «حذف شده»
+ */
+export default function WatchlistTracker() {
+  const router = useRouter();
+  const userId = useAuthStore((s) => s.userId);
+  const watched = useMyWatchlist(userId);
+  const enabled = watched.length > 0;
+
+  useHubEvent(
+    "CarAdUpdated",
+    (ad) => {
+      const change = useWatchlistStore.getState().recordUpdate(userId, ad);
+      if (!change) return;
+
+      const href = `/u/${ad.userId}?ad=${ad.id}`;
+      const dropped = change.newPrice < change.oldPrice;
+      toast(`${dropped ? "📉" : "📈"} تغییر قیمت: ${ad.title}`, {
+        description: `${priceToText(change.oldPrice)} ← ${priceToText(
+          change.newPrice
+        )}`,
+        duration: 10000,
+        action: { label: "مشاهده", onClick: () => router.push(href) },
+      });
+    },
+    enabled
+  );
+
+  useHubEvent(
+    "CarAdDeleted",
+    ({ adId }) => {
+      const w = useWatchlistStore.getState().markRemoved(userId, adId);
+      if (w) toast.warning(`آگهی نشان‌شده حذف شد: ${w.ad.title}`);
+    },
+    enabled
+  );
+
+  return null;
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import { BookmarkPlus, X } from "lucide-react";
+import {
+  CAR_AD_TYPES,
+  CAR_AD_TYPE_LABELS,
+  EMPTY_AD_FILTERS,
+  GEARBOX_LABELS,
+  GEARBOX_TYPES,
+  normalizeNumberInput,
+  parseNumberInput,
+  type AdFilters,
+  type CarAdType,
+  type GearboxType,
+} from "@/domain";
+
+// ─────────────────────────────────────────────
+// NumberField — متن خام تایپ‌شده حفظ می‌شود (مثلاً "120.")
+// ─────────────────────────────────────────────
+function NumberField({
+  value,
+  onChange,
+  placeholder,
+  borderColor,
+  inputBg,
+}: {
+  value: number | null;
+  onChange: (v: number | null) => void;
+  placeholder: string;
+  borderColor: string;
+  inputBg: string;
+}) {
+  const [draft, setDraft] = useState(value === null ? "" : String(value));
+  const [prevValue, setPrevValue] = useState(value);
+
+  // مقدار از بیرون عوض شد (پاک کردن فیلترها / back)
+  if (value !== prevValue) {
+    setPrevValue(value);
+    const draftValue = parseNumberInput(draft);
+    if (draftValue !== value) setDraft(value === null ? "" : String(value));
+  }
+
+  return (
+    <input
+      value={draft}
+      inputMode="decimal"
+      placeholder={placeholder}
+      onChange={(e) => {
+        const raw = e.target.value;
+        setDraft(raw);
+        if (normalizeNumberInput(raw) === "") onChange(null);
+        else {
+          const n = parseNumberInput(raw);
+          if (n !== null) onChange(n);
+        }
+      }}
+      className="w-full h-8 rounded-xl border px-2 text-xs outline-none text-center"
+      style={{ borderColor, background: inputBg }}
+    />
+  );
+}
+
+// ─────────────────────────────────────────────
+// AdFiltersPanel
+// ─────────────────────────────────────────────
+export default function AdFiltersPanel({
+  filters,
+  onChange,
+  onSave,
+  suggestedName,
+  borderColor,
+  softGradient,
+  isDark,
+}: {
+  filters: AdFilters;
+  onChange: (next: AdFilters) => void;
+  /** اگر داده شود، فرم «ذخیره این جستجو» نمایش داده می‌شود */
+  onSave?: (name: string) => void;
+  suggestedName?: string;
+  borderColor: string;
+  softGradient: string;
+  isDark: boolean;
+}) {
+  const [saveName, setSaveName] = useState("");
+  const inputBg = isDark ? "hsl(0 0% 10%)" : "hsl(var(--background))";
+  const set = <K extends keyof AdFilters>(key: K, v: AdFilters[K]) =>
+    onChange({ ...filters, [key]: v });
+
+  const toggleType = (t: CarAdType) =>
+    set(
+      "types",
+      filters.types.includes(t)
+        ? filters.types.filter((x) => x !== t)
+        : [...filters.types, t]
+    );
+
+  const range = (
+    label: string,
+    minKey: "yearMin" | "priceMin" | "mileageMin",
+    maxKey: "yearMax" | "priceMax" | "mileageMax",
+    hint: [string, string]
+  ) => (
+    <div className="space-y-1">
+      <div className="text-[11px] font-semibold text-muted-foreground">
+        {label}
+      </div>
+      <div className="flex items-center gap-1.5">
+        <NumberField
+          value={filters[minKey]}
+          onChange={(v) => set(minKey, v)}
+          placeholder={hint[0]}
+          borderColor={borderColor}
+          inputBg={inputBg}
+        />
+        <span className="text-xs opacity-50">تا</span>
+        <NumberField
+          value={filters[maxKey]}
+          onChange={(v) => set(maxKey, v)}
+          placeholder={hint[1]}
+          borderColor={borderColor}
+          inputBg={inputBg}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div
+      className="rounded-2xl border p-3 space-y-3"
+      style={{ borderColor, direction: "rtl" }}
+    >
+      {/* نوع آگهی */}
+      <div className="flex items-center gap-1.5 flex-wrap">
+        {CAR_AD_TYPES.map((t) => {
+          const active = filters.types.includes(t);
+          return (
+            <button
+              key={t}
+              type="button"
+              onClick={() => toggleType(t)}
+              className="text-xs px-3 py-1 rounded-xl border font-semibold transition-all"
+              style={{
+                borderColor: active ? "rgba(56,189,248,0.7)" : borderColor,
+                background: active ? softGradient : inputBg,
+              }}
+            >
+              {CAR_AD_TYPE_LABELS[t]}
+            </button>
+          );
+        })}
+
+        <button
+          type="button"
+          onClick={() => set("showInactive", !filters.showInactive)}
+          className="text-xs px-3 py-1 rounded-xl border font-semibold transition-all"
+          style={{
+            borderColor: filters.showInactive
+              ? "rgba(56,189,248,0.7)"
+              : borderColor,
+            background: filters.showInactive ? softGradient : inputBg,
+          }}
+        >
+          نمایش فروخته/منقضی
+        </button>
+
+        <button
+          type="button"
+          onClick={() => onChange(EMPTY_AD_FILTERS)}
+          className="mr-auto flex items-center gap-1 text-xs px-3 py-1 rounded-xl border font-semibold opacity-70 hover:opacity-100 transition-opacity"
+          style={{ borderColor, background: inputBg }}
+        >
+          <X className="h-3 w-3" />
+          پاک کردن فیلترها
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+        {range("سال ساخت", "yearMin", "yearMax", ["1395", "2024"])}
+        {range("قیمت (میلیون تومان)", "priceMin", "priceMax", ["", ""])}
+        {range("کارکرد (km)", "mileageMin", "mileageMax", ["", ""])}
+
+        <div className="space-y-1">
+          <div className="text-[11px] font-semibold text-muted-foreground">
+            گیربکس
+          </div>
+          <select
+            value={filters.gearbox}
+            onChange={(e) => set("gearbox", e.target.value as GearboxType | "")}
+            className="w-full h-8 rounded-xl border px-2 text-xs outline-none"
+            style={{ borderColor, background: inputBg }}
+          >
+            <option value="">همه</option>
+            {GEARBOX_TYPES.map((g) => (
+              <option key={g} value={g}>
+                {GEARBOX_LABELS[g]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-[11px] font-semibold text-muted-foreground">
+            رنگ
+          </div>
+          <input
+            value={filters.color}
+            onChange={(e) => set("color", e.target.value)}
+            placeholder="مثلاً سفید"
+            className="w-full h-8 rounded-xl border px-2 text-xs outline-none text-center"
+            style={{ borderColor, background: inputBg }}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-[11px] font-semibold text-muted-foreground">
+            حداقل بیمه (ماه)
+          </div>
+          <NumberField
+            value={filters.insuranceMin}
+            onChange={(v) => set("insuranceMin", v)}
+            placeholder="مثلاً 6"
+            borderColor={borderColor}
+            inputBg={inputBg}
+          />
+        </div>
+      </div>
+
+      {onSave && (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const name = saveName.trim() || suggestedName?.trim();
+            if (!name) return;
+            onSave(name);
+            setSaveName("");
+          }}
+        >
+          <input
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder={suggestedName || "نام جستجو"}
+            className="flex-1 h-8 rounded-xl border px-3 text-xs outline-none"
+            style={{ borderColor, background: inputBg }}
+          />
+          <button
+            type="submit"
+            className="flex items-center gap-1 text-xs px-3 h-8 rounded-xl border font-semibold whitespace-nowrap"
+            style={{ borderColor, background: softGradient }}
+          >
+            <BookmarkPlus className="h-3.5 w-3.5" />
+            ذخیره این جستجو
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { AD_STATUS_LABELS, adStatus, type Ad, type AdStatus } from "@/domain";
+
+const STATUS_STYLE: Record<AdStatus, { color: string; background: string }> = {
+  Active: { color: "rgb(34,197,94)", background: "rgba(34,197,94,.14)" },
+  Sold: { color: "rgb(217,70,239)", background: "rgba(217,70,239,.14)" },
+  Expired: { color: "rgb(245,158,11)", background: "rgba(245,158,11,.16)" },
+  Archived: { color: "rgb(148,163,184)", background: "rgba(148,163,184,.18)" },
+};
+
+// ─────────────────────────────────────────────
+// نشان وضعیت آگهی؛ پیش‌فرض برای «فعال» چیزی نشان نمی‌دهد
+// ─────────────────────────────────────────────
+export default function AdStatusBadge({
+  ad,
+  showActive = false,
+  className = "",
+}: {
+  ad: Ad;
+  showActive?: boolean;
+  className?: string;
+}) {
+  const status = adStatus(ad);
+  if (status === "Active" && !showActive) return null;
+
+  return (
+    <span
+      className={`text-[10px] px-2 py-0.5 rounded-full font-bold whitespace-nowrap shrink-0 ${className}`}
+      style={STATUS_STYLE[status]}
+    >
+      {AD_STATUS_LABELS[status]}
+    </span>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import { BookmarkPlus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useMyTemplates, useTemplatesStore } from "@/store/templates.store";
+import {
+  adTemplateFromForm,
+  suggestTemplateName,
+  type AdFormState,
+  type AdTemplate,
+} from "@/domain";
+
+// ─────────────────────────────────────────────
+// انتخاب/ذخیره قالب در بالای فرم آگهی
+// ─────────────────────────────────────────────
+export default function AdTemplatePicker({
+  userId,
+  form,
+  onApply,
+  borderColor,
+  inputBg,
+  softGradient,
+}: {
+  userId: number | null;
+  form: AdFormState;
+  onApply: (t: AdTemplate) => void;
+  borderColor: string;
+  inputBg: string;
+  softGradient: string;
+}) {
+  const templates = useMyTemplates(userId);
+  const [selectedId, setSelectedId] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [saveName, setSaveName] = useState("");
+
+  const fields = adTemplateFromForm(form);
+  const suggestedName = suggestTemplateName(fields);
+  const selected = templates.find((t) => t.id === selectedId) ?? null;
+
+  return (
+    <div
+      className="rounded-2xl border p-3 space-y-2 text-right"
+      style={{ borderColor }}
+    >
+      <div className="flex items-center gap-2">
+        <select
+          value={selected ? selected.id : ""}
+          onChange={(e) => {
+            const t = templates.find((x) => x.id === e.target.value);
+            setSelectedId(e.target.value);
+            if (t) onApply(t);
+          }}
+          className="flex-1 h-9 rounded-xl border px-2 text-sm outline-none cursor-pointer"
+          style={{ borderColor, background: inputBg }}
+        >
+          <option value="">
+            {templates.length ? "انتخاب قالب…" : "قالبی ذخیره نشده"}
+          </option>
+          {templates.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        {selected && (
+          <button
+            type="button"
+            onClick={() => {
+              useTemplatesStore.getState().remove(userId, selected.id);
+              setSelectedId("");
+            }}
+            className="h-9 w-9 rounded-xl border grid place-items-center cursor-pointer"
+            style={{ borderColor, background: inputBg }}
+            title="حذف قالب"
+          >
+            <Trash2 className="h-4 w-4 text-red-500" />
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => setSaving((v) => !v)}
+          className="h-9 w-9 rounded-xl border grid place-items-center cursor-pointer"
+          style={{ borderColor, background: saving ? softGradient : inputBg }}
+          title="ذخیره فرم فعلی به‌عنوان قالب"
+        >
+          <BookmarkPlus className="h-4 w-4" />
+        </button>
+      </div>
+
+      {saving && (
+        <>
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const name = saveName.trim() || suggestedName.trim();
+              if (!name) return;
+              if (!fields.contactPhone && !fields.description) {
+                toast.error("شماره تماس یا توضیحات را پر کنید");
+                return;
+              }
+              useTemplatesStore.getState().add(userId, name, fields);
+              toast.success("قالب ذخیره شد ✅", { description: name });
+              setSaveName("");
+              setSaving(false);
+            }}
+          >
+            <input
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder={suggestedName || "نام قالب"}
+              className="flex-1 h-8 rounded-xl border px-3 text-xs outline-none"
+              style={{ borderColor, background: inputBg }}
+            />
+            <button
+              type="submit"
+              className="text-xs px-3 h-8 rounded-xl border font-semibold whitespace-nowrap cursor-pointer"
+              style={{ borderColor, background: softGradient }}
+            >
+              ذخیره قالب
+            </button>
+          </form>
+          <div className="text-[11px] text-muted-foreground">
+            نوع آگهی، شماره تماس و توضیحات فعلی در قالب ذخیره می‌شوند.
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
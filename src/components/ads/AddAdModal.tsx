@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import dayjs from "dayjs";
 import jalaliday from "jalaliday";
 import { motion } from "framer-motion";
@@ -15,33 +15,45 @@ import { cn } from "@/lib/utils";
 import { X } from "lucide-react";
 import { VisuallyHidden } from "@radix-ui/react-visually-hidden";
 import { errorToText } from "@/lib/errorText";
+import PhotoPicker from "@/components/ads/PhotoPicker";
+import DuplicateWarningDialog from "@/components/ads/DuplicateWarningDialog";
+import AdTemplatePicker from "@/components/ads/AdTemplatePicker";
+import { adsApi } from "@/lib/apiClient";
+import { useAuthStore } from "@/store/auth.store";
+import { findResumableDraft, useDraftsStore } from "@/store/drafts.store";
 import { useTheme } from "next-themes";
+import {
+  CAR_AD_TYPES,
+  CAR_AD_TYPE_LABELS,
+  adDraftId,
+  adPayloadToForm,
+  applyAdTemplate,
+  findDuplicateAds,
+  normalizeAdPayload,
+  normalizePhoneInput,
+  parseNumberInput,
+  parsePriceText,
+  priceToText,
+  toEnDigits,
+  sameAdForm,
+  validateAdPayload,
+  type Ad,
+  type AdDraft,
+  type AdFieldErrors,
+  type DuplicateMatch,
+  type AdFieldKey,
+  type AdFormState,
+  type AddAdPayload,
+  type CarAdType,
+  type GearboxType,
+} from "@/domain";
 
 dayjs.extend(jalaliday);
 
-export type CarAdType = "UsedSale" | "CoopSale" | "BuyRequest" | "ZeroSale";
-export type GearboxType = "Automatic" | "Manual";
-
-export type AddAdPayload = {
-  type: CarAdType;
-  title: string;
-  year: number | "";
-  color: string;
-  mileageKm: number | "";
-  insuranceMonths: number | "";
-  gearbox: GearboxType | "";
-  chassisNumber: string;
-  contactPhone: string;
-  price: number | "";
-  description: string;
-};
-
-const tabs: { key: CarAdType; label: string }[] = [
-  { key: "UsedSale", label: "فروش کارکرده" },
-  { key: "CoopSale", label: "فروش همکاری" },
-  { key: "BuyRequest", label: "درخواست خرید" },
-  { key: "ZeroSale", label: "فروش صفر" },
-];
+const tabs: { key: CarAdType; label: string }[] = CAR_AD_TYPES.map((key) => ({
+  key,
+  label: CAR_AD_TYPE_LABELS[key],
+}));
 
 function todayJalali() {
   return dayjs().calendar("jalali").locale("fa").format("YYYY/MM/DD");
@@ -50,93 +62,39 @@ function hintYear() {
   return "مثلاً 1401 یا 2018";
 }
 function hintPrice() {
-  return "مثلاً 80 یا 2500 یا 120.5";
+  return "مثلاً 80 یا 120.5 یا «۲ میلیارد و ۵۰۰»";
 }
 
-function toFaNum(input: string) {
-  return input;
+function formToPayload(form: AdFormState): AddAdPayload {
+  const { priceText, ...rest } = form;
+  // متن آزاد مثل «۲ میلیارد و ۵۰۰» هم قبول است
+  return { ...rest, price: parsePriceText(priceText) ?? "" };
 }
 
-/**
- * ورودی: عدد بر اساس «میلیون تومان»
- * خروجی: متن معادل با پشتیبانی از «میلیارد / میلیون / هزار تومان»
- * مثال:
- * 80 => ۸۰ میلیون تومان
- * 120.5 => ۱۲۰ میلیون و ۵۰۰ هزار تومان
- * 2000 => ۲ میلیارد تومان
- * 2500 => ۲ میلیارد و ۵۰۰ میلیون تومان
- * 2500.75 => ۲ میلیارد و ۵۰۰ میلیون و ۷۵۰ هزار تومان
- */
-function formatFromMillionInput(v: number): string {
-  if (!Number.isFinite(v)) return "";
-
-  const sign = v < 0 ? "-" : "";
-  const abs = Math.abs(v);
-
-  const billion = Math.floor(abs / 1000);
-  const remAfterBillion = abs - billion * 1000;
-
-  const million = Math.floor(remAfterBillion);
-  const frac = remAfterBillion - million;
-
-  // 0.001 میلیون = 1000 تومان
-  let thousand = Math.round(frac * 1000);
-
-  // رُند ممکنه هزار رو 1000 کنه => یک میلیون اضافه شود
-  let millionAdj = million;
-  let billionAdj = billion;
-
-  if (thousand >= 1000) {
-    thousand -= 1000;
-    millionAdj += 1;
-  }
-  if (millionAdj >= 1000) {
-    // یک میلیارد اضافه شود
-    const extraB = Math.floor(millionAdj / 1000);
-    billionAdj += extraB;
-    millionAdj = millionAdj - extraB * 1000;
-  }
-
-  const parts: string[] = [];
-
-  if (billionAdj > 0) {
-    parts.push(`${billionAdj.toLocaleString("fa-IR")} میلیارد`);
-  }
-
-  if (millionAdj > 0) {
-    parts.push(`${millionAdj.toLocaleString("fa-IR")} میلیون`);
-  }
-
-  if (thousand > 0) {
-    parts.push(`${thousand.toLocaleString("fa-IR")} هزار تومان`);
-  }
-
-  if (parts.length === 0) return "۰ تومان";
-
-  // اگر آخرین بخش «تومان» نداشت، یک «تومان» آخر اضافه کن
-  const last = parts[parts.length - 1];
-  const hasToman = last.includes("تومان");
-  const joined = parts.join(" و ");
-  return sign + (hasToman ? joined : `${joined} تومان`);
-}
-
-// ✅ فرم داخلی: priceText برای تایپ طبیعی اعشار
-type AddAdFormState = Omit<AddAdPayload, "price"> & {
-  priceText: string;
-};
-
 export default function AddAdModal({
   open,
   onOpenChange,
   onSubmit,
   initialValue,
   mode = "create",
+  adId = null,
+  resumeDraft = null,
+  existingAds = [],
+  onEditExisting,
 }: {
   open: boolean;
   onOpenChange: (v: boolean) => void;
   onSubmit: (payload: AddAdPayload) => Promise<void> | void;
   initialValue?: AddAdPayload;
   mode?: "create" | "edit";
+  /** آگهی در حال ویرایش (برای کلید پیش‌نویس) */
+  adId?: number | null;
+  /** ادامه‌ی مستقیم یک پیش‌نویس (بدون پرسیدن) */
+  resumeDraft?: AdDraft | null;
+  /** آگهی‌های خود کاربر برای تشخیص تکراری */
+  existingAds?: Ad[];
+  /** از هشدار تکراری: باز کردن آگهی موجود برای ویرایش */
+  onEditExisting?: (ad: Ad) => void;
 }) {
   const { resolvedTheme } = useTheme();
   const isDark = resolvedTheme === "dark";
@@ -153,123 +111,173 @@ export default function AddAdModal({
     contactPhone: "",
     price: "",
     description: "",
+    photos: [],
   };
 
-  const emptyForm: AddAdFormState = {
+  const emptyForm: AdFormState = {
     ...empty,
     priceText: "",
   };
 
-  const [form, setForm] = useState<AddAdFormState>(() => {
-    if (!initialValue) return emptyForm;
-    return {
-      ...initialValue,
-      priceText:
-        initialValue.price === "" ? "" : String(initialValue.price ?? ""),
-    };
-  });
+  const [form, setForm] = useState<AdFormState>(() =>
+    initialValue ? adPayloadToForm(initialValue) : emptyForm
+  );
 
   const [loading, setLoading] = useState(false);
+  // تا آپلود عکس‌ها تمام نشده ارسال نکن
+  const [uploading, setUploading] = useState(false);
   const today = useMemo(() => todayJalali(), []);
 
+  // ── Draft autosave ──
+  const userId = useAuthStore((s) => s.userId);
+  const editAdId = mode === "edit" ? adId : null;
+  const draftIdRef = useRef<string | null>(null);
+  // فرم اولیه؛ اگر فرم با آن یکی باشد پیش‌نویسی نگه نمی‌داریم
+  const baselineRef = useRef<AdFormState>(emptyForm);
+  // پیش‌نویس قبلی که منتظر جواب «بازیابی شود؟» است
+  const [offer, setOffer] = useState<AdDraft | null>(null);
+
   useEffect(() => {
     if (!open) return;
 
-    if (!initialValue) {
-      setForm(emptyForm);
+    const base = initialValue ? adPayloadToForm(initialValue) : emptyForm;
+    baselineRef.current = base;
+    setTouched(new Set());
+    setSubmitted(false);
+
+    if (resumeDraft) {
+      draftIdRef.current = resumeDraft.id;
+      setOffer(null);
+      setForm({ ...base, ...resumeDraft.form });
       return;
     }
 
-    setForm({
-      ...initialValue,
-      priceText: initialValue.price === "" ? "" : String(initialValue.price),
-    });
+    draftIdRef.current = adDraftId(editAdId);
+    const prev = findResumableDraft(userId, editAdId);
+    setOffer(prev && !sameAdForm(prev.form, base) ? prev : null);
+    setForm(base);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [open, initialValue]);
+  }, [open, initialValue, resumeDraft]);
+
+  useEffect(() => {
+    const id = draftIdRef.current;
+    // تا وقتی درباره‌ی همین پیش‌نویس تصمیم گرفته نشده رویش ننویس
+    if (!open || loading || !id || offer?.id === id) return;
+
+    const store = useDraftsStore.getState();
+    if (sameAdForm(form, baselineRef.current)) store.remove(userId, id);
+    else
+      store.save(userId, {
+        id,
+        mode,
+        adId: editAdId,
+        form,
+        updatedAt: new Date().toISOString(),
+      });
+  }, [form, open, loading, offer, userId, mode, editAdId]);
+
+  function restoreOffer() {
+    if (!offer) return;
+    draftIdRef.current = offer.id;
+    setForm({ ...baselineRef.current, ...offer.form });
+    setOffer(null);
+  }
+
+  function dismissOffer() {
+    // پیش‌نویس ویرایش جای همین فرم است؛ پیش‌نویس ثبت جدید در لیست می‌ماند
+    if (offer && offer.id === draftIdRef.current)
+      useDraftsStore.getState().remove(userId, offer.id);
+    setOffer(null);
+  }
 
-  function set<K extends keyof AddAdFormState>(key: K, val: AddAdFormState[K]) {
+  function set<K extends keyof AdFormState>(key: K, val: AdFormState[K]) {
     setForm((p) => ({ ...p, [key]: val }));
   }
 
   function numberOrEmpty(v: string): number | "" {
-    if (v.trim() === "") return "";
-    const n = Number(v);
-    return Number.isFinite(n) ? n : "";
+    return parseNumberInput(v) ?? "";
   }
 
-  // ✅ فقط اعداد + یک نقطه + اعشار (برای اینکه 120. و 120.3 راحت تایپ بشه)
-  function setPriceText(v: string) {
-    const s = v.replace(/,/g, "").trim();
-
-    // اجازه: "" | "120" | "120." | "120.3"
-    if (s === "") return set("priceText", "");
+  // ── Validation (قوانین مشترک در domain/validation) ──
+  const errors = useMemo<AdFieldErrors>(() => {
+    const e = validateAdPayload(formToPayload(form));
+    if (form.priceText.trim() && parsePriceText(form.priceText) === null)
+      e.price = "قیمت معتبر نیست";
+    return e;
+  }, [form]);
 
-    if (!/^\d*\.?\d*$/.test(s)) return;
+  // خطا بعد از blur همان فیلد یا بعد از اولین تلاش برای ارسال
+  const [touched, setTouched] = useState<ReadonlySet<AdFieldKey>>(new Set());
+  const [submitted, setSubmitted] = useState(false);
 
-    set("priceText", s);
+  function errorOf(key: AdFieldKey) {
+    return submitted || touched.has(key) ? errors[key] : undefined;
   }
 
-  function parsePrice(): number | "" {
-    const t = (form.priceText ?? "").trim();
-    if (!t) return "";
-    if (t.endsWith(".")) return "";
-    const n = Number(t);
-    return Number.isFinite(n) ? n : "";
+  function touch(key: AdFieldKey) {
+    return () =>
+      setTouched((prev) => (prev.has(key) ? prev : new Set(prev).add(key)));
   }
 
-  function validate() {
-    const missing: string[] = [];
-    if (!form.title.trim()) missing.push("نام خودرو");
-    if (form.year === "") missing.push("سال ساخت");
-    if (!form.color.trim()) missing.push("رنگ");
-    if (form.mileageKm === "") missing.push("کارکرد");
-    if (!form.chassisNumber.trim()) missing.push("شماره شاسی");
-    if (!form.contactPhone.trim()) missing.push("شماره تماس");
-
-    if (!form.priceText.trim()) missing.push("قیمت");
-
-    const p = parsePrice();
-    if (form.priceText.trim() && p === "") {
-      missing.push("قیمت معتبر");
-    }
+  function invalidCls(key: AdFieldKey) {
+    return errorOf(key)
+      ? "border-destructive focus-visible:ring-destructive"
+      : "";
+  }
 
-    if (form.contactPhone.trim() && form.contactPhone.trim().length < 10) {
-      missing.push("شماره تماس معتبر");
+  // ── Duplicate check ──
+  const [checkAllAds, setCheckAllAds] = useState(false);
+  const [dupes, setDupes] = useState<DuplicateMatch[] | null>(null);
+
+  async function findDuplicates(payload: AddAdPayload) {
+    let candidates = existingAds;
+    if (checkAllAds) {
+      try {
+        // ✅ فقط آگهی‌های هم‌سال و هم‌شاسی از سرور (نه کل لیست)
+        const lookups: Promise<Ad[]>[] = [];
+        if (payload.year !== "")
+          lookups.push(adsApi.duplicateCandidates({ year: payload.year }));
+        if (payload.chassisNumber)
+          lookups.push(
+            adsApi.duplicateCandidates({ chassis: payload.chassisNumber })
+          );
+        candidates = [...existingAds, ...(await Promise.all(lookups)).flat()];
+      } catch {
+        // بررسی کل سایت اختیاری است؛ با آگهی‌های خودم ادامه بده
+      }
     }
-
-    return { ok: missing.length === 0, missing };
+    return findDuplicateAds(payload, candidates, editAdId);
   }
 
-  function showValidationToast(missing: string[]) {
-    const title = "فرم کامل نیست";
-    const desc =
-      missing.length <= 4
-        ? `لطفاً این موارد را تکمیل کنید: ${missing.join("، ")}`
-        : `چند مورد ناقص است. لطفاً فیلدهای ستاره‌دار (*) را کامل کنید.`;
-    toast.error(title, { description: desc });
-  }
+  async function handleSubmit(force = false) {
+    if (uploading) {
+      toast.error("صبر کنید تا آپلود عکس‌ها تمام شود");
+      return;
+    }
+    setSubmitted(true);
+    const errorCount = Object.keys(errors).length;
+    if (errorCount) {
+      toast.error("فرم کامل نیست", {
+        description: `${errorCount.toLocaleString(
+          "fa-IR"
+        )} مورد نیاز به اصلاح دارد؛ خطاها زیر هر فیلد نمایش داده شده‌اند.`,
+      });
+      return;
+    }
 
-  async function handleSubmit() {
-    const v = validate();
-    if (!v.ok) return showValidationToast(v.missing);
-
-    const price = parsePrice();
-    const payload: AddAdPayload = {
-      type: form.type,
-      title: form.title,
-      year: form.year,
-      color: form.color,
-      mileageKm: form.mileageKm,
-      insuranceMonths: form.insuranceMonths,
-      gearbox: form.gearbox,
-      chassisNumber: form.chassisNumber,
-      contactPhone: form.contactPhone,
-      price: price === "" ? 0 : price,
-      description: form.description ?? "",
-    };
+    const payload = normalizeAdPayload(formToPayload(form));
 
     setLoading(true);
     try {
+      if (!force) {
+        const matches = await findDuplicates(payload);
+        if (matches.length) {
+          setDupes(matches);
+          return;
+        }
+      }
+      setDupes(null);
+
       toast.loading(
         mode === "edit" ? "در حال ویرایش..." : "در حال ارسال فرم...",
         {
@@ -284,6 +292,9 @@ export default function AddAdModal({
         description: "در همین صفحه نمایش داده می‌شود.",
       });
 
+      if (draftIdRef.current)
+        useDraftsStore.getState().remove(userId, draftIdRef.current);
+      draftIdRef.current = null;
       onOpenChange(false);
       setForm(emptyForm);
     } catch (e: any) {
@@ -328,12 +339,8 @@ export default function AddAdModal({
     "active:translate-y-0 active:shadow-sm cursor-pointer";
 
   const priceHuman = useMemo(() => {
-    const t = (form.priceText ?? "").trim();
-    if (!t) return "";
-    if (t.endsWith(".")) return "";
-    const n = Number(t);
-    if (!Number.isFinite(n)) return "";
-    return formatFromMillionInput(n);
+    const n = parsePriceText(form.priceText);
+    return n === null ? "" : priceToText(n, "۰ تومان");
   }, [form.priceText]);
 
   // ✅ Toggle برای گیربکس
@@ -444,35 +451,97 @@ export default function AddAdModal({
             transition={{ duration: 0.2 }}
             className="space-y-4"
           >
-            <Field label="نام خودرو *">
+            <AdTemplatePicker
+              userId={userId}
+              form={form}
+              onApply={(t) => setForm((p) => applyAdTemplate(p, t))}
+              borderColor="hsl(var(--border))"
+              inputBg={inactiveBtnBg}
+              softGradient={softGradient}
+            />
+
+            {offer && (
+              <div
+                className="rounded-2xl border px-4 py-3 text-sm text-right space-y-2"
+                style={{
+                  borderColor: "rgba(56,189,248,0.6)",
+                  background: "rgba(56,189,248,0.08)",
+                }}
+              >
+                <div className="font-semibold">
+                  پیش‌نویس ذخیره‌شده‌ای از{" "}
+                  {dayjs(offer.updatedAt)
+                    .calendar("jalali")
+                    .locale("fa")
+                    .format("YYYY/MM/DD HH:mm")}{" "}
+                  دارید. بازیابی شود؟
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="rounded-xl"
+                    onClick={restoreOffer}
+                  >
+                    بازیابی
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="rounded-xl"
+                    onClick={dismissOffer}
+                  >
+                    {offer.mode === "edit" ? "حذف پیش‌نویس" : "شروع فرم جدید"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <Field label="نام خودرو *" error={errorOf("title")}>
               <Input
                 value={form.title}
                 onChange={(e) => set("title", e.target.value)}
                 placeholder="مثلاً: Sonata 2018 | 206 تیپ 2"
-                className="rounded-2xl h-12"
+                onBlur={touch("title")}
+                className={cn("rounded-2xl h-12", invalidCls("title"))}
+              />
+            </Field>
+
+            <Field label="عکس‌ها">
+              <PhotoPicker
+                value={form.photos}
+                onChange={(update) =>
+                  setForm((p) => ({ ...p, photos: update(p.photos) }))
+                }
+                onUploadingChange={setUploading}
+                borderColor="hsl(var(--border))"
+                tileBg={inactiveBtnBg}
               />
             </Field>
 
-            <Field label="سال ساخت *">
+            <Field label="سال ساخت *" error={errorOf("year")}>
               <Input
                 value={form.year === "" ? "" : String(form.year)}
                 onChange={(e) => set("year", numberOrEmpty(e.target.value))}
                 placeholder={hintYear()}
                 inputMode="numeric"
-                className="rounded-2xl h-12"
+                onBlur={touch("year")}
+                className={cn("rounded-2xl h-12", invalidCls("year"))}
               />
             </Field>
 
-            <Field label="رنگ *">
+            <Field label="رنگ *" error={errorOf("color")}>
               <Input
                 value={form.color}
                 onChange={(e) => set("color", e.target.value)}
                 placeholder="مثلاً سفید"
-                className="rounded-2xl h-12"
+                onBlur={touch("color")}
+                className={cn("rounded-2xl h-12", invalidCls("color"))}
               />
             </Field>
 
-            <Field label="کارکرد (کیلومتر) *">
+            <Field label="کارکرد (کیلومتر) *" error={errorOf("mileageKm")}>
               <Input
                 value={form.mileageKm === "" ? "" : String(form.mileageKm)}
                 onChange={(e) =>
@@ -480,11 +549,12 @@ export default function AddAdModal({
                 }
                 placeholder="مثلاً 45000"
                 inputMode="numeric"
-                className="rounded-2xl h-12"
+                onBlur={touch("mileageKm")}
+                className={cn("rounded-2xl h-12", invalidCls("mileageKm"))}
               />
             </Field>
 
-            <Field label="مهلت بیمه (ماه)">
+            <Field label="مهلت بیمه (ماه)" error={errorOf("insuranceMonths")}>
               <Input
                 value={
                   form.insuranceMonths === ""
@@ -496,7 +566,11 @@ export default function AddAdModal({
                 }
                 placeholder="مثلاً 6"
                 inputMode="numeric"
-                className="rounded-2xl h-12"
+                onBlur={touch("insuranceMonths")}
+                className={cn(
+                  "rounded-2xl h-12",
+                  invalidCls("insuranceMonths")
+                )}
               />
             </Field>
 
@@ -562,32 +636,41 @@ export default function AddAdModal({
               ) : null}
             </Field>
 
-            <Field label="شماره تماس *">
+            <Field label="شماره تماس *" error={errorOf("contactPhone")}>
               <Input
                 value={form.contactPhone}
-                onChange={(e) => set("contactPhone", e.target.value)}
+                onChange={(e) =>
+                  set("contactPhone", normalizePhoneInput(e.target.value))
+                }
                 placeholder="مثلاً 09123456789"
-                className="rounded-2xl h-12"
+                onBlur={touch("contactPhone")}
+                className={cn("rounded-2xl h-12", invalidCls("contactPhone"))}
               />
             </Field>
 
-            <Field label="شماره شاسی *">
+            <Field label="شماره شاسی *" error={errorOf("chassisNumber")}>
               <Input
                 value={form.chassisNumber}
-                onChange={(e) => set("chassisNumber", e.target.value)}
+                onChange={(e) =>
+                  set("chassisNumber", toEnDigits(e.target.value))
+                }
                 placeholder="مثلاً IR-CHS-12345"
-                className="rounded-2xl h-12"
+                onBlur={touch("chassisNumber")}
+                className={cn("rounded-2xl h-12", invalidCls("chassisNumber"))}
               />
             </Field>
 
-            {/* ✅ قیمت: تایپ اعشار آزاد + معادل میلیارد/میلیون/هزار */}
-            <Field label="قیمت (بر اساس میلیون تومان) *">
+            {/* ✅ قیمت: عدد یا متن آزاد («۲ میلیارد و ۵۰۰») + معادل میلیارد/میلیون/هزار */}
+            <Field
+              label="قیمت (بر اساس میلیون تومان) *"
+              error={errorOf("price")}
+            >
               <Input
                 value={form.priceText}
-                onChange={(e) => setPriceText(e.target.value)}
+                onChange={(e) => set("priceText", e.target.value)}
                 placeholder={hintPrice()}
-                inputMode="decimal"
-                className="rounded-2xl h-12"
+                onBlur={touch("price")}
+                className={cn("rounded-2xl h-12", invalidCls("price"))}
               />
 
               {priceHuman ? (
@@ -601,23 +684,30 @@ export default function AddAdModal({
                     color: "hsl(var(--foreground))",
                   }}
                 >
-                  {toFaNum(priceHuman)}
+                  {priceHuman}
                 </div>
               ) : null}
             </Field>
 
-            <Field label="توضیحات (وضعیت بدنه، رنگ‌شدگی، لاستیک‌ها و...)">
+            <Field
+              label="توضیحات (وضعیت بدنه، رنگ‌شدگی، لاستیک‌ها و...)"
+              error={errorOf("description")}
+            >
               <Textarea
                 value={form.description}
                 onChange={(e) => set("description", e.target.value)}
                 placeholder="دلخواه"
-                className="rounded-2xl min-h-[120px]"
+                onBlur={touch("description")}
+                className={cn(
+                  "rounded-2xl min-h-[120px]",
+                  invalidCls("description")
+                )}
               />
             </Field>
 
             <Button
-              onClick={handleSubmit}
-              disabled={loading}
+              onClick={() => handleSubmit()}
+              disabled={loading || uploading}
               className="w-full rounded-2xl h-12 font-semibold cursor-pointer transition hover:-translate-y-[1px] hover:shadow-md"
               style={{
                 border: "1px solid hsl(var(--border))",
@@ -627,12 +717,37 @@ export default function AddAdModal({
             >
               {loading
                 ? "در حال ارسال..."
+                : uploading
+                ? "در حال آپلود عکس‌ها..."
                 : mode === "edit"
                 ? "ذخیره تغییرات"
                 : "ارسال فرم"}
             </Button>
+            <label className="flex items-center justify-center gap-2 text-xs text-muted-foreground cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={checkAllAds}
+                onChange={(e) => setCheckAllAds(e.target.checked)}
+              />
+              بررسی تکراری بودن در همه‌ی آگهی‌های سایت (نه فقط آگهی‌های من)
+            </label>
           </motion.div>
         </div>
+
+        <DuplicateWarningDialog
+          matches={dupes}
+          userId={userId}
+          onCancel={() => setDupes(null)}
+          onPostAnyway={() => handleSubmit(true)}
+          onEditExisting={
+            onEditExisting
+              ? (ad) => {
+                  setDupes(null);
+                  onEditExisting(ad);
+                }
+              : undefined
+          }
+        />
       </DialogContent>
     </Dialog>
   );
@@ -640,9 +755,11 @@ export default function AddAdModal({
 
 function Field({
   label,
+  error,
   children,
 }: {
   label: string;
+  error?: string;
   children: React.ReactNode;
 }) {
   return (
@@ -651,6 +768,11 @@ function Field({
         {label}
       </div>
       {children}
+      {error && (
+        <div className="text-xs font-semibold text-destructive text-right">
+          {error}
+        </div>
+      )}
     </div>
   );
 }
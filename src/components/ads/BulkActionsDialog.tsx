@@ -0,0 +1,394 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { adsApi } from "@/lib/apiClient";
+import { errorToText } from "@/lib/errorText";
+import {
+  BULK_ACTION_LABELS,
+  CAR_AD_TYPES,
+  CAR_AD_TYPE_LABELS,
+  bulkPreview,
+  bulkRunnable,
+  carAdTypeLabel,
+  normalizePhoneInput,
+  parseNumberInput,
+  payloadToRequestBody,
+  priceToText,
+  type Ad,
+  type BulkAction,
+  type BulkActionKind,
+  type BulkPriceMode,
+  type CarAdType,
+} from "@/domain";
+
+type ItemStatus =
+  | { state: "running" }
+  | { state: "ok" }
+  | { state: "error"; message: string };
+
+type BulkResult = {
+  kind: BulkActionKind;
+  done: number;
+  total: number;
+  failures: { id: number; title: string; message: string }[];
+};
+
+const KINDS: BulkActionKind[] = ["price", "type", "phone", "delete"];
+
+// ─────────────────────────────────────────────
+// عملیات گروهی روی آگهی‌های انتخاب‌شده
+// (با key از بیرون ریست می‌شود)
+// ─────────────────────────────────────────────
+export default function BulkActionsDialog({
+  open,
+  onOpenChange,
+  ads,
+  onBusyChange,
+  onFinished,
+  borderColor,
+  itemBg,
+  activeBg,
+}: {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  ads: Ad[];
+  /** در حین اجرا toastهای تکی hub را خاموش کنید */
+  onBusyChange: (busy: boolean) => void;
+  /** idهای موفق؛ برای پاک کردن انتخاب و بارگذاری دوباره */
+  onFinished: (doneIds: number[]) => void;
+  borderColor: string;
+  itemBg: string;
+  activeBg: string;
+}) {
+  const [kind, setKind] = useState<BulkActionKind>("price");
+  const [priceMode, setPriceMode] = useState<BulkPriceMode>("percent");
+  const [amountText, setAmountText] = useState("");
+  const [typeFrom, setTypeFrom] = useState<CarAdType | "">("");
+  const [typeTo, setTypeTo] = useState<CarAdType>("UsedSale");
+  const [phone, setPhone] = useState("");
+
+  const [running, setRunning] = useState(false);
+  const [status, setStatus] = useState<Record<number, ItemStatus>>({});
+  // بعد از اجرا، انتخاب‌ها عوض می‌شوند؛ خلاصه جدا نگه داشته می‌شود
+  const [result, setResult] = useState<BulkResult | null>(null);
+
+  const action = useMemo<BulkAction>(() => {
+    switch (kind) {
+      case "delete":
+        return { kind };
+      case "price":
+        return {
+          kind,
+          mode: priceMode,
+          amount: parseNumberInput(amountText) ?? 0,
+        };
+      case "type":
+        return { kind, from: typeFrom || null, to: typeTo };
+      case "phone":
+        return { kind, phone };
+    }
+  }, [kind, priceMode, amountText, typeFrom, typeTo, phone]);
+
+  const rows = useMemo(() => bulkPreview(ads, action), [ads, action]);
+  const runnable = useMemo(() => bulkRunnable(rows, action), [rows, action]);
+  const progress = Object.values(status).filter(
+    (st) => st.state !== "running"
+  ).length;
+
+  async function run() {
+    if (!runnable.length || running) return;
+    setRunning(true);
+    setResult(null);
+    setStatus({});
+    onBusyChange(true);
+
+    const total = runnable.length;
+    const done: number[] = [];
+    const failures: BulkResult["failures"] = [];
+    // یکی‌یکی تا پیشرفت هر آیتم دیده شود و سرور زیر بار نرود
+    for (const row of runnable) {
+      const id = row.ad.id;
+      setStatus((s) => ({ ...s, [id]: { state: "running" } }));
+      try {
+        if (action.kind === "delete") await adsApi.remove(id);
+        else if (row.payload)
+          await adsApi.update(id, payloadToRequestBody(row.payload));
+        done.push(id);
+        setStatus((s) => ({ ...s, [id]: { state: "ok" } }));
+      } catch (e) {
+        const message = errorToText(e) || "خطای نامشخص";
+        failures.push({ id, title: row.ad.title, message });
+        setStatus((s) => ({ ...s, [id]: { state: "error", message } }));
+      }
+    }
+
+    setRunning(false);
+    setResult({ kind: action.kind, done: done.length, total, failures });
+    onBusyChange(false);
+    onFinished(done);
+
+    const failed = failures.length;
+    if (failed === 0)
+      toast.success(
+        `${BULK_ACTION_LABELS[action.kind]}: ${done.length.toLocaleString(
+          "fa-IR"
+        )} آگهی انجام شد ✅`
+      );
+    else
+      toast.error(
+        `${failed.toLocaleString("fa-IR")} مورد از ${total.toLocaleString(
+          "fa-IR"
+        )} ناموفق بود`
+      );
+  }
+
+  function describeAfter(row: (typeof rows)[number]): string {
+    if (action.kind === "delete") return "حذف می‌شود";
+    if (!row.payload) return "بدون تغییر";
+    switch (action.kind) {
+      case "price":
+        return `${priceToText(row.ad.price)} ← ${priceToText(
+          Number(row.payload.price)
+        )}`;
+      case "type":
+        return `${carAdTypeLabel(row.ad.type)} ← ${
+          CAR_AD_TYPE_LABELS[row.payload.type]
+        }`;
+      case "phone":
+        return `${row.ad.contactPhone || "—"} ← ${row.payload.contactPhone}`;
+    }
+  }
+
+  const chip = (active: boolean) => ({
+    borderColor,
+    background: active ? activeBg : "transparent",
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !running && onOpenChange(v)}>
+      <DialogContent className="rounded-[22px] max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-right">
+            عملیات گروهی ({ads.length.toLocaleString("fa-IR")} آگهی)
+          </DialogTitle>
+        </DialogHeader>
+
+        {/* ── نوع عملیات ── */}
+        <div className="flex flex-wrap gap-2" dir="rtl">
+          {KINDS.map((k) => (
+            <button
+              key={k}
+              type="button"
+              disabled={running}
+              onClick={() => {
+                setKind(k);
+                setStatus({});
+                setResult(null);
+              }}
+              className="h-9 rounded-2xl border px-3 text-sm font-semibold disabled:opacity-50"
+              style={chip(kind === k)}
+            >
+              {BULK_ACTION_LABELS[k]}
+            </button>
+          ))}
+        </div>
+
+        {/* ── تنظیمات ── */}
+        <div className="space-y-2 text-sm" dir="rtl">
+          {kind === "price" && (
+            <div className="flex flex-wrap items-center gap-2">
+              {(["percent", "fixed"] as const).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  disabled={running}
+                  onClick={() => setPriceMode(m)}
+                  className="h-9 rounded-2xl border px-3 font-semibold"
+                  style={chip(priceMode === m)}
+                >
+                  {m === "percent" ? "درصد" : "مبلغ (میلیون تومان)"}
+                </button>
+              ))}
+              <Input
+                value={amountText}
+                onChange={(e) => setAmountText(e.target.value)}
+                placeholder={
+                  priceMode === "percent" ? "مثلاً 5 یا -10" : "مثلاً 20 یا -15"
+                }
+                className="rounded-2xl h-9 w-40"
+                inputMode="decimal"
+                disabled={running}
+              />
+              <span className="text-xs text-muted-foreground">
+                عدد منفی = کاهش قیمت
+              </span>
+            </div>
+          )}
+
+          {kind === "type" && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span>از</span>
+              <select
+                value={typeFrom}
+                onChange={(e) => setTypeFrom(e.target.value as CarAdType | "")}
+                disabled={running}
+                className="h-9 rounded-2xl border px-3 bg-transparent"
+                style={{ borderColor }}
+              >
+                <option value="">همه‌ی انواع</option>
+                {CAR_AD_TYPES.map((t) => (
+                  <option key={t} value={t}>
+                    {CAR_AD_TYPE_LABELS[t]}
+                  </option>
+                ))}
+              </select>
+              <span>به</span>
+              <select
+                value={typeTo}
+                onChange={(e) => setTypeTo(e.target.value as CarAdType)}
+                disabled={running}
+                className="h-9 rounded-2xl border px-3 bg-transparent"
+                style={{ borderColor }}
+              >
+                {CAR_AD_TYPES.map((t) => (
+                  <option key={t} value={t}>
+                    {CAR_AD_TYPE_LABELS[t]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {kind === "phone" && (
+            <Input
+              value={phone}
+              onChange={(e) => setPhone(normalizePhoneInput(e.target.value))}
+              placeholder="شماره تماس جدید، مثلاً 09121234567"
+              className="rounded-2xl h-9 max-w-xs"
+              inputMode="tel"
+              dir="ltr"
+              disabled={running}
+            />
+          )}
+
+          {kind === "delete" && (
+            <div className="text-red-500 font-semibold">
+              همه‌ی آگهی‌های زیر حذف می‌شوند و قابل بازگشت نیستند.
+            </div>
+          )}
+        </div>
+
+        {/* ── پیش‌نمایش + وضعیت هر آیتم ── */}
+        <div
+          className="space-y-1.5 max-h-[45vh] overflow-y-auto"
+          style={{ scrollbarWidth: "thin" }}
+          dir="rtl"
+        >
+          {rows.map((row) => {
+            const st = status[row.ad.id];
+            const skipped =
+              action.kind !== "delete" && (!row.payload || !!row.error);
+            return (
+              <div
+                key={row.ad.id}
+                className="flex items-center gap-2 rounded-2xl border px-3 py-2 text-sm"
+                style={{
+                  borderColor,
+                  background: itemBg,
+                  opacity: skipped ? 0.55 : 1,
+                }}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-semibold truncate">{row.ad.title}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {describeAfter(row)}
+                  </div>
+                  {row.error && (
+                    <div className="text-xs text-red-500">{row.error}</div>
+                  )}
+                  {st?.state === "error" && (
+                    <div className="text-xs text-red-500">{st.message}</div>
+                  )}
+                </div>
+                {st?.state === "running" && (
+                  <Loader2 className="h-4 w-4 animate-spin opacity-70" />
+                )}
+                {st?.state === "ok" && (
+                  <CheckCircle2 className="h-4 w-4 text-emerald-500" />
+                )}
+                {st?.state === "error" && (
+                  <XCircle className="h-4 w-4 text-red-500" />
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* ── پیشرفت / خلاصه ── */}
+        {running && (
+          <div className="text-sm font-semibold text-right" dir="rtl">
+            در حال اجرا… {progress.toLocaleString("fa-IR")} از{" "}
+            {runnable.length.toLocaleString("fa-IR")}
+          </div>
+        )}
+        {result && (
+          <div
+            className="rounded-2xl border p-3 text-sm space-y-1 text-right"
+            style={{ borderColor }}
+            dir="rtl"
+          >
+            <div className="font-semibold">
+              {BULK_ACTION_LABELS[result.kind]}:{" "}
+              {result.done.toLocaleString("fa-IR")} از{" "}
+              {result.total.toLocaleString("fa-IR")} انجام شد
+              {result.failures.length > 0 && (
+                <span className="text-red-500">
+                  {" "}
+                  • {result.failures.length.toLocaleString("fa-IR")} خطا
+                </span>
+              )}
+            </div>
+            {result.failures.map((f) => (
+              <div key={f.id} className="text-xs">
+                <span className="font-semibold">{f.title}:</span>{" "}
+                <span className="text-red-500">{f.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-2">
+          <Button
+            variant="outline"
+            className="rounded-2xl"
+            disabled={running}
+            onClick={() => onOpenChange(false)}
+          >
+            بستن
+          </Button>
+          <Button
+            className="rounded-2xl"
+            variant={kind === "delete" ? "destructive" : "default"}
+            disabled={running || runnable.length === 0}
+            onClick={run}
+          >
+            {running && <Loader2 className="h-4 w-4 animate-spin" />}
+            {BULK_ACTION_LABELS[kind]} (
+            {runnable.length.toLocaleString("fa-IR")} آگهی)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { Scale } from "lucide-react";
+import { toast } from "sonner";
+import { COMPARE_MAX, type Ad } from "@/domain";
+import { useCompareStore, useIsCompared } from "@/store/compare.store";
+
+/** اضافه/حذف آگهی از سبد مقایسه */
+export default function CompareToggle({
+  ad,
+  borderColor,
+  isDark,
+  size = 28,
+}: {
+  ad: Ad;
+  borderColor: string;
+  isDark: boolean;
+  size?: number;
+}) {
+  const selected = useIsCompared(ad.id);
+  const toggle = useCompareStore((s) => s.toggle);
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        if (toggle(ad) === "full")
+          toast.error(
+            `حداکثر ${COMPARE_MAX.toLocaleString("fa-IR")} آگهی قابل مقایسه است`
+          );
+      }}
+      className="rounded-xl border grid place-items-center shrink-0 transition-all hover:-translate-y-[1px]"
+      style={{
+        width: size,
+        height: size,
+        borderColor: selected ? "rgba(56,189,248,0.7)" : borderColor,
+        background: selected
+          ? "rgba(56,189,248,0.14)"
+          : isDark
+          ? "hsl(0 0% 12%)"
+          : "hsl(var(--background))",
+      }}
+      title={selected ? "حذف از مقایسه" : "افزودن به مقایسه"}
+      aria-pressed={selected}
+    >
+      <Scale
+        className="h-3.5 w-3.5"
+        style={{
+          color: selected ? "rgb(56,189,248)" : "currentColor",
+          opacity: selected ? 1 : 0.6,
+        }}
+      />
+    </button>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import dayjs from "dayjs";
+import jalaliday from "jalaliday";
+import { Pencil, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CAR_AD_TYPE_LABELS, type AdDraft } from "@/domain";
+import { useDraftsStore, useMyDrafts } from "@/store/drafts.store";
+
+dayjs.extend(jalaliday);
+
+// ─────────────────────────────────────────────
+// پیش‌نویس‌های آگهی (داشبورد)
+// ─────────────────────────────────────────────
+export default function DraftsDialog({
+  open,
+  onOpenChange,
+  userId,
+  onResume,
+  borderColor,
+  itemBg,
+}: {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  userId: number | null;
+  onResume: (draft: AdDraft) => void;
+  borderColor: string;
+  itemBg: string;
+}) {
+  const drafts = useMyDrafts(userId);
+  const remove = useDraftsStore((s) => s.remove);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="rounded-[22px] max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-right">پیش‌نویس‌ها</DialogTitle>
+        </DialogHeader>
+
+        {drafts.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            پیش‌نویسی ندارید. فرم نیمه‌کاره‌ی آگهی خودکار اینجا ذخیره می‌شود.
+          </div>
+        ) : (
+          <div
+            className="space-y-2 max-h-[60vh] overflow-y-auto"
+            style={{ scrollbarWidth: "thin" }}
+          >
+            {drafts.map((d) => (
+              <div
+                key={d.id}
+                className="flex items-center gap-2 rounded-2xl border p-3"
+                style={{ borderColor, background: itemBg }}
+              >
+                <div className="flex-1 min-w-0 text-right">
+                  <div className="text-sm font-bold truncate">
+                    {d.form.title.trim() || "بدون عنوان"}
+                    <span className="mr-2 text-[11px] font-semibold text-muted-foreground">
+                      ({d.mode === "edit" ? "ویرایش" : "آگهی جدید"} •{" "}
+                      {CAR_AD_TYPE_LABELS[d.form.type]})
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    آخرین تغییر:{" "}
+                    {dayjs(d.updatedAt)
+                      .calendar("jalali")
+                      .locale("fa")
+                      .format("YYYY/MM/DD HH:mm")}
+                  </div>
+                </div>
+
+                <button
+                  type="button"
+                  onClick={() => onResume(d)}
+                  className="h-8 w-8 rounded-xl border grid place-items-center shrink-0"
+                  style={{ borderColor }}
+                  title="ادامه"
+                >
+                  <Pencil className="h-4 w-4 opacity-70" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => remove(userId, d.id)}
+                  className="h-8 w-8 rounded-xl border grid place-items-center shrink-0"
+                  style={{ borderColor }}
+                  title="حذف پیش‌نویس"
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
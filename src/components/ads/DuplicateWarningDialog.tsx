@@ -0,0 +1,123 @@
+"use client";
+
+import Link from "next/link";
+import { AlertTriangle, ExternalLink, Pencil } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import AdStatusBadge from "@/components/ads/AdStatusBadge";
+import { priceToText, type Ad, type DuplicateMatch } from "@/domain";
+
+// ─────────────────────────────────────────────
+// هشدار آگهی تکراری قبل از ثبت/ویرایش
+// ─────────────────────────────────────────────
+export default function DuplicateWarningDialog({
+  matches,
+  userId,
+  onCancel,
+  onPostAnyway,
+  onEditExisting,
+}: {
+  /** null یعنی بسته */
+  matches: DuplicateMatch[] | null;
+  userId: number | null;
+  onCancel: () => void;
+  onPostAnyway: () => void;
+  /** فقط برای آگهی‌های خود کاربر */
+  onEditExisting?: (ad: Ad) => void;
+}) {
+  return (
+    <Dialog open={!!matches} onOpenChange={(v) => !v && onCancel()}>
+      <DialogContent className="rounded-[22px] max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="text-right flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            آگهی مشابه پیدا شد
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="text-sm text-muted-foreground text-right" dir="rtl">
+          این خودرو احتمالاً قبلاً ثبت شده است. به‌جای آگهی تکراری می‌توانید
+          آگهی موجود را ویرایش یا تمدید کنید.
+        </div>
+
+        <div
+          className="space-y-2 max-h-[50vh] overflow-y-auto"
+          style={{ scrollbarWidth: "thin" }}
+          dir="rtl"
+        >
+          {matches?.map(({ ad, reason, score }) => {
+            const mine = userId !== null && ad.userId === userId;
+            return (
+              <div
+                key={ad.id}
+                className="rounded-2xl border p-3 flex items-center gap-2"
+              >
+                <div className="flex-1 min-w-0 text-right">
+                  <div className="flex items-center gap-1.5 text-sm font-bold">
+                    <span className="truncate">{ad.title}</span>
+                    <AdStatusBadge ad={ad} />
+                    {mine && (
+                      <span className="text-[10px] font-semibold text-sky-500 shrink-0">
+                        (آگهی خودتان)
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {ad.year} • {ad.color} •{" "}
+                    {ad.mileageKm.toLocaleString("fa-IR")} km •{" "}
+                    {priceToText(ad.price)}
+                  </div>
+                  <div
+                    className={`text-[11px] font-semibold ${
+                      reason === "chassis" ? "text-red-500" : "text-amber-500"
+                    }`}
+                  >
+                    {reason === "chassis"
+                      ? "شماره شاسی یکسان"
+                      : `مشابهت ${Math.round(score * 100).toLocaleString(
+                          "fa-IR"
+                        )}٪`}
+                  </div>
+                </div>
+
+                <Link
+                  href={`/u/${ad.userId}?ad=${ad.id}`}
+                  target="_blank"
+                  className="h-9 w-9 rounded-xl border grid place-items-center shrink-0"
+                  title="مشاهده آگهی"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                </Link>
+                {mine && onEditExisting && (
+                  <button
+                    type="button"
+                    onClick={() => onEditExisting(ad)}
+                    className="h-9 rounded-xl border px-2.5 text-xs font-semibold inline-flex items-center gap-1 shrink-0"
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                    ویرایش این آگهی
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-2">
+          <Button variant="outline" className="rounded-2xl" onClick={onCancel}>
+            بازگشت به فرم
+          </Button>
+          <Button className="rounded-2xl" onClick={onPostAnyway}>
+            ثبت در هر صورت
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
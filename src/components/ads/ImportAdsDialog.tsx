@@ -0,0 +1,414 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  CheckCircle2,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  XCircle,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { adsApi } from "@/lib/apiClient";
+import { errorToText } from "@/lib/errorText";
+import {
+  downloadCsv,
+  readSpreadsheet,
+  type SheetTable,
+} from "@/lib/spreadsheet";
+import {
+  AD_IMPORT_FIELDS,
+  AD_IMPORT_FIELD_LABELS,
+  CAR_AD_TYPE_LABELS,
+  GEARBOX_LABELS,
+  adImportErrorReport,
+  adImportSampleTable,
+  buildImportRows,
+  guessImportColumns,
+  importRowValid,
+  normalizeAdPayload,
+  payloadToRequestBody,
+  priceToText,
+  type AdImportField,
+  type AdImportRow,
+} from "@/domain";
+
+type RowStatus =
+  | { state: "running" }
+  | { state: "ok" }
+  | { state: "error"; message: string };
+
+function cellText(row: AdImportRow, f: AdImportField): string {
+  const p = row.payload;
+  switch (f) {
+    case "type":
+      return CAR_AD_TYPE_LABELS[p.type];
+    case "gearbox":
+      return p.gearbox ? GEARBOX_LABELS[p.gearbox] : "";
+    case "price":
+      return p.price === "" ? "" : priceToText(p.price);
+    case "year":
+    case "mileageKm":
+    case "insuranceMonths":
+      return p[f] === "" ? "" : String(p[f]);
+    default:
+      return p[f];
+  }
+}
+
+// ─────────────────────────────────────────────
+// ورود آگهی از CSV/XLSX: نگاشت ستون‌ها، پیش‌نمایش، ثبت با پیشرفت
+// (با key از بیرون ریست می‌شود)
+// ─────────────────────────────────────────────
+export default function ImportAdsDialog({
+  open,
+  onOpenChange,
+  onBusyChange,
+  onFinished,
+  borderColor,
+  itemBg,
+  activeBg,
+}: {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  /** در حین اجرا toastهای تکی hub را خاموش کنید */
+  onBusyChange: (busy: boolean) => void;
+  /** تعداد ثبت‌شده‌ها؛ برای بارگذاری دوباره */
+  onFinished: (created: number) => void;
+  borderColor: string;
+  itemBg: string;
+  activeBg: string;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<SheetTable | null>(null);
+  const [columns, setColumns] = useState<(AdImportField | null)[]>([]);
+  const [reading, setReading] = useState(false);
+
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  // کلید = شماره ردیف فایل
+  const [status, setStatus] = useState<Record<number, RowStatus>>({});
+
+  const rows = useMemo(
+    () => (table ? buildImportRows(table, columns) : []),
+    [table, columns]
+  );
+  const validRows = useMemo(() => rows.filter(importRowValid), [rows]);
+  // ثبت‌شده‌ها دوباره ارسال نمی‌شوند؛ ناموفق‌ها با «تلاش دوباره»
+  const pending = validRows.filter((r) => status[r.line]?.state !== "ok");
+  const serverErrors = useMemo(() => {
+    const out: Record<number, string> = {};
+    for (const [line, st] of Object.entries(status))
+      if (st.state === "error") out[Number(line)] = st.message;
+    return out;
+  }, [status]);
+  const okCount = Object.values(status).filter((s) => s.state === "ok").length;
+  const failedCount = Object.keys(serverErrors).length;
+  const invalidCount = rows.length - validRows.length;
+
+  async function pickFile(file: File | undefined) {
+    if (!file) return;
+    setReading(true);
+    try {
+      const t = await readSpreadsheet(file);
+      if (t.length < 2) {
+        toast.error("فایل ردیف داده‌ای ندارد");
+        return;
+      }
+      setFileName(file.name);
+      setTable(t);
+      setColumns(guessImportColumns(t[0]));
+      setStatus({});
+    } catch (e) {
+      toast.error("خواندن فایل ناموفق بود", {
+        description: e instanceof Error ? e.message : errorToText(e),
+      });
+    } finally {
+      setReading(false);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  function setColumn(i: number, field: AdImportField | null) {
+    setColumns((prev) =>
+      prev.map((c, j) => (j === i ? field : field && c === field ? null : c))
+    );
+  }
+
+  async function run() {
+    if (!pending.length || running) return;
+    setRunning(true);
+    setProgress({ done: 0, total: pending.length });
+    onBusyChange(true);
+
+    let created = 0;
+    let failed = 0;
+    // یکی‌یکی تا پیشرفت هر ردیف دیده شود و سرور زیر بار نرود
+    for (const row of pending) {
+      setStatus((s) => ({ ...s, [row.line]: { state: "running" } }));
+      try {
+        await adsApi.create(
+          payloadToRequestBody(normalizeAdPayload(row.payload))
+        );
+        created++;
+        setStatus((s) => ({ ...s, [row.line]: { state: "ok" } }));
+      } catch (e) {
+        failed++;
+        const message = errorToText(e) || "خطای نامشخص";
+        setStatus((s) => ({ ...s, [row.line]: { state: "error", message } }));
+      }
+      setProgress((p) => ({ ...p, done: p.done + 1 }));
+    }
+
+    setRunning(false);
+    onBusyChange(false);
+    onFinished(created);
+
+    if (failed === 0)
+      toast.success(`${created.toLocaleString("fa-IR")} آگهی ثبت شد ✅`);
+    else
+      toast.error(
+        `${failed.toLocaleString(
+          "fa-IR"
+        )} ردیف ثبت نشد؛ می‌توانید دوباره تلاش کنید`
+      );
+  }
+
+  function downloadReport() {
+    const base = fileName.replace(/\.[^.]+$/, "") || "ads";
+    downloadCsv(`${base}-errors.csv`, adImportErrorReport(rows, serverErrors));
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !running && onOpenChange(v)}>
+      <DialogContent className="rounded-[22px] max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="text-right">
+            ورود آگهی از فایل CSV / اکسل
+          </DialogTitle>
+        </DialogHeader>
+
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          className="hidden"
+          onChange={(e) => pickFile(e.target.files?.[0])}
+        />
+
+        {/* ── انتخاب فایل ── */}
+        <div className="flex flex-wrap items-center gap-2 text-sm" dir="rtl">
+          <Button
+            variant="outline"
+            className="rounded-2xl"
+            disabled={reading || running}
+            onClick={() => fileRef.current?.click()}
+          >
+            {reading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <FileSpreadsheet className="h-4 w-4" />
+            )}
+            {table ? "فایل دیگر" : "انتخاب فایل"}
+          </Button>
+          {fileName && <span className="font-semibold">{fileName}</span>}
+          <button
+            type="button"
+            onClick={() => downloadCsv("ads-sample.csv", adImportSampleTable())}
+            className="text-xs text-sky-500 underline underline-offset-4"
+          >
+            دانلود فایل نمونه
+          </button>
+          {!table && (
+            <div className="w-full text-xs text-muted-foreground">
+              ردیف اول باید سرستون باشد (فارسی یا انگلیسی، مثل «نام خودرو»، «سال
+              ساخت»، «قیمت»). ارقام فارسی و قیمت متنی («۲ میلیارد و ۵۰۰») هم
+              قبول است.
+            </div>
+          )}
+        </div>
+
+        {table && (
+          <>
+            {/* ── نگاشت ستون‌ها ── */}
+            <div className="flex flex-wrap gap-2 text-xs" dir="rtl">
+              {table[0].map((h, i) => (
+                <label
+                  key={i}
+                  className="flex items-center gap-1 rounded-2xl border px-2 py-1"
+                  style={{
+                    borderColor,
+                    background: columns[i] ? activeBg : "transparent",
+                  }}
+                >
+                  <span className="font-semibold max-w-[120px] truncate">
+                    {h || `ستون ${(i + 1).toLocaleString("fa-IR")}`}
+                  </span>
+                  ←
+                  <select
+                    value={columns[i] ?? ""}
+                    // بعد از ثبت اولین ردیف نگاشت قفل می‌شود
+                    disabled={running || okCount > 0}
+                    onChange={(e) =>
+                      setColumn(i, (e.target.value as AdImportField) || null)
+                    }
+                    className="h-7 rounded-xl border px-1 bg-transparent"
+                    style={{ borderColor }}
+                  >
+                    <option value="">نادیده</option>
+                    {AD_IMPORT_FIELDS.map((f) => (
+                      <option key={f} value={f}>
+                        {AD_IMPORT_FIELD_LABELS[f]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <div className="text-sm font-semibold text-right" dir="rtl">
+              {rows.length.toLocaleString("fa-IR")} ردیف •{" "}
+              <span className="text-emerald-500">
+                {validRows.length.toLocaleString("fa-IR")} معتبر
+              </span>
+              {invalidCount > 0 && (
+                <span className="text-red-500">
+                  {" "}
+                  • {invalidCount.toLocaleString("fa-IR")} دارای خطا
+                </span>
+              )}
+              {okCount > 0 && (
+                <span> • {okCount.toLocaleString("fa-IR")} ثبت شد</span>
+              )}
+              {failedCount > 0 && (
+                <span className="text-red-500">
+                  {" "}
+                  • {failedCount.toLocaleString("fa-IR")} ناموفق
+                </span>
+              )}
+              {running && (
+                <span className="text-muted-foreground">
+                  {" "}
+                  • در حال ثبت… {progress.done.toLocaleString("fa-IR")} از{" "}
+                  {progress.total.toLocaleString("fa-IR")}
+                </span>
+              )}
+            </div>
+
+            {/* ── پیش‌نمایش ── */}
+            <div
+              className="max-h-[45vh] overflow-auto rounded-2xl border"
+              style={{ borderColor, scrollbarWidth: "thin" }}
+              dir="rtl"
+            >
+              <table className="w-full text-xs">
+                <thead className="sticky top-0" style={{ background: itemBg }}>
+                  <tr>
+                    <th className="px-2 py-1.5 text-right">ردیف</th>
+                    <th className="px-2 py-1.5" />
+                    {AD_IMPORT_FIELDS.map((f) => (
+                      <th
+                        key={f}
+                        className="px-2 py-1.5 text-right whitespace-nowrap"
+                      >
+                        {AD_IMPORT_FIELD_LABELS[f]}
+                      </th>
+                    ))}
+                    <th className="px-2 py-1.5 text-right">خطا</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const st = status[row.line];
+                    const messages = [
+                      ...AD_IMPORT_FIELDS.flatMap((f) =>
+                        row.errors[f] ? [row.errors[f]] : []
+                      ),
+                      ...(st?.state === "error" ? [st.message] : []),
+                    ];
+                    return (
+                      <tr
+                        key={row.line}
+                        className="border-t align-top"
+                        style={{ borderColor }}
+                      >
+                        <td className="px-2 py-1.5 font-semibold">
+                          {row.line.toLocaleString("fa-IR")}
+                        </td>
+                        <td className="px-2 py-1.5">
+                          {st?.state === "running" ? (
+                            <Loader2 className="h-4 w-4 animate-spin opacity-70" />
+                          ) : st?.state === "ok" ? (
+                            <CheckCircle2 className="h-4 w-4 text-emerald-500" />
+                          ) : messages.length ? (
+                            <XCircle className="h-4 w-4 text-red-500" />
+                          ) : null}
+                        </td>
+                        {AD_IMPORT_FIELDS.map((f) => (
+                          <td
+                            key={f}
+                            title={row.errors[f]}
+                            className="px-2 py-1.5 max-w-[160px] truncate"
+                            style={
+                              row.errors[f]
+                                ? { background: "rgba(239,68,68,0.14)" }
+                                : undefined
+                            }
+                          >
+                            {cellText(row, f)}
+                          </td>
+                        ))}
+                        <td className="px-2 py-1.5 text-red-500 min-w-[220px]">
+                          {messages.join(" • ")}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-2">
+          <Button
+            variant="outline"
+            className="rounded-2xl"
+            disabled={running}
+            onClick={() => onOpenChange(false)}
+          >
+            بستن
+          </Button>
+          <Button
+            variant="outline"
+            className="rounded-2xl"
+            disabled={running || invalidCount + failedCount === 0}
+            onClick={downloadReport}
+          >
+            <Download className="h-4 w-4" />
+            گزارش خطاها
+          </Button>
+          <Button
+            className="rounded-2xl"
+            disabled={running || pending.length === 0}
+            onClick={run}
+          >
+            {running && <Loader2 className="h-4 w-4 animate-spin" />}
+            {failedCount > 0 && !running
+              ? `تلاش دوباره (${pending.length.toLocaleString("fa-IR")})`
+              : `ثبت ${pending.length.toLocaleString("fa-IR")} آگهی معتبر`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
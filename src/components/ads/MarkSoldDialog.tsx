@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { parsePriceText, priceToText, type Ad } from "@/domain";
+
+// ─────────────────────────────────────────────
+// «فروخته شد» با قیمت نهایی اختیاری
+// (با key از بیرون ریست می‌شود)
+// ─────────────────────────────────────────────
+export default function MarkSoldDialog({
+  ad,
+  onOpenChange,
+  onConfirm,
+}: {
+  /** null یعنی بسته */
+  ad: Ad | null;
+  onOpenChange: (v: boolean) => void;
+  onConfirm: (ad: Ad, finalPrice: number | null) => Promise<void>;
+}) {
+  const [priceText, setPriceText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const finalPrice = priceText.trim() ? parsePriceText(priceText) : null;
+  const invalid =
+    !!priceText.trim() && (finalPrice === null || finalPrice <= 0);
+
+  async function submit() {
+    if (!ad || invalid || saving) return;
+    setSaving(true);
+    try {
+      await onConfirm(ad, finalPrice);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={!!ad} onOpenChange={(v) => !saving && onOpenChange(v)}>
+      <DialogContent className="rounded-[22px]">
+        <DialogHeader>
+          <DialogTitle className="text-right">
+            علامت‌گذاری به‌عنوان فروخته‌شده
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2 text-right text-sm" dir="rtl">
+          <div className="font-semibold">{ad?.title}</div>
+          <div className="text-muted-foreground">
+            قیمت آگهی: {priceToText(ad?.price ?? 0)}
+          </div>
+          <label className="block text-xs font-semibold text-muted-foreground">
+            قیمت نهایی فروش (اختیاری)
+          </label>
+          <Input
+            value={priceText}
+            onChange={(e) => setPriceText(e.target.value)}
+            placeholder="مثلاً ۲ میلیارد و ۴۰۰"
+            className="rounded-2xl h-10"
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submit();
+            }}
+          />
+          <div
+            className={`text-xs ${
+              invalid ? "text-red-500" : "text-muted-foreground"
+            }`}
+          >
+            {invalid
+              ? "قیمت نامعتبر است"
+              : finalPrice
+              ? priceToText(finalPrice)
+              : "خالی بگذارید اگر نمی‌خواهید ثبت شود"}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            آگهی از فید عمومی حذف می‌شود ولی در داشبورد می‌ماند.
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-2">
+          <Button
+            variant="outline"
+            className="rounded-2xl"
+            disabled={saving}
+            onClick={() => onOpenChange(false)}
+          >
+            انصراف
+          </Button>
+          <Button
+            className="rounded-2xl"
+            disabled={invalid || saving}
+            onClick={submit}
+          >
+            ثبت فروش
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
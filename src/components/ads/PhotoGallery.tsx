@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { AnimatePresence, motion, type PanInfo } from "framer-motion";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import type { AdPhoto } from "@/domain";
+
+const SWIPE_PX = 50;
+
+function swipeDir(info: PanInfo): -1 | 0 | 1 {
+  if (info.offset.x < -SWIPE_PX) return 1;
+  if (info.offset.x > SWIPE_PX) return -1;
+  return 0;
+}
+
+// ─────────────────────────────────────────────
+// گالری عکس آگهی (swipe) + lightbox تمام‌صفحه
+// ─────────────────────────────────────────────
+export default function PhotoGallery({
+  photos,
+  borderColor,
+}: {
+  photos: AdPhoto[];
+  borderColor: string;
+}) {
+  const [index, setIndex] = useState(0);
+  const [lightbox, setLightbox] = useState(false);
+  const count = photos.length;
+  const current = Math.min(index, count - 1);
+
+  if (count === 0) return null;
+
+  const go = (step: number) => setIndex((current + step + count) % count);
+
+  return (
+    <>
+      <div
+        className="relative aspect-video rounded-2xl border overflow-hidden bg-black/40"
+        style={{ borderColor }}
+      >
+        <motion.img
+          key={photos[current].id}
+          src={photos[current].url}
+          alt=""
+          draggable={false}
+          className="h-full w-full object-cover cursor-zoom-in"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          drag={count > 1 ? "x" : false}
+          dragConstraints={{ left: 0, right: 0 }}
+          dragElastic={0.6}
+          onDragEnd={(_, info) => {
+            const d = swipeDir(info);
+            if (d) go(d);
+          }}
+          onClick={() => setLightbox(true)}
+        />
+
+        {count > 1 && (
+          <>
+            <NavButton side="left" onClick={() => go(1)} />
+            <NavButton side="right" onClick={() => go(-1)} />
+            <div className="absolute bottom-2 inset-x-0 flex justify-center gap-1.5">
+              {photos.map((p, i) => (
+                <button
+                  key={p.id}
+                  type="button"
+                  onClick={() => setIndex(i)}
+                  className="h-1.5 rounded-full transition-all"
+                  style={{
+                    width: i === current ? 16 : 6,
+                    background:
+                      i === current ? "white" : "rgba(255,255,255,0.5)",
+                  }}
+                  aria-label={`عکس ${i + 1}`}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* portal: والد مودال transform دارد و fixed را محدود می‌کند */}
+      {createPortal(
+        <AnimatePresence>
+          {lightbox && (
+            <Lightbox
+              photos={photos}
+              index={current}
+              onIndex={setIndex}
+              onClose={() => setLightbox(false)}
+            />
+          )}
+        </AnimatePresence>,
+        document.body
+      )}
+    </>
+  );
+}
+
+function NavButton({
+  side,
+  onClick,
+  large,
+}: {
+  side: "left" | "right";
+  onClick: () => void;
+  large?: boolean;
+}) {
+  const Icon = side === "left" ? ChevronLeft : ChevronRight;
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className={`absolute top-1/2 -translate-y-1/2 ${
+        side === "left" ? "left-2" : "right-2"
+      } ${
+        large ? "h-11 w-11" : "h-8 w-8"
+      } rounded-full grid place-items-center bg-black/50 text-white hover:bg-black/70`}
+    >
+      <Icon className={large ? "h-6 w-6" : "h-4 w-4"} />
+    </button>
+  );
+}
+
+function Lightbox({
+  photos,
+  index,
+  onIndex,
+  onClose,
+}: {
+  photos: AdPhoto[];
+  index: number;
+  onIndex: (i: number) => void;
+  onClose: () => void;
+}) {
+  const count = photos.length;
+  const go = (step: number) => onIndex((index + step + count) % count);
+
+  // capture روی window تا Escape به مودال جزئیات نرسد
+  useEffect(() => {
+    const h = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowLeft") onIndex((index + 1) % count);
+      else if (e.key === "ArrowRight") onIndex((index - 1 + count) % count);
+      else return;
+      e.stopPropagation();
+    };
+    window.addEventListener("keydown", h, true);
+    return () => window.removeEventListener("keydown", h, true);
+  }, [index, count, onIndex, onClose]);
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-[60] flex items-center justify-center"
+      style={{ background: "rgba(0,0,0,0.92)" }}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.img
+        key={photos[index].id}
+        src={photos[index].url}
+        alt=""
+        draggable={false}
+        className="max-h-[90vh] max-w-[94vw] object-contain"
+        initial={{ opacity: 0, scale: 0.96 }}
+        animate={{ opacity: 1, scale: 1 }}
+        drag={count > 1 ? "x" : false}
+        dragConstraints={{ left: 0, right: 0 }}
+        dragElastic={0.6}
+        onDragEnd={(_, info) => {
+          const d = swipeDir(info);
+          if (d) go(d);
+        }}
+        onClick={(e) => e.stopPropagation()}
+      />
+
+      {count > 1 && (
+        <>
+          <NavButton side="left" large onClick={() => go(1)} />
+          <NavButton side="right" large onClick={() => go(-1)} />
+        </>
+      )}
+
+      <div className="absolute top-4 inset-x-0 flex items-center justify-between px-4 text-white">
+        <span className="text-sm font-semibold">
+          {(index + 1).toLocaleString("fa-IR")} /{" "}
+          {count.toLocaleString("fa-IR")}
+        </span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="h-10 w-10 rounded-full grid place-items-center bg-white/10 hover:bg-white/20"
+          aria-label="بستن"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { ImagePlus, Loader2, Star, X } from "lucide-react";
+import { MAX_AD_PHOTOS, moveItem, type AdPhoto } from "@/domain";
+import { uploadsApi } from "@/lib/apiClient";
+import { compressImage } from "@/lib/imageCompress";
+import { errorToText } from "@/lib/errorText";
+
+type Pending = {
+  key: string;
+  /** objectURL برای پیش‌نمایش تا پایان آپلود */
+  preview: string;
+  progress: number;
+  error: boolean;
+};
+
+// ─────────────────────────────────────────────
+// انتخاب عکس: drag & drop، جابه‌جایی، کاور (اولین عکس)
+// ─────────────────────────────────────────────
+export default function PhotoPicker({
+  value,
+  onChange,
+  onUploadingChange,
+  borderColor,
+  tileBg,
+}: {
+  value: AdPhoto[];
+  /** updater چون چند آپلود هم‌زمان تمام می‌شوند */
+  onChange: (update: (prev: AdPhoto[]) => AdPhoto[]) => void;
+  onUploadingChange?: (uploading: boolean) => void;
+  borderColor: string;
+  tileBg: string;
+}) {
+  const [pending, setPending] = useState<Pending[]>([]);
+  const [dropActive, setDropActive] = useState(false);
+  const dragFrom = useRef<number | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const uploading = pending.some((p) => !p.error);
+  useEffect(() => {
+    onUploadingChange?.(uploading);
+  }, [uploading, onUploadingChange]);
+
+  // پاکسازی objectURLها هنگام unmount
+  const pendingRef = useRef(pending);
+  useEffect(() => {
+    pendingRef.current = pending;
+  }, [pending]);
+  useEffect(
+    () => () =>
+      pendingRef.current.forEach((p) => URL.revokeObjectURL(p.preview)),
+    []
+  );
+
+  function patchPending(key: string, patch: Partial<Pending>) {
+    setPending((prev) =>
+      prev.map((p) => (p.key === key ? { ...p, ...patch } : p))
+    );
+  }
+
+  function dropPending(key: string) {
+    setPending((prev) => {
+      const p = prev.find((x) => x.key === key);
+      if (p) URL.revokeObjectURL(p.preview);
+      return prev.filter((x) => x.key !== key);
+    });
+  }
+
+  async function upload(file: File, key: string) {
+    try {
+      const blob = await compressImage(file);
+      const photo = await uploadsApi.photo(blob, file.name, (progress) =>
+        patchPending(key, { progress })
+      );
+      onChange((prev) => [...prev, photo]);
+      dropPending(key);
+    } catch (e) {
+      patchPending(key, { error: true });
+      toast.error("آپلود عکس ناموفق بود", {
+        description: errorToText(e) || file.name,
+      });
+    }
+  }
+
+  function addFiles(list: FileList | File[]) {
+    const images = Array.from(list).filter((f) => f.type.startsWith("image/"));
+    const room = MAX_AD_PHOTOS - value.length - pending.length;
+    if (images.length > room)
+      toast.error(
+        `حداکثر ${MAX_AD_PHOTOS.toLocaleString("fa-IR")} عکس برای هر آگهی`
+      );
+
+    const accepted = images.slice(0, Math.max(0, room)).map((file) => ({
+      file,
+      item: {
+        key: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+        preview: URL.createObjectURL(file),
+        progress: 0,
+        error: false,
+      },
+    }));
+    if (!accepted.length) return;
+
+    setPending((prev) => [...prev, ...accepted.map((a) => a.item)]);
+    accepted.forEach((a) => upload(a.file, a.item.key));
+  }
+
+  function onDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setDropActive(false);
+    if (e.dataTransfer.files.length) addFiles(e.dataTransfer.files);
+  }
+
+  function onTileDrop(e: React.DragEvent, to: number) {
+    const from = dragFrom.current;
+    dragFrom.current = null;
+    if (from === null) return; // فایل از بیرون => onDrop والد
+    e.preventDefault();
+    e.stopPropagation();
+    onChange((prev) => moveItem(prev, from, to));
+  }
+
+  const tile =
+    "relative aspect-square rounded-2xl border overflow-hidden select-none";
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        if (dragFrom.current === null) setDropActive(true);
+      }}
+      onDragLeave={() => setDropActive(false)}
+      onDrop={onDrop}
+      className="rounded-2xl border border-dashed p-3 transition-colors"
+      style={{
+        borderColor: dropActive ? "rgba(56,189,248,0.8)" : borderColor,
+        background: dropActive ? "rgba(56,189,248,0.06)" : "transparent",
+      }}
+    >
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-2" dir="rtl">
+        {value.map((photo, i) => (
+          <div
+            key={photo.id}
+            draggable
+            onDragStart={() => (dragFrom.current = i)}
+            onDragEnd={() => (dragFrom.current = null)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => onTileDrop(e, i)}
+            className={`${tile} cursor-grab active:cursor-grabbing`}
+            style={{
+              borderColor: i === 0 ? "rgba(234,179,8,0.8)" : borderColor,
+              background: tileBg,
+            }}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={photo.thumbUrl}
+              alt=""
+              className="h-full w-full object-cover pointer-events-none"
+            />
+
+            {i === 0 ? (
+              <span className="absolute bottom-1 right-1 text-[10px] font-bold px-1.5 py-0.5 rounded-lg bg-yellow-500 text-black">
+                کاور
+              </span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => onChange((prev) => moveItem(prev, i, 0))}
+                className="absolute bottom-1 right-1 h-6 w-6 rounded-lg grid place-items-center bg-black/55 text-white"
+                title="انتخاب به عنوان کاور"
+              >
+                <Star className="h-3.5 w-3.5" />
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() =>
+                onChange((prev) => prev.filter((p) => p.id !== photo.id))
+              }
+              className="absolute top-1 left-1 h-6 w-6 rounded-lg grid place-items-center bg-black/55 text-white"
+              title="حذف عکس"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ))}
+
+        {pending.map((p) => (
+          <div
+            key={p.key}
+            className={tile}
+            style={{
+              borderColor: p.error ? "rgba(239,68,68,0.8)" : borderColor,
+              background: tileBg,
+            }}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={p.preview}
+              alt=""
+              className="h-full w-full object-cover opacity-50"
+            />
+            <div className="absolute inset-0 grid place-items-center text-[11px] font-bold">
+              {p.error ? (
+                <span className="text-red-500">خطا</span>
+              ) : (
+                <span className="flex items-center gap-1">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {Math.round(p.progress * 100).toLocaleString("fa-IR")}٪
+                </span>
+              )}
+            </div>
+            {p.error && (
+              <button
+                type="button"
+                onClick={() => dropPending(p.key)}
+                className="absolute top-1 left-1 h-6 w-6 rounded-lg grid place-items-center bg-black/55 text-white"
+                title="حذف"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+
+        {value.length + pending.length < MAX_AD_PHOTOS && (
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            className={`${tile} grid place-items-center text-xs text-muted-foreground cursor-pointer`}
+            style={{ borderColor, background: tileBg }}
+          >
+            <span className="flex flex-col items-center gap-1">
+              <ImagePlus className="h-5 w-5 opacity-70" />
+              افزودن عکس
+            </span>
+          </button>
+        )}
+      </div>
+
+      <div className="mt-2 text-[11px] text-muted-foreground text-right">
+        عکس‌ها را اینجا بکشید و رها کنید؛ برای تغییر ترتیب، عکس‌ها را جابه‌جا
+        کنید. اولین عکس کاور آگهی است.
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        hidden
+        onChange={(e) => {
+          if (e.target.files) addFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+}
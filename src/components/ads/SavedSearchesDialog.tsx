@@ -0,0 +1,130 @@
+"use client";
+
+import Link from "next/link";
+import { toast } from "sonner";
+import { Bell, BellOff, ExternalLink, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { describeAdSearch, savedSearchQuery } from "@/domain";
+import {
+  useMySavedSearches,
+  useSavedSearchesStore,
+} from "@/store/savedSearches.store";
+
+// ─────────────────────────────────────────────
+// مدیریت جستجوهای ذخیره‌شده (داشبورد)
+// ─────────────────────────────────────────────
+export default function SavedSearchesDialog({
+  open,
+  onOpenChange,
+  userId,
+  borderColor,
+  itemBg,
+}: {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  userId: number | null;
+  borderColor: string;
+  itemBg: string;
+}) {
+  const searches = useMySavedSearches(userId);
+  const remove = useSavedSearchesStore((s) => s.remove);
+  const setNotify = useSavedSearchesStore((s) => s.setNotify);
+
+  async function toggleNotify(id: string, notify: boolean) {
+    if (notify) {
+      if (typeof Notification === "undefined") {
+        toast.error("مرورگر شما از نوتیفیکیشن پشتیبانی نمی‌کند");
+        return;
+      }
+      const permission =
+        Notification.permission === "default"
+          ? await Notification.requestPermission()
+          : Notification.permission;
+      if (permission !== "granted") {
+        toast.error("اجازه‌ی نمایش نوتیفیکیشن داده نشد");
+        return;
+      }
+    }
+    setNotify(userId, id, notify);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="rounded-[22px] max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-right">جستجوهای ذخیره‌شده</DialogTitle>
+        </DialogHeader>
+
+        {searches.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground leading-7">
+            هنوز جستجویی ذخیره نکرده‌اید.
+            <br />
+            از صفحه اصلی، پنل «فیلترها» → «ذخیره این جستجو».
+          </div>
+        ) : (
+          <div
+            className="space-y-2 max-h-[60vh] overflow-y-auto"
+            style={{ scrollbarWidth: "thin" }}
+          >
+            {searches.map((s) => (
+              <div
+                key={s.id}
+                className="rounded-2xl border p-3 flex items-center gap-2"
+                style={{ borderColor, background: itemBg }}
+              >
+                <div className="flex-1 min-w-0 text-right">
+                  <div className="text-sm font-bold truncate">{s.name}</div>
+                  <div className="text-[11px] text-muted-foreground truncate">
+                    {describeAdSearch(s.q, s.filters)}
+                  </div>
+                </div>
+
+                <button
+                  type="button"
+                  onClick={() => toggleNotify(s.id, !s.notify)}
+                  className="h-8 w-8 rounded-xl border grid place-items-center shrink-0"
+                  style={{ borderColor }}
+                  title={
+                    s.notify
+                      ? "نوتیفیکیشن مرورگر فعال است"
+                      : "فعال‌سازی نوتیفیکیشن مرورگر"
+                  }
+                >
+                  {s.notify ? (
+                    <Bell className="h-4 w-4 text-sky-500" />
+                  ) : (
+                    <BellOff className="h-4 w-4 opacity-50" />
+                  )}
+                </button>
+
+                <Link
+                  href={`/?${savedSearchQuery(s)}`}
+                  className="h-8 w-8 rounded-xl border grid place-items-center shrink-0"
+                  style={{ borderColor }}
+                  title="نمایش در صفحه اصلی"
+                >
+                  <ExternalLink className="h-4 w-4 opacity-70" />
+                </Link>
+
+                <button
+                  type="button"
+                  onClick={() => remove(userId, s.id)}
+                  className="h-8 w-8 rounded-xl border grid place-items-center shrink-0"
+                  style={{ borderColor }}
+                  title="حذف"
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
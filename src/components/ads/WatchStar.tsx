@@ -0,0 +1,59 @@
+"use client";
+
+import { Star } from "lucide-react";
+import { toast } from "sonner";
+import type { Ad } from "@/domain";
+import { useAuthStore } from "@/store/auth.store";
+import { useIsWatched, useWatchlistStore } from "@/store/watchlist.store";
+
+/** ستاره‌ی نشان کردن آگهی (watchlist) */
+export default function WatchStar({
+  ad,
+  borderColor,
+  isDark,
+  size = 28,
+}: {
+  ad: Ad;
+  borderColor: string;
+  isDark: boolean;
+  size?: number;
+}) {
+  const userId = useAuthStore((s) => s.userId);
+  const watched = useIsWatched(userId, ad.id);
+  const toggle = useWatchlistStore((s) => s.toggle);
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        const now = toggle(userId, ad);
+        toast.success(
+          now ? "به لیست نشان‌شده‌ها اضافه شد ⭐" : "از لیست حذف شد"
+        );
+      }}
+      className="rounded-xl border grid place-items-center shrink-0 transition-all hover:-translate-y-[1px]"
+      style={{
+        width: size,
+        height: size,
+        borderColor: watched ? "rgba(234,179,8,0.7)" : borderColor,
+        background: watched
+          ? "rgba(234,179,8,0.14)"
+          : isDark
+          ? "hsl(0 0% 12%)"
+          : "hsl(var(--background))",
+      }}
+      title={watched ? "حذف از نشان‌شده‌ها" : "نشان کردن"}
+      aria-pressed={watched}
+    >
+      <Star
+        className="h-3.5 w-3.5"
+        style={{
+          color: watched ? "rgb(234,179,8)" : "currentColor",
+          fill: watched ? "rgb(234,179,8)" : "none",
+          opacity: watched ? 1 : 0.6,
+        }}
+      />
+    </button>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import Link from "next/link";
+import dayjs from "dayjs";
+import jalaliday from "jalaliday";
+import { ExternalLink, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { priceToCompact, priceToText } from "@/domain";
+import { useMyWatchlist, useWatchlistStore } from "@/store/watchlist.store";
+
+dayjs.extend(jalaliday);
+
+function toJalali(iso: string) {
+  return dayjs(iso).calendar("jalali").locale("fa").format("YYYY/MM/DD HH:mm");
+}
+
+// ─────────────────────────────────────────────
+// Watchlist (داشبورد)
+// ─────────────────────────────────────────────
+export default function WatchlistDialog({
+  open,
+  onOpenChange,
+  userId,
+  borderColor,
+  itemBg,
+  chipBg,
+}: {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  userId: number | null;
+  borderColor: string;
+  itemBg: string;
+  chipBg: string;
+}) {
+  const watched = useMyWatchlist(userId);
+  const remove = useWatchlistStore((s) => s.remove);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="rounded-[22px] max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="text-right">آگهی‌های نشان‌شده</DialogTitle>
+        </DialogHeader>
+
+        {watched.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            هنوز آگهی‌ای نشان نکرده‌اید. از ستاره ⭐ کنار هر آگهی استفاده کنید.
+          </div>
+        ) : (
+          <div
+            className="space-y-2 max-h-[65vh] overflow-y-auto"
+            style={{ scrollbarWidth: "thin" }}
+          >
+            {watched.map(({ ad, priceHistory, removedAt }) => (
+              <div
+                key={ad.id}
+                className="rounded-2xl border p-3 space-y-2"
+                style={{
+                  borderColor,
+                  background: itemBg,
+                  opacity: removedAt ? 0.6 : 1,
+                }}
+              >
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0 text-right">
+                    <div className="text-sm font-bold truncate">
+                      {ad.title}
+                      {removedAt && (
+                        <span className="mr-2 text-[11px] font-semibold text-red-500">
+                          (حذف شده)
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {priceToText(ad.price)}
+                    </div>
+                  </div>
+
+                  {!removedAt && (
+                    <Link
+                      href={`/u/${ad.userId}?ad=${ad.id}`}
+                      className="h-8 w-8 rounded-xl border grid place-items-center shrink-0"
+                      style={{ borderColor }}
+                      title="مشاهده آگهی"
+                    >
+                      <ExternalLink className="h-4 w-4 opacity-70" />
+                    </Link>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => remove(userId, ad.id)}
+                    className="h-8 w-8 rounded-xl border grid place-items-center shrink-0"
+                    style={{ borderColor }}
+                    title="حذف از لیست"
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </button>
+                </div>
+
+                {/* تاریخچه‌ی قیمت (فقط اگر تغییری بوده) */}
+                {priceHistory.length > 1 && (
+                  <div className="flex flex-wrap gap-1.5" dir="rtl">
+                    {priceHistory.map((p, i) => (
+                      <span
+                        key={p.at + i}
+                        className="text-[10px] px-2 py-0.5 rounded-lg"
+                        style={{ background: chipBg }}
+                        title={toJalali(p.at)}
+                      >
+                        {priceToCompact(p.price)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
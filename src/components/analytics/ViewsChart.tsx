@@ -0,0 +1,107 @@
+"use client";
+
+import dayjs from "dayjs";
+import jalaliday from "jalaliday";
+import type { DayPoint } from "@/domain";
+
+dayjs.extend(jalaliday);
+
+function toJalaliShort(date: string) {
+  return dayjs(date).calendar("jalali").locale("fa").format("MM/DD");
+}
+
+const W = 720;
+const H = 220;
+const PAD = { top: 12, right: 8, bottom: 26, left: 36 };
+
+// ─────────────────────────────────────────────
+// نمودار ستونی بازدید روزانه (SVG ساده، بدون کتابخانه)
+// ─────────────────────────────────────────────
+export default function ViewsChart({
+  points,
+  color = "rgb(56,189,248)",
+}: {
+  points: DayPoint[];
+  color?: string;
+}) {
+  const max = Math.max(1, ...points.map((p) => p.views));
+  const innerW = W - PAD.left - PAD.right;
+  const innerH = H - PAD.top - PAD.bottom;
+  const step = innerW / Math.max(points.length, 1);
+  const barW = Math.max(2, step * 0.7);
+  // حدود ۸ برچسب روی محور افقی
+  const labelEvery = Math.max(1, Math.ceil(points.length / 8));
+  const ticks = [0, 0.5, 1].map((t) => Math.round(max * t));
+
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="نمودار بازدید روزانه"
+    >
+      {ticks.map((t) => {
+        const y = PAD.top + innerH - (t / max) * innerH;
+        return (
+          <g key={t}>
+            <line
+              x1={PAD.left}
+              x2={W - PAD.right}
+              y1={y}
+              y2={y}
+              stroke="currentColor"
+              strokeOpacity={0.12}
+            />
+            <text
+              x={PAD.left - 6}
+              y={y + 4}
+              textAnchor="end"
+              fontSize={10}
+              fill="currentColor"
+              fillOpacity={0.6}
+            >
+              {t.toLocaleString("fa-IR")}
+            </text>
+          </g>
+        );
+      })}
+
+      {points.map((p, i) => {
+        const h = (p.views / max) * innerH;
+        // چپ‌به‌راست زمانی؛ امروز سمت چپ (RTL)
+        const x = W - PAD.right - (i + 1) * step + (step - barW) / 2;
+        return (
+          <g key={p.date}>
+            <rect
+              x={x}
+              y={PAD.top + innerH - h}
+              width={barW}
+              height={Math.max(h, p.views > 0 ? 1 : 0)}
+              rx={Math.min(3, barW / 2)}
+              fill={color}
+              fillOpacity={i === points.length - 1 ? 1 : 0.75}
+            >
+              <title>
+                {`${toJalaliShort(p.date)} • ${p.views.toLocaleString(
+                  "fa-IR"
+                )} بازدید`}
+              </title>
+            </rect>
+            {(points.length - 1 - i) % labelEvery === 0 && (
+              <text
+                x={x + barW / 2}
+                y={H - 8}
+                textAnchor="middle"
+                fontSize={10}
+                fill="currentColor"
+                fillOpacity={0.6}
+              >
+                {toJalaliShort(p.date)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { HEATMAP_WEEKDAYS } from "@/domain";
+
+/** به ترتیب HEATMAP_WEEKDAYS (شنبه تا جمعه) */
+const WEEKDAY_LABELS = [
+  "شنبه",
+  "یکشنبه",
+  "دوشنبه",
+  "سه‌شنبه",
+  "چهارشنبه",
+  "پنجشنبه",
+  "جمعه",
+];
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+// ─────────────────────────────────────────────
+// Heatmap بازدید بر اساس روز هفته × ساعت
+// ─────────────────────────────────────────────
+export default function ViewsHeatmap({
+  grid,
+  borderColor,
+}: {
+  /** خروجی heatmapGrid */
+  grid: number[][];
+  borderColor: string;
+}) {
+  const max = Math.max(1, ...grid.flat());
+
+  return (
+    <div className="overflow-x-auto" style={{ scrollbarWidth: "thin" }}>
+      <div
+        className="grid gap-[3px] min-w-[640px] text-[10px]"
+        style={{ gridTemplateColumns: "64px repeat(24, minmax(0, 1fr))" }}
+      >
+        <div />
+        {HOURS.map((h) => (
+          <div key={h} className="text-center text-muted-foreground">
+            {h % 3 === 0 ? h.toLocaleString("fa-IR") : ""}
+          </div>
+        ))}
+
+        {HEATMAP_WEEKDAYS.map((_, row) => (
+          <div key={row} className="contents">
+            <div className="font-semibold text-muted-foreground self-center">
+              {WEEKDAY_LABELS[row]}
+            </div>
+            {HOURS.map((h) => {
+              const v = grid[row]?.[h] ?? 0;
+              return (
+                <div
+                  key={h}
+                  className="aspect-square rounded-[4px] border"
+                  style={{
+                    borderColor,
+                    background:
+                      v > 0
+                        ? `rgba(56,189,248,${0.15 + (v / max) * 0.85})`
+                        : "transparent",
+                  }}
+                  title={`${WEEKDAY_LABELS[row]} ساعت ${h.toLocaleString(
+                    "fa-IR"
+                  )} • ${v.toLocaleString("fa-IR")} بازدید`}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
+import { toEnDigits } from "@/domain";
 import { toast } from "sonner";
 
 export type BioMode = "advanced" | "simple";
@@ -301,7 +302,9 @@ export default function BioModal({
                     </div>
                     <Input
                       value={contactInfo}
-                      onChange={(e) => setContactInfo(e.target.value)}
+                      onChange={(e) =>
+                        setContactInfo(toEnDigits(e.target.value))
+                      }
                       placeholder="مثلاً: 09123434345"
                       className="rounded-2xl h-11"
                     />
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { adPatchSchema, adSchema, upsertAds, type Ad } from "./ad";
+import { SchemaError } from "./schema";
+
+const raw = {
+  id: 7,
+  userId: 3,
+  type: "UsedSale",
+  title: "سوناتا",
+  year: 1398,
+  color: "سفید",
+  mileageKm: 85000,
+  price: 1500,
+  createdAt: "2026-01-01T00:00:00Z",
+  viewCount: 12,
+  status: 1,
+};
+
+describe("adPatchSchema", () => {
+  it("keeps only the fields present in the payload", () => {
+    const patch = adPatchSchema.parse({ id: 7, price: "1600" });
+    expect(patch).toEqual({ id: 7, price: 1600 });
+  });
+
+  it("reads PascalCase and aliased keys", () => {
+    const patch = adPatchSchema.parse({
+      Id: 7,
+      Title: "النترا",
+      finalPrice: 900,
+    });
+    expect(patch).toEqual({ id: 7, title: "النترا", soldPrice: 900 });
+  });
+
+  it("merging a patch does not reset omitted fields", () => {
+    const ad: Ad = adSchema.parse(raw);
+    const merged = { ...ad, ...adPatchSchema.parse({ id: 7, color: "مشکی" }) };
+    expect(merged.viewCount).toBe(12);
+    expect(merged.status).toBe(1);
+    expect(merged.color).toBe("مشکی");
+  });
+
+  it("rejects a payload without id", () => {
+    expect(() => adPatchSchema.parse({ price: 10 })).toThrow(SchemaError);
+  });
+});
+
+describe("upsertAds", () => {
+  it("replaces known ads and prepends new ones", () => {
+    const a = adSchema.parse(raw);
+    const b = adSchema.parse({ ...raw, id: 8 });
+    const changed = adSchema.parse({ ...raw, price: 1700 });
+    expect(upsertAds([a], [changed, b]).map((x) => [x.id, x.price])).toEqual([
+      [8, 1500],
+      [7, 1700],
+    ]);
+  });
+});
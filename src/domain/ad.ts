@@ -0,0 +1,368 @@
+import { asRecord, pick, toNum, toNumOrNull, toOptStr, toStr } from "./parse";
+import { arrayOf, objectSchema } from "./schema";
+import { normalizeAdPhotos, type AdPhoto } from "./photo";
+
+// ─────────────────────────────────────────────
+// Enums (کلید سمت کلاینت ↔ کد عددی سرور)
+// ─────────────────────────────────────────────
+export type CarAdType = "UsedSale" | "CoopSale" | "BuyRequest" | "ZeroSale";
+export type GearboxType = "Automatic" | "Manual";
+
+export const CAR_AD_TYPES: CarAdType[] = [
+  "UsedSale",
+  "CoopSale",
+  "BuyRequest",
+  "ZeroSale",
+];
+
+export const CAR_AD_TYPE_CODES: Record<CarAdType, number> = {
+  UsedSale: 1,
+  CoopSale: 2,
+  BuyRequest: 3,
+  ZeroSale: 4,
+};
+
+export const CAR_AD_TYPE_LABELS: Record<CarAdType, string> = {
+  UsedSale: "فروش کارکرده",
+  CoopSale: "فروش همکاری",
+  BuyRequest: "درخواست خرید",
+  ZeroSale: "فروش صفر",
+};
+
+export const GEARBOX_TYPES: GearboxType[] = ["Automatic", "Manual"];
+
+/** 0 = نامشخص */
+export const GEARBOX_CODES: Record<GearboxType, number> = {
+  Automatic: 1,
+  Manual: 2,
+};
+
+export const GEARBOX_LABELS: Record<GearboxType, string> = {
+  Automatic: "اتومات",
+  Manual: "دنده‌ای",
+};
+
+function enumCode<K extends string>(
+  v: unknown,
+  codes: Record<K, number>
+): number {
+  if (typeof v === "number") return Number.isFinite(v) ? v : 0;
+  const s = String(v ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s/g, "");
+  if (!s) return 0;
+  if (/^\d+$/.test(s)) return Number(s);
+  const key = (Object.keys(codes) as K[]).find((k) => k.toLowerCase() === s);
+  return key ? codes[key] : 0;
+}
+
+/** عدد، رشته عددی یا نام enum ("UsedSale") را به کد عددی تبدیل می‌کند */
+export function parseCarAdTypeCode(v: unknown): number {
+  return enumCode(v, CAR_AD_TYPE_CODES);
+}
+
+export function parseGearboxCode(v: unknown): number {
+  return enumCode(v, GEARBOX_CODES);
+}
+
+export function carAdTypeFromCode(code: number): CarAdType {
+  const key = CAR_AD_TYPES.find((k) => CAR_AD_TYPE_CODES[k] === code);
+  return key ?? "UsedSale";
+}
+
+export function gearboxFromCode(code: number): GearboxType | "" {
+  return GEARBOX_TYPES.find((k) => GEARBOX_CODES[k] === code) ?? "";
+}
+
+export function carAdTypeLabel(code: number): string {
+  const key = CAR_AD_TYPES.find((k) => CAR_AD_TYPE_CODES[k] === code);
+  return key ? CAR_AD_TYPE_LABELS[key] : "نامشخص";
+}
+
+// ─────────────────────────────────────────────
+// وضعیت آگهی (چرخه‌ی عمر)
+// ─────────────────────────────────────────────
+export type AdStatus = "Active" | "Sold" | "Expired" | "Archived";
+
+export const AD_STATUSES: AdStatus[] = [
+  "Active",
+  "Sold",
+  "Expired",
+  "Archived",
+];
+
+export const AD_STATUS_CODES: Record<AdStatus, number> = {
+  Active: 1,
+  Sold: 2,
+  Expired: 3,
+  Archived: 4,
+};
+
+export const AD_STATUS_LABELS: Record<AdStatus, string> = {
+  Active: "فعال",
+  Sold: "فروخته شد",
+  Expired: "منقضی",
+  Archived: "بایگانی",
+};
+
+export function parseAdStatusCode(v: unknown): number {
+  return enumCode(v, AD_STATUS_CODES);
+}
+
+/** سرورهای قدیمی status ندارند (۰) → فعال */
+export function adStatusFromCode(code: number): AdStatus {
+  return AD_STATUSES.find((k) => AD_STATUS_CODES[k] === code) ?? "Active";
+}
+
+/** برای گیربکس نامشخص رشته خالی برمی‌گرداند */
+export function gearboxLabel(code: number): string {
+  const key = gearboxFromCode(code);
+  return key ? GEARBOX_LABELS[key] : "";
+}
+
+// ─────────────────────────────────────────────
+// Ad
+// ─────────────────────────────────────────────
+export type Ad = {
+  id: number;
+  userId: number;
+  /** کد عددی CarAdType */
+  type: number;
+  title: string;
+  year: number;
+  color: string;
+  mileageKm: number;
+  /** بر اساس میلیون تومان */
+  price: number;
+  /** کد عددی GearboxType (0 = نامشخص) */
+  gearbox: number;
+  createdAt: string;
+  viewCount: number;
+  insuranceMonths?: number | null;
+  chassisNumber?: string;
+  contactPhone?: string;
+  description?: string;
+  /** مرتب؛ اولی کاور است */
+  photos: AdPhoto[];
+  /** کد عددی AdStatus؛ انقضا سمت کلاینت هم حساب می‌شود (adStatus) */
+  status: number;
+  /** قیمت نهایی فروش (میلیون تومان)، اختیاری */
+  soldPrice?: number | null;
+  renewedAt?: string;
+  expiresAt?: string;
+};
+
+export function normalizeAd(raw: unknown): Ad {
+  const r = asRecord(raw);
+  return {
+    id: toNum(pick(r, "id")),
+    userId: toNum(pick(r, "userId")),
+    type: parseCarAdTypeCode(pick(r, "type")),
+    title: toStr(pick(r, "title")),
+    year: toNum(pick(r, "year")),
+    color: toStr(pick(r, "color")),
+    mileageKm: toNum(pick(r, "mileageKm")),
+    price: toNum(pick(r, "price")),
+    gearbox: parseGearboxCode(pick(r, "gearbox")),
+    createdAt: toStr(pick(r, "createdAt")),
+    viewCount: toNum(pick(r, "viewCount")),
+    insuranceMonths: toNumOrNull(pick(r, "insuranceMonths")),
+    chassisNumber: toOptStr(pick(r, "chassisNumber")),
+    contactPhone: toOptStr(pick(r, "contactPhone")),
+    description: toOptStr(pick(r, "description")),
+    photos: normalizeAdPhotos(pick(r, "photos")),
+    status: parseAdStatusCode(pick(r, "status")),
+    soldPrice: toNumOrNull(pick(r, "soldPrice", "finalPrice")),
+    renewedAt: toOptStr(pick(r, "renewedAt")),
+    expiresAt: toOptStr(pick(r, "expiresAt")),
+  };
+}
+
+export const adSchema = objectSchema(
+  "Ad",
+  {
+    id: "number",
+    userId: "number",
+    type: "code",
+    title: "string",
+    year: "number",
+    color: "string",
+    mileageKm: "number",
+    price: "number",
+    createdAt: "date",
+  },
+  normalizeAd
+);
+
+export const adListSchema = arrayOf(adSchema);
+
+/** آپدیت جزئی: فقط فیلدهایی که در payload آمده‌اند (بقیه دست نمی‌خورند) */
+export type AdPatch = Partial<Ad> & { id: number };
+
+// کلیدهای خام غیرهم‌نام
+const AD_RAW_ALIASES: Partial<Record<keyof Ad, string[]>> = {
+  soldPrice: ["soldPrice", "finalPrice"],
+};
+
+export const adPatchSchema = objectSchema(
+  "AdPatch",
+  { id: "number" },
+  (raw): AdPatch => {
+    const r = asRecord(raw);
+    const full = normalizeAd(raw);
+    const patch: Partial<Ad> = {};
+    for (const key of Object.keys(full) as (keyof Ad)[]) {
+      if (pick(r, ...(AD_RAW_ALIASES[key] ?? [key])) !== undefined)
+        Object.assign(patch, { [key]: full[key] });
+    }
+    return { ...patch, id: full.id };
+  }
+);
+
+/** صفحه‌ی cursor-based فید: nextCursor = null یعنی صفحه‌ی آخر */
+export type AdPage = {
+  items: Ad[];
+  nextCursor: string | null;
+};
+
+export const adPageSchema = objectSchema("AdPage", {}, (raw): AdPage => {
+  const r = asRecord(raw);
+  return {
+    items: adListSchema.parse(pick(r, "items")),
+    nextCursor: toOptStr(pick(r, "nextCursor")) || null,
+  };
+});
+
+/** آگهی‌های موجود جایگزین، جدیدها به اول لیست اضافه می‌شوند */
+export function upsertAds(list: Ad[], changed: Ad[]): Ad[] {
+  if (!changed.length) return list;
+  const byId = new Map(changed.map((a) => [a.id, a]));
+  const updated = list.map((a) => byId.get(a.id) ?? a);
+  const known = new Set(list.map((a) => a.id));
+  const added = changed.filter((a) => !known.has(a.id));
+  return added.length ? [...added, ...updated] : updated;
+}
+
+/** رویداد حذف آگهی: { adId, userId } */
+export type AdDeleted = {
+  adId: number;
+  userId: number;
+};
+
+export function normalizeAdDeleted(raw: unknown): AdDeleted {
+  const r = asRecord(raw);
+  return {
+    adId: toNum(pick(r, "adId", "id")),
+    userId: toNum(pick(r, "userId")),
+  };
+}
+
+export const adDeletedSchema = objectSchema(
+  "AdDeleted",
+  { adId: "number" },
+  normalizeAdDeleted
+);
+
+/** رویداد بازدید: { adId, viewCount } */
+export type AdView = {
+  adId: number;
+  viewCount: number;
+};
+
+export function normalizeAdView(raw: unknown): AdView {
+  const r = asRecord(raw);
+  return {
+    adId: toNum(pick(r, "adId", "id")),
+    viewCount: toNum(pick(r, "viewCount")),
+  };
+}
+
+export const adViewSchema = objectSchema(
+  "AdView",
+  { adId: "number", viewCount: "number" },
+  normalizeAdView
+);
+
+/** پاسخ POST /api/ads/{id}/view */
+export const viewCountSchema = objectSchema(
+  "ViewCount",
+  { viewCount: "number" },
+  (raw) => toNum(pick(asRecord(raw), "viewCount"))
+);
+
+/** پاسخ GET /api/ads/stats/today */
+export const todayStatsSchema = objectSchema(
+  "TodayStats",
+  { todayViews: "number" },
+  (raw) => ({ todayViews: toNum(pick(asRecord(raw), "todayViews")) })
+);
+
+// ─────────────────────────────────────────────
+// فرم ثبت/ویرایش آگهی ↔ بدنه درخواست
+// ─────────────────────────────────────────────
+export type AddAdPayload = {
+  type: CarAdType;
+  title: string;
+  year: number | "";
+  color: string;
+  mileageKm: number | "";
+  insuranceMonths: number | "";
+  gearbox: GearboxType | "";
+  chassisNumber: string;
+  contactPhone: string;
+  price: number | "";
+  description: string;
+  /** عکس‌های آپلودشده؛ اولی کاور */
+  photos: AdPhoto[];
+};
+
+export type AdRequestBody = {
+  type: number;
+  title: string;
+  year: number;
+  color: string;
+  mileageKm: number;
+  insuranceMonths: number | null;
+  gearbox: number;
+  chassisNumber: string;
+  contactPhone: string;
+  price: number;
+  description: string;
+  photoIds: string[];
+};
+
+export function adToPayload(ad: Ad): AddAdPayload {
+  return {
+    type: carAdTypeFromCode(ad.type),
+    title: ad.title ?? "",
+    year: ad.year ?? "",
+    color: ad.color ?? "",
+    mileageKm: ad.mileageKm ?? "",
+    insuranceMonths: ad.insuranceMonths ?? "",
+    gearbox: gearboxFromCode(ad.gearbox),
+    chassisNumber: ad.chassisNumber ?? "",
+    contactPhone: ad.contactPhone ?? "",
+    price: ad.price ?? "",
+    description: ad.description ?? "",
+    photos: ad.photos,
+  };
+}
+
+export function payloadToRequestBody(payload: AddAdPayload): AdRequestBody {
+  return {
+    type: CAR_AD_TYPE_CODES[payload.type],
+    title: payload.title,
+    year: payload.year === "" ? 0 : payload.year,
+    color: payload.color,
+    mileageKm: payload.mileageKm === "" ? 0 : payload.mileageKm,
+    insuranceMonths:
+      payload.insuranceMonths === "" ? null : payload.insuranceMonths,
+    gearbox: payload.gearbox ? GEARBOX_CODES[payload.gearbox] : 0,
+    chassisNumber: payload.chassisNumber,
+    contactPhone: payload.contactPhone,
+    price: payload.price === "" ? 0 : payload.price,
+    description: payload.description ?? "",
+    photoIds: payload.photos.map((p) => p.id),
+  };
+}
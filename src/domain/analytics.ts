@@ -0,0 +1,183 @@
+import { asRecord, pick, toNum, toStr } from "./parse";
+import { arrayOf, objectSchema, type Schema } from "./schema";
+import { CAR_AD_TYPES, CAR_AD_TYPE_CODES, type Ad, type CarAdType } from "./ad";
+
+// ─────────────────────────────────────────────
+// Seller analytics (بازدید آگهی‌های من در طول زمان)
+// GET /api/analytics/my-ads/views?days=30
+// ─────────────────────────────────────────────
+export const ANALYTICS_RANGES = [30, 90] as const;
+export type AnalyticsRange = (typeof ANALYTICS_RANGES)[number];
+
+/** بازدید یک آگهی در یک روز (date = YYYY-MM-DD به وقت محلی) */
+export type DailyViews = { adId: number; date: string; views: number };
+
+/** weekday مثل DayOfWeek سرور: ۰ = یکشنبه ... ۶ = شنبه */
+export type HourlyViews = { weekday: number; hour: number; views: number };
+
+export type ViewAnalytics = {
+  days: number;
+  daily: DailyViews[];
+  hourly: HourlyViews[];
+};
+
+const dailyViewsSchema = objectSchema(
+  "DailyViews",
+  { adId: "number", date: "string", views: "number" },
+  (raw): DailyViews => {
+    const r = asRecord(raw);
+    return {
+      adId: toNum(pick(r, "adId")),
+      date: toStr(pick(r, "date")).slice(0, 10),
+      views: toNum(pick(r, "views")),
+    };
+  }
+);
+
+const hourlyViewsSchema = objectSchema(
+  "HourlyViews",
+  { weekday: "number", hour: "number", views: "number" },
+  (raw): HourlyViews => {
+    const r = asRecord(raw);
+    return {
+      weekday: toNum(pick(r, "weekday", "dayOfWeek")),
+      hour: toNum(pick(r, "hour")),
+      views: toNum(pick(r, "views")),
+    };
+  }
+);
+
+const dailyListSchema = arrayOf(dailyViewsSchema);
+const hourlyListSchema = arrayOf(hourlyViewsSchema);
+
+export const viewAnalyticsSchema: Schema<ViewAnalytics> = objectSchema(
+  "ViewAnalytics",
+  { days: "number" },
+  (raw) => {
+    const r = asRecord(raw);
+    return {
+      days: toNum(pick(r, "days")),
+      daily: dailyListSchema.parse(pick(r, "daily")),
+      hourly: hourlyListSchema.parse(pick(r, "hourly")),
+    };
+  }
+);
+
+// ─────────────────────────────────────────────
+// Aggregations
+// ─────────────────────────────────────────────
+export function localDateKey(d: Date): string {
+  const p = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())}`;
+}
+
+/** days روز آخر تا امروز (قدیمی → جدید) */
+export function lastDateKeys(days: number, now = new Date()): string[] {
+  const out: string[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const d = new Date(now.getFullYear(), now.getMonth(), now.getDate() - i);
+    out.push(localDateKey(d));
+  }
+  return out;
+}
+
+export type DayPoint = { date: string; views: number };
+
+/** سری روزانه (روزهای بدون بازدید = ۰)؛ با adId فقط همان آگهی */
+export function dailySeries(
+  a: ViewAnalytics,
+  adId?: number,
+  now = new Date()
+): DayPoint[] {
+  const sums = new Map<string, number>();
+  for (const d of a.daily) {
+    if (adId !== undefined && d.adId !== adId) continue;
+    sums.set(d.date, (sums.get(d.date) ?? 0) + d.views);
+  }
+  return lastDateKeys(a.days, now).map((date) => ({
+    date,
+    views: sums.get(date) ?? 0,
+  }));
+}
+
+export type AdViewsRank = { ad: Ad; views: number };
+
+/** آگهی‌ها به ترتیب بازدید در بازه */
+export function rankAdsByViews(ads: Ad[], a: ViewAnalytics): AdViewsRank[] {
+  const sums = new Map<number, number>();
+  for (const d of a.daily) sums.set(d.adId, (sums.get(d.adId) ?? 0) + d.views);
+  return ads
+    .map((ad) => ({ ad, views: sums.get(ad.id) ?? 0 }))
+    .sort((x, y) => y.views - x.views);
+}
+
+export type TypeViews = {
+  type: CarAdType;
+  ads: number;
+  views: number;
+  /** میانگین بازدید هر آگهی */
+  avg: number;
+};
+
+export function viewsByType(ads: Ad[], a: ViewAnalytics): TypeViews[] {
+  const ranks = rankAdsByViews(ads, a);
+  return CAR_AD_TYPES.map((type) => {
+    const rows = ranks.filter((r) => r.ad.type === CAR_AD_TYPE_CODES[type]);
+    const views = rows.reduce((s, r) => s + r.views, 0);
+    return {
+      type,
+      ads: rows.length,
+      views,
+      avg: rows.length ? views / rows.length : 0,
+    };
+  }).filter((t) => t.ads > 0);
+}
+
+/** ردیف‌های heatmap از شنبه (هفته‌ی شمسی) */
+export const HEATMAP_WEEKDAYS = [6, 0, 1, 2, 3, 4, 5];
+
+/** grid[ردیف HEATMAP_WEEKDAYS][ساعت] */
+export function heatmapGrid(a: ViewAnalytics): number[][] {
+  const grid = HEATMAP_WEEKDAYS.map(() => Array<number>(24).fill(0));
+  for (const h of a.hourly) {
+    const row = HEATMAP_WEEKDAYS.indexOf(h.weekday);
+    if (row < 0 || h.hour < 0 || h.hour > 23) continue;
+    grid[row][h.hour] += h.views;
+  }
+  return grid;
+}
+
+/** بازدید زنده (AdViewUpdated) را به روز و ساعت فعلی اضافه می‌کند */
+export function addLiveViews(
+  a: ViewAnalytics,
+  adId: number,
+  delta: number,
+  at = new Date()
+): ViewAnalytics {
+  if (delta <= 0) return a;
+  const date = localDateKey(at);
+  const weekday = at.getDay();
+  const hour = at.getHours();
+
+  const hasDay = a.daily.some((d) => d.adId === adId && d.date === date);
+  const daily = hasDay
+    ? a.daily.map((d) =>
+        d.adId === adId && d.date === date
+          ? { ...d, views: d.views + delta }
+          : d
+      )
+    : [...a.daily, { adId, date, views: delta }];
+
+  const hasCell = a.hourly.some(
+    (h) => h.weekday === weekday && h.hour === hour
+  );
+  const hourly = hasCell
+    ? a.hourly.map((h) =>
+        h.weekday === weekday && h.hour === hour
+          ? { ...h, views: h.views + delta }
+          : h
+      )
+    : [...a.hourly, { weekday, hour, views: delta }];
+
+  return { ...a, daily, hourly };
+}
@@ -0,0 +1,83 @@
+import { asRecord, pick, toBool, toNum, toOptStr, toStr } from "./parse";
+import { arrayOf, objectSchema } from "./schema";
+
+// ─────────────────────────────────────────────
+// BioItem
+// ─────────────────────────────────────────────
+export type BioItem = {
+  id: number;
+  userId: number;
+  /** آیتم ساده و پیشرفته‌ای که با هم ساخته شده‌اند یک groupKey دارند */
+  groupKey: string;
+  isAdvanced: boolean;
+  title: string;
+  description: string;
+  contactInfo: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+export function normalizeBioItem(raw: unknown): BioItem {
+  const r = asRecord(raw);
+  const contactInfo = pick(r, "contactInfo");
+  return {
+    id: toNum(pick(r, "id", "ID")),
+    userId: toNum(pick(r, "userId", "UserID")),
+    groupKey: toStr(pick(r, "groupKey")).trim(),
+    isAdvanced: toBool(pick(r, "isAdvanced", "ISAdvanced")),
+    title: toStr(pick(r, "title")),
+    description: toStr(pick(r, "description")),
+    contactInfo:
+      contactInfo === null || contactInfo === undefined
+        ? null
+        : String(contactInfo),
+    createdAt: toOptStr(pick(r, "createdAt")),
+    updatedAt: toOptStr(pick(r, "updatedAt")),
+  };
+}
+
+export const bioItemSchema = objectSchema(
+  "BioItem",
+  { id: "number", userId: "number", isAdvanced: "boolean" },
+  normalizeBioItem
+);
+
+export const bioListSchema = arrayOf(bioItemSchema);
+
+/** رویداد حذف بیو: { id, userId } */
+export type BioDeleted = {
+  id: number;
+  userId: number;
+};
+
+export function normalizeBioDeleted(raw: unknown): BioDeleted {
+  const r = asRecord(raw);
+  return {
+    id: toNum(pick(r, "id", "bioItemId")),
+    userId: toNum(pick(r, "userId")),
+  };
+}
+
+export const bioDeletedSchema = objectSchema(
+  "BioDeleted",
+  { id: "number" },
+  normalizeBioDeleted
+);
+
+/** پیشرفته‌ها اول، بعد جدیدترها */
+export function compareBioItems(a: BioItem, b: BioItem): number {
+  if (a.isAdvanced !== b.isAdvanced) return a.isAdvanced ? -1 : 1;
+  return (a.createdAt ?? "") < (b.createdAt ?? "") ? 1 : -1;
+}
+
+export function formatBioLine(item: BioItem): string {
+  const title = item.title.trim();
+  const desc = item.description.trim();
+  const contact = (item.contactInfo ?? "").trim();
+  if (item.isAdvanced) {
+    const left = title ? `${title}: ` : "";
+    const right = contact ? ` - ${contact}` : "";
+    return `${left}${desc}${right}`.trim();
+  }
+  return desc;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { adSchema, type Ad } from "./ad";
+import { applyBulkAction, bulkPreview, bulkRunnable } from "./bulk";
+
+function ad(over: Record<string, unknown> = {}): Ad {
+  return adSchema.parse({
+    id: 1,
+    userId: 1,
+    type: "UsedSale",
+    title: "پژو ۲۰۶",
+    year: 1398,
+    color: "سفید",
+    mileageKm: 40000,
+    price: 500,
+    createdAt: "2026-01-01T00:00:00Z",
+    chassisNumber: "IR-CHS-12345",
+    contactPhone: "09123456789",
+    ...over,
+  });
+}
+
+describe("applyBulkAction", () => {
+  it("adjusts price by percent or a fixed amount, rounded to thousands", () => {
+    const a = ad({ price: 333.3333 });
+    expect(
+      applyBulkAction(a, { kind: "price", mode: "percent", amount: 10 })?.price
+    ).toBe(366.667);
+    expect(
+      applyBulkAction(ad(), { kind: "price", mode: "fixed", amount: -50 })
+        ?.price
+    ).toBe(450);
+    expect(
+      applyBulkAction(ad(), { kind: "price", mode: "fixed", amount: 0 })
+    ).toBeNull();
+  });
+
+  it("changes type only for matching ads", () => {
+    expect(
+      applyBulkAction(ad(), { kind: "type", from: null, to: "CoopSale" })?.type
+    ).toBe("CoopSale");
+    expect(
+      applyBulkAction(ad(), { kind: "type", from: "ZeroSale", to: "CoopSale" })
+    ).toBeNull();
+    expect(
+      applyBulkAction(ad(), { kind: "type", from: null, to: "UsedSale" })
+    ).toBeNull();
+  });
+
+  it("normalizes the new phone and skips unchanged ones", () => {
+    expect(
+      applyBulkAction(ad(), { kind: "phone", phone: "+989351112233" })
+        ?.contactPhone
+    ).toBe("09351112233");
+    expect(
+      applyBulkAction(ad(), { kind: "phone", phone: "۰۹۱۲۳۴۵۶۷۸۹" })
+    ).toBeNull();
+  });
+});
+
+describe("bulkPreview", () => {
+  it("flags a type change that breaks the new-car mileage rule", () => {
+    const rows = bulkPreview([ad(), ad({ id: 2, mileageKm: 500 })], {
+      kind: "type",
+      from: null,
+      to: "ZeroSale",
+    });
+    expect(rows[0].error).toMatch(/۱۰۰۰ کیلومتر/);
+    expect(rows[1].error).toBeNull();
+    expect(
+      bulkRunnable(rows, { kind: "type", from: null, to: "ZeroSale" }).map(
+        (r) => r.ad.id
+      )
+    ).toEqual([2]);
+  });
+
+  it("flags an invalid changed field even if it was invalid before", () => {
+    const [row] = bulkPreview([ad({ price: 0.5 })], {
+      kind: "price",
+      mode: "percent",
+      amount: 10,
+    });
+    expect(row.error).not.toBeNull();
+  });
+
+  it("ignores old problems in fields the action does not touch", () => {
+    const [row] = bulkPreview([ad({ chassisNumber: "" })], {
+      kind: "price",
+      mode: "fixed",
+      amount: 10,
+    });
+    expect(row.error).toBeNull();
+  });
+
+  it("runs every selected ad for delete", () => {
+    const action = { kind: "delete" } as const;
+    const rows = bulkPreview([ad(), ad({ id: 2 })], action);
+    expect(rows.every((r) => r.payload === null)).toBe(true);
+    expect(bulkRunnable(rows, action)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  adToPayload,
+  carAdTypeFromCode,
+  type Ad,
+  type AddAdPayload,
+  type CarAdType,
+} from "./ad";
+import {
+  normalizeIranMobile,
+  validateAdPayload,
+  type AdFieldKey,
+} from "./validation";
+
+// ─────────────────────────────────────────────
+// Bulk actions (عملیات گروهی داشبورد)
+// ─────────────────────────────────────────────
+export type BulkPriceMode = "percent" | "fixed";
+
+export type BulkAction =
+  | { kind: "delete" }
+  /** percent: +10 یعنی ۱۰٪ گران‌تر ؛ fixed: بر اساس میلیون تومان (منفی = کاهش) */
+  | { kind: "price"; mode: BulkPriceMode; amount: number }
+  /** from = null یعنی همه‌ی انواع */
+  | { kind: "type"; from: CarAdType | null; to: CarAdType }
+  | { kind: "phone"; phone: string };
+
+export type BulkActionKind = BulkAction["kind"];
+
+export const BULK_ACTION_LABELS: Record<BulkActionKind, string> = {
+  delete: "حذف",
+  price: "تغییر قیمت",
+  type: "تغییر نوع آگهی",
+  phone: "تغییر شماره تماس",
+};
+
+export type BulkPreviewRow = {
+  ad: Ad;
+  /** null یعنی برای این آگهی تغییری لازم نیست */
+  payload: AddAdPayload | null;
+  error: string | null;
+};
+
+/** قیمت روی «هزار تومان» رُند می‌شود */
+function adjustPrice(price: number, mode: BulkPriceMode, amount: number) {
+  const next = mode === "percent" ? price * (1 + amount / 100) : price + amount;
+  return Math.round(next * 1000) / 1000;
+}
+
+/** payload جدید یک آگهی بعد از عملیات؛ برای delete همیشه null */
+export function applyBulkAction(
+  ad: Ad,
+  action: BulkAction
+): AddAdPayload | null {
+  const payload = adToPayload(ad);
+  switch (action.kind) {
+    case "delete":
+      return null;
+    case "price":
+      if (!action.amount) return null;
+      return {
+        ...payload,
+        price: adjustPrice(ad.price, action.mode, action.amount),
+      };
+    case "type": {
+      const current = carAdTypeFromCode(ad.type);
+      if (current === action.to) return null;
+      if (action.from && current !== action.from) return null;
+      return { ...payload, type: action.to };
+    }
+    case "phone": {
+      const phone = normalizeIranMobile(action.phone) ?? action.phone.trim();
+      if (phone === payload.contactPhone) return null;
+      return { ...payload, contactPhone: phone };
+    }
+  }
+}
+
+/**
+ * کل payload نتیجه اعتبارسنجی می‌شود (مثلاً تغییر نوع به صفر روی قانون کارکرد اثر دارد)؛
+ * ایراد قبلیِ فیلدهایی که عملیات به آن‌ها دست نزده مانع اجرا نمی‌شود
+ */
+function newPayloadError(ad: Ad, payload: AddAdPayload): string | null {
+  const original = adToPayload(ad);
+  const before = validateAdPayload(original);
+  const after = validateAdPayload(payload);
+  const key = (Object.keys(after) as AdFieldKey[]).find(
+    (k) => payload[k] !== original[k] || after[k] !== before[k]
+  );
+  return key ? after[key] ?? null : null;
+}
+
+export function bulkPreview(ads: Ad[], action: BulkAction): BulkPreviewRow[] {
+  return ads.map((ad) => {
+    const payload = applyBulkAction(ad, action);
+    const error = payload ? newPayloadError(ad, payload) : null;
+    return { ad, payload, error };
+  });
+}
+
+/** ردیف‌هایی که واقعاً اجرا می‌شوند */
+export function bulkRunnable(
+  rows: BulkPreviewRow[],
+  action: BulkAction
+): BulkPreviewRow[] {
+  return rows.filter((r) =>
+    action.kind === "delete" ? true : r.payload !== null && !r.error
+  );
+}
@@ -0,0 +1,98 @@
+import { carAdTypeLabel, gearboxLabel, type Ad } from "./ad";
+import { toGregorianYear } from "./filters";
+import { priceToText } from "./money";
+
+// ─────────────────────────────────────────────
+// Ad comparison (مقایسه‌ی ۲ تا ۴ آگهی)
+// ─────────────────────────────────────────────
+export const COMPARE_MIN = 2;
+export const COMPARE_MAX = 4;
+
+export type CompareRow = {
+  key: string;
+  label: string;
+  value: (ad: Ad) => string;
+  /** اگر باشد بهترین مقدار ردیف هایلایت می‌شود */
+  best?: { metric: (ad: Ad) => number | null; prefer: "min" | "max" };
+};
+
+/** همان ردیف‌های DetailsModal (بدون عنوان/شاسی/تماس) */
+export const COMPARE_ROWS: CompareRow[] = [
+  { key: "type", label: "نوع آگهی", value: (a) => carAdTypeLabel(a.type) },
+  {
+    key: "year",
+    label: "سال تولید",
+    value: (a) => String(a.year),
+    best: {
+      metric: (a) => (a.year > 0 ? toGregorianYear(a.year) : null),
+      prefer: "max",
+    },
+  },
+  { key: "color", label: "رنگ", value: (a) => a.color || "—" },
+  {
+    key: "mileage",
+    label: "کارکرد",
+    value: (a) => `${Number(a.mileageKm).toLocaleString("fa-IR")} کیلومتر`,
+    best: {
+      metric: (a) => (a.mileageKm >= 0 ? a.mileageKm : null),
+      prefer: "min",
+    },
+  },
+  {
+    key: "gearbox",
+    label: "گیربکس",
+    value: (a) => gearboxLabel(a.gearbox) || "—",
+  },
+  {
+    key: "price",
+    label: "قیمت",
+    value: (a) => priceToText(a.price),
+    // قیمت ۰ یعنی «توافقی/نامشخص»
+    best: { metric: (a) => (a.price > 0 ? a.price : null), prefer: "min" },
+  },
+  {
+    key: "insurance",
+    label: "بیمه",
+    value: (a) =>
+      a.insuranceMonths != null ? `${a.insuranceMonths} ماه` : "—",
+  },
+  {
+    key: "description",
+    label: "توضیحات",
+    value: (a) => a.description?.trim() || "—",
+  },
+];
+
+/**
+ * آیدی آگهی‌هایی که در این ردیف بهترین‌اند.
+ * اگر همه برابر باشند (یا کمتر از دو مقدار معتبر) هیچ‌کدام.
+ */
+export function bestInRow(ads: Ad[], row: CompareRow): Set<number> {
+  if (!row.best) return new Set();
+  const { metric, prefer } = row.best;
+
+  const scored = ads
+    .map((ad) => ({ id: ad.id, v: metric(ad) }))
+    .filter((x): x is { id: number; v: number } => x.v !== null);
+  if (scored.length < 2) return new Set();
+
+  const values = scored.map((x) => x.v);
+  const target = prefer === "min" ? Math.min(...values) : Math.max(...values);
+  if (values.every((v) => v === target)) return new Set();
+
+  return new Set(scored.filter((x) => x.v === target).map((x) => x.id));
+}
+
+/** ?ids=1,2,3 → [1,2,3] (یکتا، حداکثر COMPARE_MAX) */
+export function parseCompareIds(raw: string | null): number[] {
+  if (!raw) return [];
+  const ids = raw
+    .split(",")
+    .map((s) => Number(s.trim()))
+    .filter((n) => Number.isInteger(n) && n > 0);
+  return Array.from(new Set(ids)).slice(0, COMPARE_MAX);
+}
+
+export function compareHref(ids: number[]): string {
+  return `/compare?ids=${ids.join(",")}`;
+}
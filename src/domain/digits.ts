@@ -0,0 +1,51 @@
+// ─────────────────────────────────────────────
+// Input normalization (ارقام فارسی/عربی ↔ لاتین)
+// ─────────────────────────────────────────────
+const FA_DIGITS = "۰۱۲۳۴۵۶۷۸۹";
+const AR_DIGITS = "٠١٢٣٤٥٦٧٨٩";
+
+/** ۱۴۰۱ / ١٤٠١ → 1401 */
+export function toEnDigits(s: string): string {
+  return s.replace(/[۰-۹٠-٩]/g, (d) => {
+    const fa = FA_DIGITS.indexOf(d);
+    return String(fa >= 0 ? fa : AR_DIGITS.indexOf(d));
+  });
+}
+
+/**
+ * ورودی عددی: ارقام لاتین، «٫» → «.»،
+ * جداکننده‌های هزارگان (, ، ٬ و فاصله) حذف می‌شوند
+ */
+export function normalizeNumberInput(s: string): string {
+  return toEnDigits(s)
+    .replace(/٫/g, ".")
+    .replace(/[,،٬\s]/g, "");
+}
+
+/** عدد یا null برای ورودی خالی/نامعتبر */
+export function parseNumberInput(s: string): number | null {
+  const t = normalizeNumberInput(s);
+  if (t === "") return null;
+  const n = Number(t);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** شماره تلفن: فقط ارقام لاتین و + ابتدای شماره */
+export function normalizePhoneInput(s: string): string {
+  const t = toEnDigits(s).replace(/[^\d+]/g, "");
+  return t.charAt(0) + t.slice(1).replace(/\+/g, "");
+}
+
+/** برای مقایسه‌ی جستجو: ارقام لاتین، ی/ک فارسی، حروف کوچک */
+export function normalizeSearchText(s: string): string {
+  return toEnDigits(s)
+    .replace(/ي/g, "ی")
+    .replace(/ك/g, "ک")
+    .replace(/‌/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+export function searchIncludes(haystack: string, needle: string): boolean {
+  return normalizeSearchText(haystack).includes(normalizeSearchText(needle));
+}
@@ -0,0 +1,35 @@
+import type { AddAdPayload } from "./ad";
+
+// ─────────────────────────────────────────────
+// Ad drafts (ذخیره خودکار فرم ثبت/ویرایش آگهی)
+// ─────────────────────────────────────────────
+
+/** state داخلی فرم: priceText برای تایپ طبیعی اعشار */
+export type AdFormState = Omit<AddAdPayload, "price"> & {
+  priceText: string;
+};
+
+export type AdDraft = {
+  id: string;
+  mode: "create" | "edit";
+  /** فقط در حالت ویرایش */
+  adId: number | null;
+  form: AdFormState;
+  updatedAt: string;
+};
+
+/** ویرایش: یک پیش‌نویس برای هر آگهی ؛ ثبت جدید: هر بار یک شناسه تازه */
+export function adDraftId(adId: number | null): string {
+  return adId !== null
+    ? `edit-${adId}`
+    : `new-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function adPayloadToForm(payload: AddAdPayload): AdFormState {
+  const { price, ...rest } = payload;
+  return { ...rest, priceText: price === "" ? "" : String(price) };
+}
+
+export function sameAdForm(a: AdFormState, b: AdFormState): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { adSchema, type Ad, type AddAdPayload } from "./ad";
+import {
+  findDuplicateAds,
+  findDuplicateGroups,
+  titleSimilarity,
+} from "./duplicates";
+
+function ad(id: number, over: Record<string, unknown> = {}): Ad {
+  return adSchema.parse({
+    id,
+    userId: 1,
+    type: "UsedSale",
+    title: "هیوندای سوناتا",
+    year: 1398,
+    color: "سفید",
+    mileageKm: 85000,
+    price: 1500,
+    createdAt: "2026-01-01T00:00:00Z",
+    ...over,
+  });
+}
+
+const payload: AddAdPayload = {
+  type: "UsedSale",
+  title: "سوناتا هیوندای",
+  year: 1398,
+  color: "سفید",
+  mileageKm: 86000,
+  insuranceMonths: "",
+  gearbox: "",
+  chassisNumber: "",
+  contactPhone: "09123456789",
+  price: 1500,
+  description: "",
+  photos: [],
+};
+
+describe("titleSimilarity", () => {
+  it("ignores word order, spacing and digit style", () => {
+    expect(titleSimilarity("پژو ۲۰۶", "پژو206")).toBe(1);
+    expect(titleSimilarity("هیوندای سوناتا", "سوناتا هیوندای")).toBeGreaterThan(
+      0.8
+    );
+    expect(titleSimilarity("سوناتا", "هیوندای سوناتا")).toBeGreaterThanOrEqual(
+      0.85
+    );
+    expect(titleSimilarity("پراید", "سوناتا")).toBeLessThan(0.3);
+    expect(titleSimilarity("", "سوناتا")).toBe(0);
+  });
+});
+
+describe("findDuplicateAds", () => {
+  it("matches the same chassis regardless of other fields", () => {
+    const other = ad(1, {
+      title: "پراید",
+      year: 1385,
+      chassisNumber: "ir-x-1234",
+    });
+    const [m] = findDuplicateAds({ ...payload, chassisNumber: "IR-X-1234" }, [
+      other,
+    ]);
+    expect(m.reason).toBe("chassis");
+    expect(m.score).toBe(1);
+  });
+
+  it("matches similar ads of the same year, Jalali or Gregorian", () => {
+    const matches = findDuplicateAds(payload, [
+      ad(1),
+      ad(2, { year: 2019 }),
+      ad(3, { year: 1399 }),
+      ad(4, { title: "پراید" }),
+    ]);
+    expect(matches.map((m) => m.ad.id).sort()).toEqual([1, 2]);
+    expect(matches.every((m) => m.reason === "similar")).toBe(true);
+  });
+
+  it("skips the ad being edited and repeated candidates", () => {
+    expect(findDuplicateAds(payload, [ad(1), ad(1)], null)).toHaveLength(1);
+    expect(findDuplicateAds(payload, [ad(1)], 1)).toEqual([]);
+  });
+
+  it("puts chassis matches before similar ones", () => {
+    const matches = findDuplicateAds(
+      { ...payload, chassisNumber: "AB-12345" },
+      [ad(1), ad(2, { title: "پراید", chassisNumber: "ab-12345" })]
+    );
+    expect(matches.map((m) => m.ad.id)).toEqual([2, 1]);
+  });
+});
+
+describe("findDuplicateGroups", () => {
+  it("groups by chassis and by similarity", () => {
+    const groups = findDuplicateGroups([
+      ad(1),
+      ad(2, { title: "سوناتا" }),
+      ad(3, { title: "پراید", year: 1390, chassisNumber: "AB-12345" }),
+      ad(4, { title: "تیبا", year: 1395, chassisNumber: "ab-12345" }),
+      ad(5, { title: "پژو پارس", year: 1400 }),
+    ]);
+    const summary = groups.map((g) => [g.reason, g.ads.map((a) => a.id)]);
+    expect(summary).toContainEqual(["similar", [1, 2]]);
+    expect(summary).toContainEqual(["chassis", [3, 4]]);
+    expect(groups).toHaveLength(2);
+  });
+
+  it("returns nothing for unique ads", () => {
+    expect(
+      findDuplicateGroups([ad(1), ad(2, { title: "پراید", year: 1390 })])
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+import type { Ad, AddAdPayload } from "./ad";
+import { normalizeSearchText } from "./digits";
+import { toGregorianYear } from "./filters";
+import { normalizeChassis } from "./validation";
+
+// ─────────────────────────────────────────────
+// Duplicate detection (آگهی تکراری)
+// شاسی یکسان = قطعی ؛ نام/سال/رنگ/کارکرد نزدیک = مشابه
+// ─────────────────────────────────────────────
+export type DuplicateReason = "chassis" | "similar";
+
+export type DuplicateMatch = {
+  ad: Ad;
+  reason: DuplicateReason;
+  /** ۰ تا ۱ ؛ برای chassis همیشه ۱ */
+  score: number;
+};
+
+type Probe = Pick<Ad, "title" | "year" | "color" | "mileageKm"> & {
+  chassisNumber?: string;
+};
+
+/** حداقل امتیاز برای «مشابه» */
+export const DUPLICATE_MIN_SCORE = 0.8;
+
+function compact(s: string) {
+  return normalizeSearchText(s).replace(/\s+/g, "");
+}
+
+function bigrams(s: string): Map<string, number> {
+  const out = new Map<string, number>();
+  for (let i = 0; i < s.length - 1; i++) {
+    const g = s.slice(i, i + 2);
+    out.set(g, (out.get(g) ?? 0) + 1);
+  }
+  return out;
+}
+
+/** ضریب Dice روی دوحرفی‌ها (۰ تا ۱)؛ ترتیب کلمات مهم نیست */
+export function titleSimilarity(a: string, b: string): number {
+  const x = compact(a);
+  const y = compact(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  // «سوناتا» داخل «هیوندای سوناتا»
+  const containment =
+    Math.min(x.length, y.length) >= 3 && (x.includes(y) || y.includes(x))
+      ? 0.85
+      : 0;
+  const bx = bigrams(x);
+  const by = bigrams(y);
+  let common = 0;
+  for (const [g, n] of bx) common += Math.min(n, by.get(g) ?? 0);
+  const total = Math.max(x.length - 1, 0) + Math.max(y.length - 1, 0);
+  return Math.max(containment, total ? (2 * common) / total : 0);
+}
+
+function sameColor(a: string, b: string) {
+  const x = compact(a);
+  const y = compact(b);
+  return !!x && !!y && (x === y || x.includes(y) || y.includes(x));
+}
+
+/** اختلاف کمتر از ۵٪ یا ۲۰۰۰ کیلومتر */
+function closeMileage(a: number, b: number) {
+  return Math.abs(a - b) <= Math.max(2000, Math.max(a, b) * 0.05);
+}
+
+function chassisOf(p: Probe) {
+  return p.chassisNumber ? normalizeChassis(p.chassisNumber) : "";
+}
+
+/** null یعنی تکراری نیست */
+function compareProbes(
+  a: Probe,
+  b: Probe
+): { reason: DuplicateReason; score: number } | null {
+  const ca = chassisOf(a);
+  if (ca && ca === chassisOf(b)) return { reason: "chassis", score: 1 };
+
+  // سال باید یکی باشد (شمسی/میلادی فرقی نمی‌کند)
+  if (!a.year || toGregorianYear(a.year) !== toGregorianYear(b.year))
+    return null;
+
+  const title = titleSimilarity(a.title, b.title);
+  if (title < 0.6) return null;
+
+  const score =
+    title * 0.55 +
+    0.15 +
+    (sameColor(a.color, b.color) ? 0.15 : 0) +
+    (closeMileage(a.mileageKm, b.mileageKm) ? 0.15 : 0);
+  return score >= DUPLICATE_MIN_SCORE
+    ? { reason: "similar", score: Math.round(score * 100) / 100 }
+    : null;
+}
+
+function payloadProbe(p: AddAdPayload): Probe {
+  return {
+    title: p.title,
+    year: p.year === "" ? 0 : p.year,
+    color: p.color,
+    mileageKm: p.mileageKm === "" ? 0 : p.mileageKm,
+    chassisNumber: p.chassisNumber,
+  };
+}
+
+/** آگهی‌های مشابه فرم؛ excludeId = آگهی در حال ویرایش */
+export function findDuplicateAds(
+  payload: AddAdPayload,
+  candidates: Ad[],
+  excludeId: number | null = null
+): DuplicateMatch[] {
+  const probe = payloadProbe(payload);
+  const seen = new Set<number>();
+  const out: DuplicateMatch[] = [];
+  for (const ad of candidates) {
+    if (ad.id === excludeId || seen.has(ad.id)) continue;
+    seen.add(ad.id);
+    const m = compareProbes(probe, ad);
+    if (m) out.push({ ad, ...m });
+  }
+  return out.sort((x, y) => y.score - x.score);
+}
+
+export type DuplicateGroup = {
+  reason: DuplicateReason;
+  ads: Ad[];
+};
+
+/**
+ * گزارش ادمین: گروه‌های آگهی تکراری در کل سایت.
+ * مقایسه‌ی فازی فقط داخل آگهی‌های هم‌سال انجام می‌شود.
+ */
+export function findDuplicateGroups(ads: Ad[]): DuplicateGroup[] {
+  const parent = ads.map((_, i) => i);
+  const find = (i: number): number =>
+    parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const chassisLinked = new Set<number>();
+
+  const union = (i: number, j: number, reason: DuplicateReason) => {
+    parent[find(i)] = find(j);
+    if (reason === "chassis") {
+      chassisLinked.add(i);
+      chassisLinked.add(j);
+    }
+  };
+
+  const byYear = new Map<number, number[]>();
+  ads.forEach((ad, i) => {
+    const y = toGregorianYear(ad.year);
+    byYear.set(y, [...(byYear.get(y) ?? []), i]);
+  });
+
+  const byChassis = new Map<string, number>();
+  ads.forEach((ad, i) => {
+    const c = chassisOf(ad);
+    if (!c) return;
+    const first = byChassis.get(c);
+    if (first === undefined) byChassis.set(c, i);
+    else union(i, first, "chassis");
+  });
+
+  for (const idx of byYear.values())
+    for (let a = 0; a < idx.length; a++)
+      for (let b = a + 1; b < idx.length; b++) {
+        const m = compareProbes(ads[idx[a]], ads[idx[b]]);
+        if (m) union(idx[a], idx[b], m.reason);
+      }
+
+  const groups = new Map<number, number[]>();
+  ads.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  });
+
+  return Array.from(groups.values())
+    .filter((g) => g.length > 1)
+    .map((g) => ({
+      reason: g.some((i) => chassisLinked.has(i))
+        ? ("chassis" as const)
+        : ("similar" as const),
+      ads: g.map((i) => ads[i]),
+    }))
+    .sort((x, y) => y.ads.length - x.ads.length);
+}
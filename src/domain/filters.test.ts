@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { adSchema, AD_STATUS_CODES, GEARBOX_CODES, type Ad } from "./ad";
+import {
+  activeFilterCount,
+  EMPTY_AD_FILTERS,
+  filtersFromQuery,
+  filtersToQuery,
+  matchesAdFilters,
+  matchesAdText,
+  toGregorianYear,
+  type AdFilters,
+} from "./filters";
+
+const full: AdFilters = {
+  types: ["UsedSale", "ZeroSale"],
+  yearMin: 1395,
+  yearMax: 1401,
+  priceMin: 500,
+  priceMax: 2500.5,
+  mileageMin: 0,
+  mileageMax: 120000,
+  gearbox: "Automatic",
+  color: "سفید",
+  insuranceMin: 6,
+  showInactive: true,
+};
+
+function ad(over: Partial<Ad> = {}): Ad {
+  return {
+    ...adSchema.parse({
+      id: 1,
+      userId: 1,
+      type: "UsedSale",
+      title: "هیوندای سوناتا",
+      year: 1398,
+      color: "سفید",
+      mileageKm: 85000,
+      price: 1500,
+      createdAt: "2026-01-01T00:00:00Z",
+      gearbox: "Automatic",
+      insuranceMonths: 8,
+    }),
+    ...over,
+  };
+}
+
+describe("filtersToQuery / filtersFromQuery", () => {
+  it("round-trips every filter", () => {
+    expect(filtersFromQuery(filtersToQuery(full))).toEqual(full);
+  });
+
+  it("round-trips empty filters to an empty query", () => {
+    expect(filtersToQuery(EMPTY_AD_FILTERS).toString()).toBe("");
+    expect(filtersFromQuery(new URLSearchParams())).toEqual(EMPTY_AD_FILTERS);
+  });
+
+  it("keeps unrelated params and only touches q when given", () => {
+    const base = new URLSearchParams("q=سوناتا&tab=1&color=قرمز");
+    const params = filtersToQuery(EMPTY_AD_FILTERS, base);
+    expect(params.get("q")).toBe("سوناتا");
+    expect(params.get("tab")).toBe("1");
+    expect(params.has("color")).toBe(false);
+
+    expect(filtersToQuery(EMPTY_AD_FILTERS, base, " ").has("q")).toBe(false);
+    expect(filtersToQuery(EMPTY_AD_FILTERS, undefined, " ۲۰۶ ").get("q")).toBe(
+      "۲۰۶"
+    );
+  });
+
+  it("drops unknown types, gearboxes and bad numbers", () => {
+    const f = filtersFromQuery(
+      new URLSearchParams("type=Foo,ZeroSale&gearbox=CVT&yearMin=abc&kmMax=")
+    );
+    expect(f.types).toEqual(["ZeroSale"]);
+    expect(f.gearbox).toBe("");
+    expect(f.yearMin).toBeNull();
+    expect(f.mileageMax).toBeNull();
+  });
+});
+
+describe("activeFilterCount", () => {
+  it("counts each active filter once", () => {
+    expect(activeFilterCount(EMPTY_AD_FILTERS)).toBe(0);
+    expect(activeFilterCount(full)).toBe(11);
+  });
+});
+
+describe("matchesAdFilters", () => {
+  it("matches an ad inside every range", () => {
+    expect(matchesAdFilters(ad(), full)).toBe(true);
+  });
+
+  it("compares Jalali and Gregorian years on the same scale", () => {
+    expect(toGregorianYear(1401)).toBe(2022);
+    expect(toGregorianYear(2022)).toBe(2022);
+    expect(matchesAdFilters(ad({ year: 2019 }), full)).toBe(true);
+    expect(matchesAdFilters(ad({ year: 2023 }), full)).toBe(false);
+  });
+
+  it("rejects ads outside a range or with another gearbox", () => {
+    expect(matchesAdFilters(ad({ price: 3000 }), full)).toBe(false);
+    expect(matchesAdFilters(ad({ gearbox: GEARBOX_CODES.Manual }), full)).toBe(
+      false
+    );
+    expect(matchesAdFilters(ad({ insuranceMonths: null }), full)).toBe(false);
+  });
+
+  it("hides inactive ads unless asked and never shows archived", () => {
+    const sold = ad({ status: AD_STATUS_CODES.Sold });
+    const archived = ad({ status: AD_STATUS_CODES.Archived });
+    expect(matchesAdFilters(sold, EMPTY_AD_FILTERS)).toBe(false);
+    expect(
+      matchesAdFilters(sold, { ...EMPTY_AD_FILTERS, showInactive: true })
+    ).toBe(true);
+    expect(
+      matchesAdFilters(archived, { ...EMPTY_AD_FILTERS, showInactive: true })
+    ).toBe(false);
+  });
+});
+
+describe("matchesAdText", () => {
+  it("matches title, color and year with Persian digits", () => {
+    expect(matchesAdText(ad(), "سوناتا")).toBe(true);
+    expect(matchesAdText(ad(), "۱۳۹۸")).toBe(true);
+    expect(matchesAdText(ad(), "پراید")).toBe(false);
+    expect(matchesAdText(ad(), "  ")).toBe(true);
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  CAR_AD_TYPES,
+  CAR_AD_TYPE_CODES,
+  CAR_AD_TYPE_LABELS,
+  GEARBOX_CODES,
+  GEARBOX_LABELS,
+  GEARBOX_TYPES,
+  carAdTypeLabel,
+  type Ad,
+  type CarAdType,
+  type GearboxType,
+} from "./ad";
+import { normalizeSearchText, searchIncludes } from "./digits";
+import { adStatus } from "./lifecycle";
+
+// ─────────────────────────────────────────────
+// فیلترهای فید آگهی (قابل اشتراک از طریق query string)
+// ─────────────────────────────────────────────
+export type AdFilters = {
+  types: CarAdType[];
+  /** سال شمسی یا میلادی؛ مقایسه روی معادل میلادی انجام می‌شود */
+  yearMin: number | null;
+  yearMax: number | null;
+  /** بر اساس میلیون تومان */
+  priceMin: number | null;
+  priceMax: number | null;
+  mileageMin: number | null;
+  mileageMax: number | null;
+  gearbox: GearboxType | "";
+  color: string;
+  insuranceMin: number | null;
+  /** آگهی‌های فروخته‌شده و منقضی هم نمایش داده شوند (بایگانی هرگز) */
+  showInactive: boolean;
+};
+
+export const EMPTY_AD_FILTERS: AdFilters = {
+  types: [],
+  yearMin: null,
+  yearMax: null,
+  priceMin: null,
+  priceMax: null,
+  mileageMin: null,
+  mileageMax: null,
+  gearbox: "",
+  color: "",
+  insuranceMin: null,
+  showInactive: false,
+};
+
+type RangeKey = Exclude<
+  keyof AdFilters,
+  "types" | "gearbox" | "color" | "showInactive"
+>;
+
+// کلیدهای query string
+const QUERY_KEYS: Record<RangeKey, string> = {
+  yearMin: "yearMin",
+  yearMax: "yearMax",
+  priceMin: "priceMin",
+  priceMax: "priceMax",
+  mileageMin: "kmMin",
+  mileageMax: "kmMax",
+  insuranceMin: "insMin",
+};
+
+/** 1401 → 2022 ؛ سال‌های بزرگ‌تر از 1700 میلادی فرض می‌شوند */
+export function toGregorianYear(year: number): number {
+  return year > 0 && year < 1700 ? year + 621 : year;
+}
+
+function inRange(v: number, min: number | null, max: number | null) {
+  return (min === null || v >= min) && (max === null || v <= max);
+}
+
+export function matchesAdFilters(ad: Ad, f: AdFilters): boolean {
+  const status = adStatus(ad);
+  if (status === "Archived") return false;
+  if (!f.showInactive && status !== "Active") return false;
+
+  if (f.types.length && !f.types.some((t) => CAR_AD_TYPE_CODES[t] === ad.type))
+    return false;
+
+  const year = toGregorianYear(ad.year);
+  if (
+    !inRange(
+      year,
+      f.yearMin === null ? null : toGregorianYear(f.yearMin),
+      f.yearMax === null ? null : toGregorianYear(f.yearMax)
+    )
+  )
+    return false;
+
+  if (!inRange(ad.price, f.priceMin, f.priceMax)) return false;
+  if (!inRange(ad.mileageKm, f.mileageMin, f.mileageMax)) return false;
+  if (f.gearbox && ad.gearbox !== GEARBOX_CODES[f.gearbox]) return false;
+
+  if (f.color.trim() && !searchIncludes(ad.color, f.color)) return false;
+
+  if (f.insuranceMin !== null && (ad.insuranceMonths ?? 0) < f.insuranceMin)
+    return false;
+
+  return true;
+}
+
+/** جستجوی متنی ساده روی نام، رنگ، سال و نوع آگهی */
+export function matchesAdText(ad: Ad, q: string): boolean {
+  if (!normalizeSearchText(q)) return true;
+  return [ad.title, ad.color, String(ad.year), carAdTypeLabel(ad.type)].some(
+    (field) => searchIncludes(field, q)
+  );
+}
+
+export function activeFilterCount(f: AdFilters): number {
+  let n = f.types.length ? 1 : 0;
+  if (f.gearbox) n++;
+  if (f.color.trim()) n++;
+  if (f.showInactive) n++;
+  for (const key of Object.keys(QUERY_KEYS) as RangeKey[])
+    if (f[key] !== null) n++;
+  return n;
+}
+
+function numParam(v: string | null): number | null {
+  if (v === null || v.trim() === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function filtersFromQuery(params: URLSearchParams): AdFilters {
+  const f: AdFilters = { ...EMPTY_AD_FILTERS };
+
+  f.types = (params.get("type") ?? "")
+    .split(",")
+    .filter((t): t is CarAdType => CAR_AD_TYPES.includes(t as CarAdType));
+
+  const gearbox = params.get("gearbox") ?? "";
+  f.gearbox = GEARBOX_TYPES.includes(gearbox as GearboxType)
+    ? (gearbox as GearboxType)
+    : "";
+
+  f.color = params.get("color") ?? "";
+  f.showInactive = params.get("inactive") === "1";
+
+  for (const key of Object.keys(QUERY_KEYS) as RangeKey[])
+    f[key] = numParam(params.get(QUERY_KEYS[key]));
+
+  return f;
+}
+
+/**
+ * فقط کلیدهای فیلتر را عوض می‌کند؛ بقیه‌ی پارامترها دست نمی‌خورند.
+ * q فقط وقتی داده شود (برای درخواست سرور/لینک جستجو) ست می‌شود.
+ */
+export function filtersToQuery(
+  f: AdFilters,
+  base?: URLSearchParams,
+  q?: string
+): URLSearchParams {
+  const params = new URLSearchParams(base);
+  const set = (key: string, v: string) =>
+    v ? params.set(key, v) : params.delete(key);
+
+  if (q !== undefined) set("q", q.trim());
+
+  set("type", f.types.join(","));
+  set("gearbox", f.gearbox);
+  set("color", f.color.trim());
+  set("inactive", f.showInactive ? "1" : "");
+  for (const key of Object.keys(QUERY_KEYS) as RangeKey[])
+    set(QUERY_KEYS[key], f[key] === null ? "" : String(f[key]));
+
+  return params;
+}
+
+function rangeText(
+  min: number | null,
+  max: number | null,
+  unit = ""
+): string | null {
+  const u = unit ? ` ${unit}` : "";
+  if (min !== null && max !== null) return `${min}–${max}${u}`;
+  if (max !== null) return `زیر ${max}${u}`;
+  if (min !== null) return `از ${min}${u}`;
+  return null;
+}
+
+/** خلاصه‌ی خوانا، مثلاً «سوناتا، 1398–1401، زیر 1500 میلیون، اتومات» */
+export function describeAdSearch(q: string, f: AdFilters): string {
+  const parts = [
+    q.trim() || null,
+    f.types.map((t) => CAR_AD_TYPE_LABELS[t]).join("/") || null,
+    rangeText(f.yearMin, f.yearMax),
+    rangeText(f.priceMin, f.priceMax, "میلیون"),
+    rangeText(f.mileageMin, f.mileageMax, "km"),
+    f.gearbox ? GEARBOX_LABELS[f.gearbox] : null,
+    f.color.trim() || null,
+    f.insuranceMin !== null ? `بیمه حداقل ${f.insuranceMin} ماه` : null,
+    f.showInactive ? "با فروخته/منقضی" : null,
+  ];
+  return parts.filter(Boolean).join("، ") || "همه آگهی‌ها";
+}
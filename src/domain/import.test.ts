@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+  adImportErrorReport,
+  adImportSampleTable,
+  buildImportRows,
+  guessImportColumns,
+  importRowValid,
+  parseImportGearbox,
+  parseImportType,
+} from "./import";
+
+const header = [
+  "نام خودرو",
+  "سال ساخت",
+  "رنگ",
+  "کارکرد (کیلومتر)",
+  "Gearbox",
+  "شماره شاسی",
+  "موبایل",
+  "قیمت",
+  "ستون اضافه",
+];
+
+const row = [
+  "پژو ۲۰۶",
+  "۱۳۹۸",
+  "سفید",
+  "۴۰٬۰۰۰",
+  "دنده‌ای",
+  "IR-CHS-12345",
+  "+98 912 345 6789",
+  "۴۵۰ میلیون",
+  "x",
+];
+
+describe("guessImportColumns", () => {
+  it("maps Persian and English headers and ignores unknown ones", () => {
+    expect(guessImportColumns(header)).toEqual([
+      "title",
+      "year",
+      "color",
+      "mileageKm",
+      "gearbox",
+      "chassisNumber",
+      "contactPhone",
+      "price",
+      null,
+    ]);
+  });
+
+  it("uses each field once", () => {
+    expect(guessImportColumns(["title", "name"])).toEqual(["title", null]);
+  });
+
+  it("recognizes the sample file", () => {
+    const [sampleHeader] = adImportSampleTable();
+    expect(guessImportColumns(sampleHeader)).not.toContain(null);
+  });
+});
+
+describe("enum cells", () => {
+  it("reads type and gearbox by label, key, code or keyword", () => {
+    expect(parseImportType("صفر")).toBe("ZeroSale");
+    expect(parseImportType("BuyRequest")).toBe("BuyRequest");
+    expect(parseImportType("؟")).toBeNull();
+    expect(parseImportGearbox("اتوماتیک")).toBe("Automatic");
+    expect(parseImportGearbox("2")).toBe("Manual");
+    expect(parseImportGearbox("CVT")).toBeNull();
+  });
+});
+
+describe("buildImportRows", () => {
+  const columns = guessImportColumns(header);
+
+  it("builds a normalized payload from a valid row", () => {
+    const [r] = buildImportRows([header, row], columns);
+    expect(r.line).toBe(2);
+    expect(importRowValid(r)).toBe(true);
+    expect(r.payload).toMatchObject({
+      type: "UsedSale",
+      title: "پژو ۲۰۶",
+      year: 1398,
+      mileageKm: 40000,
+      gearbox: "Manual",
+      contactPhone: "+989123456789",
+      price: 450,
+    });
+  });
+
+  it("skips empty rows but keeps file line numbers", () => {
+    const rows = buildImportRows([header, ["", " "], row], columns);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].line).toBe(3);
+  });
+
+  it("reports unknown enums, bad numbers and prices", () => {
+    const bad = [...row];
+    bad[1] = "سال؟";
+    bad[4] = "CVT";
+    bad[7] = "گران";
+    const [r] = buildImportRows([header, bad], columns);
+    expect(Object.keys(r.errors).sort()).toEqual(["gearbox", "price", "year"]);
+    expect(r.errors.gearbox).toMatch(/CVT/);
+  });
+
+  it("flags a chassis repeated inside the file", () => {
+    const again = [...row];
+    again[5] = "ir-chs-12345";
+    const rows = buildImportRows([header, row, again], columns);
+    expect(rows[0].errors.chassisNumber).toBeUndefined();
+    expect(rows[1].errors.chassisNumber).toMatch(/ردیف ۲/);
+  });
+});
+
+describe("adImportErrorReport", () => {
+  const columns = guessImportColumns(header);
+
+  it("lists one line per error plus server errors", () => {
+    const bad = [...row];
+    bad[4] = "CVT";
+    const other = [...row];
+    other[5] = "IR-CHS-99999";
+    const rows = buildImportRows([header, bad, other], columns);
+    const report = adImportErrorReport(rows, { 3: "خطای سرور" });
+    expect(report).toEqual([
+      ["ردیف", "نام خودرو", "فیلد", "خطا"],
+      ["2", "پژو ۲۰۶", "گیربکس", "گیربکس «CVT» شناخته نشد"],
+      ["3", "پژو ۲۰۶", "ثبت در سرور", "خطای سرور"],
+    ]);
+  });
+
+  it("escapes cells that a spreadsheet would run as formulas", () => {
+    const bad = [...row];
+    bad[0] = '=HYPERLINK("http://x")';
+    bad[4] = "CVT";
+    const rows = buildImportRows([header, bad], columns);
+    const report = adImportErrorReport(rows, { 2: "@SUM(A1)" });
+    expect(report[1][1]).toBe('\'=HYPERLINK("http://x")');
+    expect(report[2][3]).toBe("'@SUM(A1)");
+  });
+});
@@ -0,0 +1,283 @@
+import {
+  CAR_AD_TYPES,
+  CAR_AD_TYPE_CODES,
+  CAR_AD_TYPE_LABELS,
+  GEARBOX_TYPES,
+  GEARBOX_CODES,
+  GEARBOX_LABELS,
+  type AddAdPayload,
+  type CarAdType,
+  type GearboxType,
+} from "./ad";
+import {
+  normalizePhoneInput,
+  normalizeSearchText,
+  parseNumberInput,
+  toEnDigits,
+} from "./digits";
+import { parsePriceText } from "./money";
+import {
+  AD_FIELD_RULES,
+  normalizeChassis,
+  validateAdPayload,
+  type AdFieldKey,
+} from "./validation";
+
+// ─────────────────────────────────────────────
+// Bulk import (ورود آگهی از CSV/اکسل)
+// ستون‌ها → AddAdPayload ، اعتبارسنجی مثل فرم ثبت
+// ─────────────────────────────────────────────
+export type AdImportField = Exclude<keyof AddAdPayload, "photos">;
+
+export const AD_IMPORT_FIELDS: AdImportField[] = [
+  "type",
+  "title",
+  "year",
+  "color",
+  "mileageKm",
+  "insuranceMonths",
+  "gearbox",
+  "chassisNumber",
+  "contactPhone",
+  "price",
+  "description",
+];
+
+export const AD_IMPORT_FIELD_LABELS: Record<AdImportField, string> = {
+  ...(Object.fromEntries(
+    (Object.keys(AD_FIELD_RULES) as AdFieldKey[]).map((k) => [
+      k,
+      AD_FIELD_RULES[k].label,
+    ])
+  ) as Record<AdFieldKey, string>),
+  type: "نوع آگهی",
+  gearbox: "گیربکس",
+};
+
+/** نام ستون‌ها (بعد از حذف فاصله/علائم)؛ فارسی و انگلیسی */
+const HEADER_ALIASES: Record<AdImportField, string[]> = {
+  type: ["type", "adtype", "نوع", "نوعآگهی", "دسته"],
+  title: ["title", "name", "car", "model", "نام", "نامخودرو", "عنوان", "خودرو"],
+  year: ["year", "سال", "سالساخت", "مدلسال"],
+  color: ["color", "colour", "رنگ"],
+  mileageKm: [
+    "mileage",
+    "mileagekm",
+    "km",
+    "کارکرد",
+    "کیلومتر",
+    "کارکردکیلومتر",
+  ],
+  insuranceMonths: [
+    "insurance",
+    "insurancemonths",
+    "بیمه",
+    "مهلتبیمه",
+    "مهلتبیمهماه",
+  ],
+  gearbox: ["gearbox", "transmission", "گیربکس", "دنده"],
+  chassisNumber: ["chassis", "chassisnumber", "vin", "شاسی", "شمارهشاسی"],
+  contactPhone: [
+    "phone",
+    "contactphone",
+    "mobile",
+    "tel",
+    "تلفن",
+    "موبایل",
+    "تماس",
+    "شمارهتماس",
+    "شمارهموبایل",
+  ],
+  price: ["price", "قیمت", "قیمتمیلیونتومان", "مبلغ"],
+  description: ["description", "desc", "notes", "توضیحات", "شرح"],
+};
+
+function headerKey(h: string): string {
+  return normalizeSearchText(h).replace(/[\s_\-.:()*/]/g, "");
+}
+
+/** ستون i → فیلد (یا null = نادیده)؛ هر فیلد فقط یک بار */
+export function guessImportColumns(
+  headers: string[]
+): (AdImportField | null)[] {
+  const used = new Set<AdImportField>();
+  return headers.map((h) => {
+    const key = headerKey(h);
+    const field = AD_IMPORT_FIELDS.find(
+      (f) => !used.has(f) && HEADER_ALIASES[f].includes(key)
+    );
+    if (!field) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+function matchEnum<K extends string>(
+  raw: string,
+  keys: K[],
+  codes: Record<K, number>,
+  labels: Record<K, string>,
+  extra: [string, K][]
+): K | null {
+  const s = headerKey(raw);
+  if (!s) return null;
+  if (/^\d+$/.test(s)) return keys.find((k) => codes[k] === Number(s)) ?? null;
+  const exact = keys.find(
+    (k) => k.toLowerCase() === s || headerKey(labels[k]) === s
+  );
+  if (exact) return exact;
+  return extra.find(([word]) => s.includes(word))?.[1] ?? null;
+}
+
+export function parseImportType(raw: string): CarAdType | null {
+  return matchEnum(raw, CAR_AD_TYPES, CAR_AD_TYPE_CODES, CAR_AD_TYPE_LABELS, [
+    ["همکاری", "CoopSale"],
+    ["خرید", "BuyRequest"],
+    ["صفر", "ZeroSale"],
+    ["کارکرده", "UsedSale"],
+    ["used", "UsedSale"],
+  ]);
+}
+
+export function parseImportGearbox(raw: string): GearboxType | null {
+  return matchEnum(raw, GEARBOX_TYPES, GEARBOX_CODES, GEARBOX_LABELS, [
+    ["اتومات", "Automatic"],
+    ["auto", "Automatic"],
+    ["دنده", "Manual"],
+    ["دستی", "Manual"],
+  ]);
+}
+
+export type AdImportErrors = Partial<Record<AdImportField, string>>;
+
+export type AdImportRow = {
+  /** شماره ردیف در فایل (سرستون = ۱) */
+  line: number;
+  payload: AddAdPayload;
+  errors: AdImportErrors;
+};
+
+function cellOf(
+  cells: string[],
+  columns: (AdImportField | null)[],
+  field: AdImportField
+): string {
+  const i = columns.indexOf(field);
+  return i >= 0 ? (cells[i] ?? "").trim() : "";
+}
+
+/** ردیف‌های داده (بدون سرستون)؛ ردیف‌های کاملاً خالی رد می‌شوند */
+export function buildImportRows(
+  table: string[][],
+  columns: (AdImportField | null)[]
+): AdImportRow[] {
+  const out: AdImportRow[] = [];
+  const chassisLines = new Map<string, number>();
+
+  table.slice(1).forEach((cells, idx) => {
+    if (cells.every((c) => !c?.trim())) return;
+    const get = (f: AdImportField) => cellOf(cells, columns, f);
+
+    const typeText = get("type");
+    const gearboxText = get("gearbox");
+    const priceText = get("price");
+    const type = typeText ? parseImportType(typeText) : "UsedSale";
+    const gearbox = gearboxText ? parseImportGearbox(gearboxText) : "";
+
+    const payload: AddAdPayload = {
+      type: type ?? "UsedSale",
+      title: get("title"),
+      year: parseNumberInput(get("year")) ?? "",
+      color: get("color"),
+      mileageKm: parseNumberInput(get("mileageKm")) ?? "",
+      insuranceMonths: parseNumberInput(get("insuranceMonths")) ?? "",
+      gearbox: gearbox ?? "",
+      chassisNumber: toEnDigits(get("chassisNumber")),
+      contactPhone: normalizePhoneInput(get("contactPhone")),
+      price: parsePriceText(priceText) ?? "",
+      description: get("description"),
+      photos: [],
+    };
+
+    const errors: AdImportErrors = validateAdPayload(payload);
+    if (type === null) errors.type = `نوع آگهی «${typeText}» شناخته نشد`;
+    if (gearbox === null) errors.gearbox = `گیربکس «${gearboxText}» شناخته نشد`;
+    if (priceText && parsePriceText(priceText) === null)
+      errors.price = "قیمت معتبر نیست";
+    for (const f of ["year", "mileageKm", "insuranceMonths"] as const)
+      if (get(f) && payload[f] === "")
+        errors[f] = `${AD_IMPORT_FIELD_LABELS[f]} باید عدد باشد`;
+
+    const line = idx + 2;
+    const chassis = normalizeChassis(payload.chassisNumber);
+    if (chassis && !errors.chassisNumber) {
+      const first = chassisLines.get(chassis);
+      if (first !== undefined)
+        errors.chassisNumber = `شماره شاسی با ردیف ${first.toLocaleString(
+          "fa-IR"
+        )} تکراری است`;
+      else chassisLines.set(chassis, line);
+    }
+
+    out.push({ line, payload, errors });
+  });
+  return out;
+}
+
+export function importRowValid(row: AdImportRow): boolean {
+  return Object.keys(row.errors).length === 0;
+}
+
+/** فایل نمونه با سرستون‌های فارسی */
+export function adImportSampleTable(): string[][] {
+  return [
+    AD_IMPORT_FIELDS.map((f) => AD_IMPORT_FIELD_LABELS[f]),
+    [
+      CAR_AD_TYPE_LABELS.UsedSale,
+      "هیوندای سوناتا",
+      "1397",
+      "سفید",
+      "85000",
+      "6",
+      GEARBOX_LABELS.Automatic,
+      "IR-CHS-12345",
+      "09123456789",
+      "۲ میلیارد و ۵۰۰",
+      "بدون رنگ",
+    ],
+  ];
+}
+
+/** جلوگیری از formula injection: متنی که با = + - @ شروع شود در اکسل فرمول اجرا می‌شود */
+function safeCell(v: string): string {
+  return /^[=+\-@\t\r]/.test(v) ? `'${v}` : v;
+}
+
+/** گزارش خطا: هر خطا یک خط؛ serverErrors = خطای ثبت بر اساس شماره ردیف */
+export function adImportErrorReport(
+  rows: AdImportRow[],
+  serverErrors: Record<number, string> = {}
+): string[][] {
+  const report: string[][] = [["ردیف", "نام خودرو", "فیلد", "خطا"]];
+  for (const row of rows) {
+    for (const f of AD_IMPORT_FIELDS) {
+      const err = row.errors[f];
+      if (err)
+        report.push([
+          String(row.line),
+          safeCell(row.payload.title),
+          AD_IMPORT_FIELD_LABELS[f],
+          safeCell(err),
+        ]);
+    }
+    const server = serverErrors[row.line];
+    if (server)
+      report.push([
+        String(row.line),
+        safeCell(row.payload.title),
+        "ثبت در سرور",
+        safeCell(server),
+      ]);
+  }
+  return report;
+}
@@ -0,0 +1,22 @@
+export * from "./ad";
+export * from "./analytics";
+export * from "./bio";
+export * from "./bulk";
+export * from "./digits";
+export * from "./compare";
+export * from "./draft";
+export * from "./duplicates";
+export * from "./filters";
+export * from "./import";
+export * from "./lifecycle";
+export * from "./money";
+export * from "./photo";
+export * from "./presence";
+export * from "./savedSearch";
+export * from "./telegram";
+export * from "./template";
+export * from "./user";
+export * from "./watchlist";
+export * from "./schema";
+export * from "./sort";
+export * from "./validation";
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { adSchema, AD_STATUS_CODES, type Ad } from "./ad";
+import {
+  AD_EXPIRY_DAYS,
+  adExpiresAt,
+  adStatus,
+  applyLifecycle,
+  daysUntilExpiry,
+} from "./lifecycle";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2026-06-01T00:00:00Z");
+const iso = (ms: number) => new Date(ms).toISOString();
+
+function ad(over: Record<string, unknown> = {}): Ad {
+  return adSchema.parse({
+    id: 1,
+    userId: 1,
+    type: "UsedSale",
+    title: "پژو ۲۰۶",
+    year: 1398,
+    color: "سفید",
+    mileageKm: 40000,
+    price: 500,
+    createdAt: iso(NOW - 400 * DAY),
+    ...over,
+  });
+}
+
+describe("adExpiresAt", () => {
+  it("prefers the server expiresAt", () => {
+    const at = NOW + 3 * DAY;
+    expect(adExpiresAt(ad({ expiresAt: iso(at) }), -Infinity)).toBe(at);
+  });
+
+  it("never expires an old ad that was not renewed", () => {
+    expect(adExpiresAt(ad())).toBe(Infinity);
+    expect(adExpiresAt(ad(), NOW)).toBe(Infinity);
+  });
+
+  it("counts the period from renewedAt", () => {
+    const renewed = NOW - 5 * DAY;
+    expect(adExpiresAt(ad({ renewedAt: iso(renewed) }), Infinity, 30)).toBe(
+      renewed + 30 * DAY
+    );
+  });
+
+  it("counts from createdAt only for ads created after the cutoff", () => {
+    const created = NOW - 10 * DAY;
+    const a = ad({ createdAt: iso(created) });
+    expect(adExpiresAt(a, created - DAY, 7)).toBe(created + 7 * DAY);
+    expect(adExpiresAt(a, created + DAY, 7)).toBe(Infinity);
+  });
+});
+
+describe("adStatus", () => {
+  it("treats a missing status as active", () => {
+    expect(adStatus(ad(), NOW)).toBe("Active");
+  });
+
+  it("expires an active ad past its server expiry", () => {
+    expect(adStatus(ad({ expiresAt: iso(NOW - 1) }), NOW)).toBe("Expired");
+    expect(adStatus(ad({ expiresAt: iso(NOW + DAY) }), NOW)).toBe("Active");
+  });
+
+  it("keeps sold and archived ads as they are", () => {
+    const past = iso(NOW - DAY);
+    expect(
+      adStatus(ad({ status: AD_STATUS_CODES.Sold, expiresAt: past }), NOW)
+    ).toBe("Sold");
+    expect(adStatus(ad({ status: "Archived" }), NOW)).toBe("Archived");
+  });
+
+  it("uses the server status for expired ads", () => {
+    expect(adStatus(ad({ status: AD_STATUS_CODES.Expired }), NOW)).toBe(
+      "Expired"
+    );
+  });
+});
+
+describe("daysUntilExpiry", () => {
+  it("rounds up and never goes below zero", () => {
+    expect(daysUntilExpiry(ad({ expiresAt: iso(NOW + 1.2 * DAY) }), NOW)).toBe(
+      2
+    );
+    expect(daysUntilExpiry(ad({ expiresAt: iso(NOW - DAY) }), NOW)).toBe(0);
+    expect(daysUntilExpiry(ad(), NOW)).toBeNull();
+  });
+});
+
+describe("applyLifecycle", () => {
+  const now = new Date(NOW);
+
+  it("marks sold with the final price", () => {
+    const sold = applyLifecycle(ad(), "sold", 480, now);
+    expect(adStatus(sold, NOW)).toBe("Sold");
+    expect(sold.soldPrice).toBe(480);
+  });
+
+  it("archives", () => {
+    expect(adStatus(applyLifecycle(ad(), "archive", null, now), NOW)).toBe(
+      "Archived"
+    );
+  });
+
+  it("renews an expired ad for a new period", () => {
+    const expired = ad({ expiresAt: iso(NOW - DAY) });
+    const renewed = applyLifecycle(expired, "renew", null, now);
+    expect(adStatus(renewed, NOW)).toBe("Active");
+    expect(renewed.expiresAt).toBeUndefined();
+    expect(daysUntilExpiry(renewed, NOW)).toBe(AD_EXPIRY_DAYS);
+  });
+});
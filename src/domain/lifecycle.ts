@@ -0,0 +1,87 @@
+import {
+  AD_STATUS_CODES,
+  adStatusFromCode,
+  type Ad,
+  type AdStatus,
+} from "./ad";
+
+// ─────────────────────────────────────────────
+// Ad lifecycle (فعال → فروخته/منقضی → بایگانی)
+// ─────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** مدت اعتبار آگهی (روز)؛ با NEXT_PUBLIC_AD_EXPIRY_DAYS */
+export const AD_EXPIRY_DAYS =
+  Number(process.env.NEXT_PUBLIC_AD_EXPIRY_DAYS) || 30;
+
+/**
+ * شروع طرح انقضا (NEXT_PUBLIC_AD_EXPIRY_SINCE، تاریخ ISO)؛
+ * آگهی‌های ثبت‌شده قبل از آن فقط بعد از اولین تمدید منقضی می‌شوند
+ */
+export const AD_EXPIRY_SINCE =
+  Date.parse(process.env.NEXT_PUBLIC_AD_EXPIRY_SINCE ?? "") || Infinity;
+
+/**
+ * زمان انقضا: expiresAt سرور اگر باشد؛ وگرنه AD_EXPIRY_DAYS از renewedAt،
+ * یا از createdAt برای آگهی‌های ثبت‌شده بعد از AD_EXPIRY_SINCE.
+ * آگهی قدیمیِ تمدیدنشده هرگز خودکار منقضی نمی‌شود (Infinity).
+ */
+export function adExpiresAt(
+  ad: Ad,
+  since: number = AD_EXPIRY_SINCE,
+  days: number = AD_EXPIRY_DAYS
+): number {
+  const server = ad.expiresAt ? Date.parse(ad.expiresAt) : NaN;
+  if (Number.isFinite(server)) return server;
+
+  const renewed = ad.renewedAt ? Date.parse(ad.renewedAt) : NaN;
+  const created = Date.parse(ad.createdAt);
+  const start = Number.isFinite(renewed)
+    ? renewed
+    : created >= since
+    ? created
+    : NaN;
+  return Number.isFinite(start) ? start + days * DAY_MS : Infinity;
+}
+
+/**
+ * وضعیت مؤثر: status سرور (نبود status = فعال)؛
+ * آگهی فعالی که زمان انقضایش (adExpiresAt) گذشته منقضی حساب می‌شود
+ */
+export function adStatus(ad: Ad, now = Date.now()): AdStatus {
+  const status = adStatusFromCode(ad.status);
+  if (status === "Active" && adExpiresAt(ad) <= now) return "Expired";
+  return status;
+}
+
+/** روزهای باقی‌مانده تا انقضا (برای آگهی فعال)؛ null یعنی نامشخص */
+export function daysUntilExpiry(ad: Ad, now = Date.now()): number | null {
+  const at = adExpiresAt(ad);
+  if (!Number.isFinite(at)) return null;
+  return Math.max(0, Math.ceil((at - now) / DAY_MS));
+}
+
+export type AdLifecycleAction = "sold" | "renew" | "archive";
+
+/** وضعیت محلی بعد از موفقیت درخواست (تا رسیدن MyCarAdUpdated) */
+export function applyLifecycle(
+  ad: Ad,
+  action: AdLifecycleAction,
+  soldPrice: number | null = null,
+  now = new Date()
+): Ad {
+  switch (action) {
+    case "sold":
+      return { ...ad, status: AD_STATUS_CODES.Sold, soldPrice };
+    case "archive":
+      return { ...ad, status: AD_STATUS_CODES.Archived };
+    case "renew":
+      return {
+        ...ad,
+        status: AD_STATUS_CODES.Active,
+        renewedAt: now.toISOString(),
+        expiresAt: undefined,
+      };
+  }
+}
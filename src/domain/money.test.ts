@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { parsePriceText, priceToCompact, priceToText } from "./money";
+
+describe("priceToText", () => {
+  it("splits into billion / million / thousand", () => {
+    expect(priceToText(2500.5)).toBe("۲ میلیارد و ۵۰۰ میلیون و ۵۰۰ هزار تومان");
+    expect(priceToText(80)).toBe("۸۰ میلیون تومان");
+    expect(priceToText(1000)).toBe("۱ میلیارد تومان");
+    expect(priceToText(0.5)).toBe("۵۰۰ هزار تومان");
+  });
+
+  it("carries after rounding to thousands", () => {
+    expect(priceToText(120.9996)).toBe("۱۲۱ میلیون تومان");
+    expect(priceToText(999.9999)).toBe("۱ میلیارد تومان");
+  });
+
+  it("uses separators for large parts", () => {
+    expect(priceToText(1_234_000)).toBe("۱٬۲۳۴ میلیارد تومان");
+  });
+
+  it("returns empty for 0, negative and invalid input", () => {
+    expect(priceToText(0)).toBe("—");
+    expect(priceToText(-5)).toBe("—");
+    expect(priceToText(NaN)).toBe("—");
+    expect(priceToText(Infinity, "")).toBe("");
+    expect(priceToText(0.0001)).toBe("—");
+  });
+});
+
+describe("priceToCompact", () => {
+  it("picks the unit by size", () => {
+    expect(priceToCompact(2500)).toBe("۲٫۵ میلیارد");
+    expect(priceToCompact(120.5)).toBe("۱۲۰٫۵ میلیون");
+    expect(priceToCompact(0.5)).toBe("۵۰۰ هزار");
+  });
+
+  it("handles unit boundaries", () => {
+    expect(priceToCompact(1)).toBe("۱ میلیون");
+    expect(priceToCompact(1000)).toBe("۱ میلیارد");
+    expect(priceToCompact(999.9)).toBe("۹۹۹٫۹ میلیون");
+    expect(priceToCompact(0.999)).toBe("۹۹۹ هزار");
+  });
+
+  it("rounds before choosing the unit", () => {
+    expect(priceToCompact(999.9999)).toBe("۱ میلیارد");
+    expect(priceToCompact(999.96)).toBe("۱ میلیارد");
+    expect(priceToCompact(0.9996)).toBe("۱ میلیون");
+  });
+
+  it("uses separators for large values", () => {
+    expect(priceToCompact(1_234_000)).toBe("۱٬۲۳۴ میلیارد");
+  });
+
+  it("returns empty for 0, negative and invalid input", () => {
+    expect(priceToCompact(0)).toBe("—");
+    expect(priceToCompact(-1)).toBe("—");
+    expect(priceToCompact(NaN, "")).toBe("");
+  });
+});
+
+describe("parsePriceText", () => {
+  it("reads plain numbers as millions", () => {
+    expect(parsePriceText("80")).toBe(80);
+    expect(parsePriceText("120.5")).toBe(120.5);
+  });
+
+  it("reads Persian and Arabic digits", () => {
+    expect(parsePriceText("۱۲۰٫۵")).toBe(120.5);
+    expect(parsePriceText("١٢٠")).toBe(120);
+    expect(parsePriceText("۲ میلیارد و ۵۰۰")).toBe(2500);
+  });
+
+  it("strips thousand separators", () => {
+    expect(parsePriceText("1,500")).toBe(1500);
+    expect(parsePriceText("۱٬۵۰۰ میلیون")).toBe(1500);
+    expect(parsePriceText("۱،۵۰۰")).toBe(1500);
+  });
+
+  it("reads units and the toman suffix", () => {
+    expect(parsePriceText("۲.۵ میلیارد")).toBe(2500);
+    expect(parsePriceText("۱۲۰ میلیون و ۵۰۰ هزار تومان")).toBe(120.5);
+    expect(parsePriceText("۵۰۰ هزار")).toBe(0.5);
+    expect(parsePriceText("۱ میلیارد و ۲۰۰ میلیون و ۳۰۰")).toBe(1200.3);
+  });
+
+  it("reads 0", () => {
+    expect(parsePriceText("0")).toBe(0);
+    expect(parsePriceText("۰ میلیون")).toBe(0);
+  });
+
+  it("rejects invalid input", () => {
+    expect(parsePriceText("")).toBeNull();
+    expect(parsePriceText("  ")).toBeNull();
+    expect(parsePriceText("تومان")).toBeNull();
+    expect(parsePriceText("abc")).toBeNull();
+    expect(parsePriceText("۱۲ abc")).toBeNull();
+    expect(parsePriceText("۵۰۰ میلیون و ۲ میلیارد")).toBeNull();
+    expect(parsePriceText("۱ هزار ۲")).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { toEnDigits } from "./digits";
+
+// ─────────────────────────────────────────────
+// Money (قیمت‌ها بر اساس میلیون تومان)
+// ─────────────────────────────────────────────
+export type MoneyParts = { billion: number; million: number; thousand: number };
+
+/**
+ * تفکیک به میلیارد/میلیون/هزار.
+ * روی «هزار تومان» رُند می‌شود، پس 120.9996 → ۱۲۱ میلیون (نه ۱۰۰۰ هزار)
+ */
+export function splitMillion(millionVal: number): MoneyParts {
+  const thousands = Math.round(Math.abs(millionVal) * 1000);
+  return {
+    billion: Math.floor(thousands / 1_000_000),
+    million: Math.floor((thousands % 1_000_000) / 1000),
+    thousand: thousands % 1000,
+  };
+}
+
+const faNum = (x: number, digits = 0) =>
+  x.toLocaleString("fa-IR", { maximumFractionDigits: digits });
+
+/**
+ * 2500.5 → «۲ میلیارد و ۵۰۰ میلیون و ۵۰۰ هزار تومان»
+ * 0 یا نامعتبر → empty (پیش‌فرض «—»)
+ */
+export function priceToText(millionVal: number, empty = "—"): string {
+  const n = Number(millionVal);
+  if (!Number.isFinite(n) || n <= 0) return empty;
+
+  const { billion, million, thousand } = splitMillion(n);
+  const parts: string[] = [];
+  if (billion > 0) parts.push(`${faNum(billion)} میلیارد`);
+  if (million > 0) parts.push(`${faNum(million)} میلیون`);
+  if (thousand > 0) parts.push(`${faNum(thousand)} هزار`);
+  return parts.length ? parts.join(" و ") + " تومان" : empty;
+}
+
+/** نسخه‌ی کوتاه برای جاهای کم‌جا: 2500 → «۲٫۵ میلیارد» ، 0.5 → «۵۰۰ هزار» */
+export function priceToCompact(millionVal: number, empty = "—"): string {
+  const n = Number(millionVal);
+  if (!Number.isFinite(n) || n <= 0) return empty;
+  // اول رُند، بعد انتخاب واحد: 999.9999 → «۱ میلیارد» (نه «۱٬۰۰۰ میلیون»)
+  const thousands = Math.round(n * 1000);
+  if (thousands < 1000) return `${faNum(thousands)} هزار`;
+  const millions = Math.round(n * 10) / 10;
+  if (millions < 1000) return `${faNum(millions, 1)} میلیون`;
+  return `${faNum(Math.round(n / 10) / 100, 2)} میلیارد`;
+}
+
+/** مبلغ کامل با جداکننده: 2500 → «۲٬۵۰۰٬۰۰۰٬۰۰۰ تومان» */
+export function priceToToman(millionVal: number, empty = "—"): string {
+  const n = Number(millionVal);
+  if (!Number.isFinite(n) || n <= 0) return empty;
+  return `${faNum(Math.round(n * 1_000_000))} تومان`;
+}
+
+const UNIT_MILLIONS = { میلیارد: 1000, میلیون: 1, هزار: 0.001 } as const;
+type MoneyUnit = keyof typeof UNIT_MILLIONS;
+const UNIT_ORDER: MoneyUnit[] = ["میلیارد", "میلیون", "هزار"];
+
+/**
+ * متن آزاد → میلیون تومان ؛ نامفهوم => null
+ *   "80" → 80 ، "۱۲۰٫۵" → 120.5 ، "۲ میلیارد و ۵۰۰" → 2500 ،
+ *   "۱۲۰ میلیون و ۵۰۰ هزار تومان" → 120.5 ، "۲.۵ میلیارد" → 2500
+ * عدد بدون واحد بعد از یک واحد، واحد پایین‌تر حساب می‌شود.
+ */
+export function parsePriceText(text: string): number | null {
+  const s = toEnDigits(text)
+    .replace(/٫/g, ".")
+    .replace(/(\d)[,،٬](?=\d{3})/g, "$1")
+    .replace(/تومان|تومن/g, " ")
+    .trim();
+  if (!s) return null;
+
+  const re = /(\d+(?:\.\d*)?)\s*(میلیارد|میلیون|هزار)?/g;
+  let total = 0;
+  // اندیس آخرین واحد در UNIT_ORDER
+  let lastIdx = -1;
+  let consumed = 0;
+  let m: RegExpExecArray | null;
+
+  while ((m = re.exec(s))) {
+    // بین دو عدد فقط فاصله یا «و» مجاز است
+    if (!/^[\sو]*$/.test(s.slice(consumed, m.index))) return null;
+    consumed = m.index + m[0].length;
+
+    const explicit = m[2] as MoneyUnit | undefined;
+    // «۵۰۰ میلیون و ۲ میلیارد» نامعتبر است
+    if (explicit && UNIT_ORDER.indexOf(explicit) <= lastIdx) return null;
+    const unit: MoneyUnit | undefined =
+      explicit ?? (lastIdx < 0 ? "میلیون" : UNIT_ORDER[lastIdx + 1]);
+    if (!unit) return null;
+
+    total += Number(m[1]) * UNIT_MILLIONS[unit];
+    lastIdx = UNIT_ORDER.indexOf(unit);
+  }
+
+  if (consumed === 0 || s.slice(consumed).trim() !== "") return null;
+  return Math.round(total * 1000) / 1000;
+}
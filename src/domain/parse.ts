@@ -0,0 +1,49 @@
+// ─────────────────────────────────────────────
+// Raw payload helpers
+// سرور گاهی camelCase و گاهی PascalCase برمی‌گرداند
+// ─────────────────────────────────────────────
+export type RawRecord = Record<string, unknown>;
+
+export function asRecord(raw: unknown): RawRecord {
+  return raw && typeof raw === "object" ? (raw as RawRecord) : {};
+}
+
+/** اولین کلید موجود را برمی‌گرداند؛ برای هر کلید نسخه PascalCase هم چک می‌شود */
+export function pick(raw: RawRecord, ...keys: string[]): unknown {
+  for (const k of keys) {
+    if (raw[k] !== undefined) return raw[k];
+    const pascal = k.charAt(0).toUpperCase() + k.slice(1);
+    if (raw[pascal] !== undefined) return raw[pascal];
+  }
+  return undefined;
+}
+
+export function toNum(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export function toNumOrNull(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function toBool(v: unknown): boolean {
+  if (v === true) return true;
+  if (v === false) return false;
+  if (v === 1 || v === "1") return true;
+  if (v === 0 || v === "0") return false;
+  const s = String(v ?? "")
+    .trim()
+    .toLowerCase();
+  return s === "true" || s === "yes";
+}
+
+export function toStr(v: unknown): string {
+  return v === null || v === undefined ? "" : String(v);
+}
+
+export function toOptStr(v: unknown): string | undefined {
+  return v === null || v === undefined ? undefined : String(v);
+}
@@ -0,0 +1,45 @@
+import { asRecord, pick, toStr } from "./parse";
+import { objectSchema } from "./schema";
+
+// ─────────────────────────────────────────────
+// Ad photos (اولین عکس = کاور)
+// ─────────────────────────────────────────────
+export const MAX_AD_PHOTOS = 12;
+
+export type AdPhoto = {
+  id: string;
+  url: string;
+  /** اگر سرور thumbnail نداد همان url */
+  thumbUrl: string;
+};
+
+export function normalizeAdPhoto(raw: unknown): AdPhoto {
+  const r = asRecord(raw);
+  const url = toStr(pick(r, "url"));
+  return {
+    id: toStr(pick(r, "id")),
+    url,
+    thumbUrl: toStr(pick(r, "thumbUrl", "thumbnailUrl")) || url,
+  };
+}
+
+export const adPhotoSchema = objectSchema(
+  "AdPhoto",
+  { id: "code", url: "string" },
+  normalizeAdPhoto
+);
+
+/** داخل Ad: آیتم ناقص را کنار می‌گذارد تا کل آگهی رد نشود */
+export function normalizeAdPhotos(raw: unknown): AdPhoto[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(normalizeAdPhoto).filter((p) => p.id && p.url);
+}
+
+/** جابه‌جایی در لیست (drag & drop) */
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= list.length) return list;
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, item);
+  return next;
+}
@@ -0,0 +1,41 @@
+import { asRecord, pick, toNum } from "./parse";
+import { objectSchema, SchemaError, type Schema } from "./schema";
+
+// ─────────────────────────────────────────────
+// Presence (آنلاین‌ها / بینندگان پروفایل)
+// ─────────────────────────────────────────────
+
+/** رویداد OnlineCount: عدد خام یا { count } */
+export const onlineCountSchema: Schema<number> = {
+  name: "OnlineCount",
+  parse: (raw) => {
+    const v =
+      raw && typeof raw === "object"
+        ? pick(asRecord(raw), "count", "onlineCount")
+        : raw;
+    const n = Number(v);
+    if (v === null || v === undefined || v === "" || !Number.isFinite(n))
+      throw new SchemaError("OnlineCount", ["count: باید number باشد"]);
+    return n;
+  },
+};
+
+/** رویداد ProfileWatchers: تعداد بیننده‌های اتاق یک پروفایل */
+export type ProfileWatchers = {
+  userId: number;
+  count: number;
+};
+
+export function normalizeProfileWatchers(raw: unknown): ProfileWatchers {
+  const r = asRecord(raw);
+  return {
+    userId: toNum(pick(r, "userId", "profileId")),
+    count: toNum(pick(r, "count", "watchers")),
+  };
+}
+
+export const profileWatchersSchema = objectSchema(
+  "ProfileWatchers",
+  { userId: "number", count: "number" },
+  normalizeProfileWatchers
+);
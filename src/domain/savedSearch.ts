@@ -0,0 +1,30 @@
+import type { Ad } from "./ad";
+import {
+  filtersToQuery,
+  matchesAdFilters,
+  matchesAdText,
+  type AdFilters,
+} from "./filters";
+
+// ─────────────────────────────────────────────
+// Saved search (جستجوی ذخیره‌شده + هشدار آگهی جدید)
+// ─────────────────────────────────────────────
+export type SavedSearch = {
+  id: string;
+  name: string;
+  /** متن جستجو */
+  q: string;
+  filters: AdFilters;
+  /** علاوه بر toast، نوتیفیکیشن مرورگر هم بده */
+  notify: boolean;
+  createdAt: string;
+};
+
+export function matchesSavedSearch(ad: Ad, s: SavedSearch): boolean {
+  return matchesAdFilters(ad, s.filters) && matchesAdText(ad, s.q);
+}
+
+/** query string صفحه اصلی برای باز کردن دوباره‌ی همین جستجو */
+export function savedSearchQuery(s: SavedSearch): string {
+  return filtersToQuery(s.filters, undefined, s.q).toString();
+}
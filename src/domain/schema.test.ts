@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  arrayOf,
+  checkFields,
+  objectSchema,
+  onSchemaIssues,
+  optional,
+  SchemaError,
+} from "./schema";
+import { toNum, toStr } from "./parse";
+
+const itemSchema = objectSchema(
+  "Item",
+  { id: "number", name: "string", at: "date" },
+  (raw) => {
+    const r = raw as Record<string, unknown>;
+    return { id: toNum(r.id ?? r.Id), name: toStr(r.name ?? r.Name) };
+  }
+);
+
+const valid = { id: 1, name: "a", at: "2026-01-01" };
+
+describe("checkFields", () => {
+  it("accepts matching kinds and PascalCase keys", () => {
+    expect(checkFields(valid, { id: "number", name: "string" })).toEqual([]);
+    expect(checkFields({ Id: "12" }, { id: "number" })).toEqual([]);
+    expect(
+      checkFields(
+        { ok: "true", code: "Manual" },
+        { ok: "boolean", code: "code" }
+      )
+    ).toEqual([]);
+  });
+
+  it("reports missing and mistyped fields", () => {
+    expect(checkFields({ name: 5 }, { id: "number", name: "string" })).toEqual([
+      "id: وجود ندارد",
+      "name: باید string باشد",
+    ]);
+    expect(checkFields({ id: "" }, { id: "number" })).toHaveLength(1);
+    expect(checkFields({ at: "not a date" }, { at: "date" })).toHaveLength(1);
+  });
+
+  it("rejects non-objects", () => {
+    expect(checkFields([], { id: "number" })).toEqual(["شیء انتظار می‌رفت"]);
+    expect(checkFields(null, { id: "number" })).toHaveLength(1);
+  });
+});
+
+describe("objectSchema", () => {
+  it("normalizes a valid payload", () => {
+    expect(itemSchema.parse(valid)).toEqual({ id: 1, name: "a" });
+  });
+
+  it("throws SchemaError with the schema name and issues", () => {
+    try {
+      itemSchema.parse({ id: "x" });
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(SchemaError);
+      expect((e as SchemaError).schema).toBe("Item");
+      expect((e as SchemaError).issues).toContain("id: باید number باشد");
+    }
+  });
+});
+
+describe("arrayOf", () => {
+  let unsubscribe = () => {};
+  afterEach(() => unsubscribe());
+
+  it("treats an empty body as an empty list", () => {
+    const list = arrayOf(itemSchema);
+    expect(list.parse(null)).toEqual([]);
+    expect(list.parse("")).toEqual([]);
+  });
+
+  it("throws when the body is not an array", () => {
+    expect(() => arrayOf(itemSchema).parse({})).toThrow(SchemaError);
+  });
+
+  it("skips invalid items and reports them", () => {
+    const reported: SchemaError[] = [];
+    unsubscribe = onSchemaIssues((e) => reported.push(e));
+
+    const out = arrayOf(itemSchema).parse([valid, { id: 2 }, valid]);
+
+    expect(out).toHaveLength(2);
+    expect(reported).toHaveLength(1);
+    expect(reported[0].schema).toBe("Item[]");
+    expect(reported[0].issues[0]).toMatch(/^\[1\] /);
+  });
+
+  it("does not report when every item is valid", () => {
+    const reported: SchemaError[] = [];
+    unsubscribe = onSchemaIssues((e) => reported.push(e));
+    arrayOf(itemSchema).parse([valid]);
+    expect(reported).toEqual([]);
+  });
+
+  it("rethrows errors that are not schema errors", () => {
+    const broken = objectSchema("Broken", {}, () => {
+      throw new TypeError("bug");
+    });
+    expect(() => arrayOf(broken).parse([{}])).toThrow(TypeError);
+  });
+});
+
+describe("optional", () => {
+  it("returns null for an empty body", () => {
+    expect(optional(itemSchema).parse(undefined)).toBeNull();
+    expect(optional(itemSchema).parse("")).toBeNull();
+  });
+
+  it("still validates a present body", () => {
+    expect(() => optional(itemSchema).parse({ id: 1 })).toThrow(SchemaError);
+  });
+});
@@ -0,0 +1,143 @@
+import { asRecord, pick } from "./parse";
+
+// ─────────────────────────────────────────────
+// Runtime schema (قرارداد پاسخ‌های سرور)
+// ─────────────────────────────────────────────
+export class SchemaError extends Error {
+  readonly schema: string;
+  readonly issues: string[];
+
+  constructor(schema: string, issues: string[]) {
+    super(`پاسخ نامعتبر از سرور (${schema}): ${issues.join("، ")}`);
+    this.name = "SchemaError";
+    this.schema = schema;
+    this.issues = issues;
+  }
+}
+
+// ── گزارش موارد ردشده (بدون شکستن کل پاسخ) ──
+const issueListeners = new Set<(error: SchemaError) => void>();
+
+/** برای نمایش/ثبت مواردی که از لیست‌ها کنار گذاشته شدند */
+export function onSchemaIssues(listener: (error: SchemaError) => void) {
+  issueListeners.add(listener);
+  return () => {
+    issueListeners.delete(listener);
+  };
+}
+
+export function reportSchemaIssues(error: SchemaError) {
+  issueListeners.forEach((l) => l(error));
+}
+
+export type Schema<T> = {
+  name: string;
+  /** در صورت نامعتبر بودن SchemaError می‌دهد */
+  parse: (raw: unknown) => T;
+};
+
+/**
+ * number  → عدد یا رشته عددی
+ * string  → رشته
+ * boolean → bool یا 0/1/"true"/"false"
+ * code    → کد enum (عدد یا نام)
+ * date    → رشته تاریخ قابل parse
+ */
+export type FieldKind = "number" | "string" | "boolean" | "code" | "date";
+
+function matches(kind: FieldKind, v: unknown): boolean {
+  switch (kind) {
+    case "number":
+      return (
+        (typeof v === "number" || typeof v === "string") &&
+        String(v).trim() !== "" &&
+        Number.isFinite(Number(v))
+      );
+    case "string":
+      return typeof v === "string";
+    case "boolean":
+      return (
+        typeof v === "boolean" ||
+        v === 0 ||
+        v === 1 ||
+        (typeof v === "string" && /^(true|false|0|1)$/i.test(v))
+      );
+    case "code":
+      return typeof v === "number" || typeof v === "string";
+    case "date":
+      return typeof v === "string" && Number.isFinite(Date.parse(v));
+  }
+}
+
+export function checkFields(
+  raw: unknown,
+  fields: Record<string, FieldKind>
+): string[] {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw))
+    return ["شیء انتظار می‌رفت"];
+  const r = asRecord(raw);
+  const issues: string[] = [];
+  for (const [key, kind] of Object.entries(fields)) {
+    const v = pick(r, key);
+    if (v === undefined || v === null) issues.push(`${key}: وجود ندارد`);
+    else if (!matches(kind, v)) issues.push(`${key}: باید ${kind} باشد`);
+  }
+  return issues;
+}
+
+/** فیلدهای الزامی را چک می‌کند و بعد با normalizer شکل نهایی را می‌سازد */
+export function objectSchema<T>(
+  name: string,
+  fields: Record<string, FieldKind>,
+  normalize: (raw: unknown) => T
+): Schema<T> {
+  return {
+    name,
+    parse: (raw) => {
+      const issues = checkFields(raw, fields);
+      if (issues.length) throw new SchemaError(name, issues);
+      return normalize(raw);
+    },
+  };
+}
+
+/**
+ * آیتم نامعتبر کل لیست را خراب نمی‌کند (مثل normalizeAdPhotos):
+ * کنار گذاشته و با reportSchemaIssues گزارش می‌شود.
+ */
+export function arrayOf<T>(item: Schema<T>): Schema<T[]> {
+  const name = `${item.name}[]`;
+  return {
+    name,
+    parse: (raw) => {
+      // بعضی endpointها برای لیست خالی بدنه خالی برمی‌گردانند
+      if (raw === null || raw === undefined || raw === "") return [];
+      if (!Array.isArray(raw))
+        throw new SchemaError(name, ["آرایه انتظار می‌رفت"]);
+
+      const out: T[] = [];
+      const issues: string[] = [];
+      raw.forEach((x, i) => {
+        try {
+          out.push(item.parse(x));
+        } catch (e) {
+          if (!(e instanceof SchemaError)) throw e;
+          issues.push(...e.issues.map((s) => `[${i}] ${s}`));
+        }
+      });
+      if (issues.length) reportSchemaIssues(new SchemaError(name, issues));
+      return out;
+    },
+  };
+}
+
+/** بدنه خالی → null */
+export function optional<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    name: `${schema.name}?`,
+    parse: (raw) =>
+      raw === null || raw === undefined || raw === ""
+        ? null
+        : schema.parse(raw),
+  };
+}
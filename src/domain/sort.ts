@@ -0,0 +1,57 @@
+import { toGregorianYear } from "./filters";
+import type { Ad } from "./ad";
+
+// ─────────────────────────────────────────────
+// مرتب‌سازی فید آگهی
+// ─────────────────────────────────────────────
+export type AdSort =
+  | "newest"
+  | "cheapest"
+  | "priciest"
+  | "lowestMileage"
+  | "newestModel"
+  | "mostViewed";
+
+export const AD_SORTS: AdSort[] = [
+  "newest",
+  "cheapest",
+  "priciest",
+  "lowestMileage",
+  "newestModel",
+  "mostViewed",
+];
+
+export const AD_SORT_LABELS: Record<AdSort, string> = {
+  newest: "جدیدترین",
+  cheapest: "ارزان‌ترین",
+  priciest: "گران‌ترین",
+  lowestMileage: "کمترین کارکرد",
+  newestModel: "جدیدترین مدل",
+  mostViewed: "پربازدیدترین",
+};
+
+export function parseAdSort(v: unknown): AdSort {
+  return AD_SORTS.includes(v as AdSort) ? (v as AdSort) : "newest";
+}
+
+const byNewest = (a: Ad, b: Ad) =>
+  Date.parse(b.createdAt) - Date.parse(a.createdAt) || b.id - a.id;
+
+// قیمت 0 یعنی «توافقی/نامشخص» و همیشه آخر می‌آید
+const priceKey = (a: Ad, dir: 1 | -1) =>
+  a.price > 0 ? a.price * dir : Number.POSITIVE_INFINITY;
+
+const AD_COMPARERS: Record<AdSort, (a: Ad, b: Ad) => number> = {
+  newest: byNewest,
+  cheapest: (a, b) => priceKey(a, 1) - priceKey(b, 1),
+  priciest: (a, b) => priceKey(a, -1) - priceKey(b, -1),
+  lowestMileage: (a, b) => a.mileageKm - b.mileageKm,
+  newestModel: (a, b) => toGregorianYear(b.year) - toGregorianYear(a.year),
+  mostViewed: (a, b) => b.viewCount - a.viewCount,
+};
+
+/** مساوی‌ها بر اساس جدیدترین */
+export function compareAds(sort: AdSort): (a: Ad, b: Ad) => number {
+  const cmp = AD_COMPARERS[sort];
+  return (a, b) => cmp(a, b) || byNewest(a, b);
+}
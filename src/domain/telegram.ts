@@ -0,0 +1,35 @@
+import { asRecord, pick, toStr } from "./parse";
+import { arrayOf, objectSchema } from "./schema";
+
+// ─────────────────────────────────────────────
+// Telegram group message
+// ─────────────────────────────────────────────
+export type TelegramMessage = {
+  id: string;
+  text: string;
+  senderName: string;
+  sentAt: string;
+};
+
+export function normalizeTelegramMessage(raw: unknown): TelegramMessage {
+  const r = asRecord(raw);
+  const text = toStr(pick(r, "text"));
+  const senderName = toStr(pick(r, "senderName"));
+  const sentAt = toStr(pick(r, "sentAt"));
+  const id = pick(r, "id");
+  return {
+    // اگر id نداشت، کلید ترکیبی برای حذف تکراری‌ها
+    id: id ? String(id) : `${sentAt}-${senderName}-${text.slice(0, 10)}`,
+    text,
+    senderName,
+    sentAt,
+  };
+}
+
+export const telegramMessageSchema = objectSchema(
+  "TelegramMessage",
+  { text: "string", senderName: "string" },
+  normalizeTelegramMessage
+);
+
+export const telegramMessageListSchema = arrayOf(telegramMessageSchema);
@@ -0,0 +1,68 @@
+import { adToPayload, type Ad, type AddAdPayload, type CarAdType } from "./ad";
+import type { AdFormState } from "./draft";
+
+// ─────────────────────────────────────────────
+// Ad templates (کپی آگهی + قالب‌های آماده‌ی فرم)
+// ─────────────────────────────────────────────
+
+/** فیلدهایی که قالب نگه می‌دارد؛ خالی = دست نزن */
+export type AdTemplateFields = {
+  type: CarAdType | "";
+  contactPhone: string;
+  description: string;
+};
+
+export type AdTemplate = AdTemplateFields & {
+  id: string;
+  name: string;
+  createdAt: string;
+};
+
+/**
+ * کپی آگهی برای ثبت جدید؛ شماره شاسی برای هر خودرو یکتاست.
+ * عکس‌ها کپی نمی‌شوند: photoIds به رکورد عکس همان آگهی اشاره دارد و
+ * حذف/ویرایش یکی عکس دیگری را هم از بین می‌برد؛ عکس‌ها دوباره آپلود شوند.
+ */
+export function duplicateAdPayload(ad: Ad): AddAdPayload {
+  return { ...adToPayload(ad), chassisNumber: "", photos: [] };
+}
+
+export function adTemplateFromForm(form: AdFormState): AdTemplateFields {
+  return {
+    type: form.type,
+    contactPhone: form.contactPhone.trim(),
+    description: form.description.trim(),
+  };
+}
+
+/** نام پیشنهادی قالب از روی توضیحات/شماره */
+export function suggestTemplateName(fields: AdTemplateFields): string {
+  const firstLine = fields.description.split("\n")[0].trim();
+  if (firstLine) return firstLine.slice(0, 30);
+  return fields.contactPhone;
+}
+
+/**
+ * اعمال قالب روی فرم: نوع و شماره جایگزین می‌شوند،
+ * متن توضیحات به انتهای توضیحات فعلی اضافه می‌شود (اگر تکراری نباشد).
+ */
+export function applyAdTemplate(
+  form: AdFormState,
+  t: AdTemplateFields
+): AdFormState {
+  const current = form.description.trim();
+  const description = !t.description
+    ? form.description
+    : !current
+    ? t.description
+    : current.includes(t.description)
+    ? form.description
+    : `${current}\n\n${t.description}`;
+
+  return {
+    ...form,
+    type: t.type || form.type,
+    contactPhone: t.contactPhone || form.contactPhone,
+    description,
+  };
+}
@@ -0,0 +1,81 @@
+import { asRecord, pick, toNum, toOptStr, toStr } from "./parse";
+import { arrayOf, objectSchema } from "./schema";
+
+// ─────────────────────────────────────────────
+// User
+// ─────────────────────────────────────────────
+export type Role = "User" | "Admin" | "SuperAdmin";
+
+export const ROLES: Role[] = ["User", "Admin", "SuperAdmin"];
+
+export function parseRole(v: unknown): Role {
+  return parseOptRole(v) ?? "User";
+}
+
+/** نقش نامشخص/نامعتبر → null (نه "User") */
+export function parseOptRole(v: unknown): Role | null {
+  const s = toStr(v).trim().toLowerCase();
+  return ROLES.find((r) => r.toLowerCase() === s) ?? null;
+}
+
+export function isAdminRole(role?: Role | null): boolean {
+  return role === "Admin" || role === "SuperAdmin";
+}
+
+/** endpoint عمومی phone/email را برنمی‌گرداند؛ در آن حالت رشته خالی است */
+export type User = {
+  id: number;
+  firstName: string;
+  lastName: string;
+  username: string;
+  phone: string;
+  email: string;
+  role: Role;
+  createdAt?: string;
+};
+
+export function normalizeUser(raw: unknown): User {
+  const r = asRecord(raw);
+  return {
+    id: toNum(pick(r, "id")),
+    firstName: toStr(pick(r, "firstName")),
+    lastName: toStr(pick(r, "lastName")),
+    username: toStr(pick(r, "username")),
+    phone: toStr(pick(r, "phone")),
+    email: toStr(pick(r, "email")),
+    role: parseRole(pick(r, "role")),
+    createdAt: toOptStr(pick(r, "createdAt")),
+  };
+}
+
+export const userSchema = objectSchema(
+  "User",
+  { id: "number", username: "string" },
+  normalizeUser
+);
+
+export const userListSchema = arrayOf(userSchema);
+
+// ─────────────────────────────────────────────
+// Auth
+// ─────────────────────────────────────────────
+export type LoginResult = {
+  token: string;
+  /** null یعنی در پاسخ نیامده؛ از claim توکن یا نقش فعلی خوانده شود */
+  role: Role | null;
+  /** سرورهای قدیمی refresh token نمی‌دهند */
+  refreshToken: string | null;
+};
+
+export const loginResultSchema = objectSchema(
+  "LoginResult",
+  { token: "string" },
+  (raw): LoginResult => {
+    const r = asRecord(raw);
+    return {
+      token: toStr(pick(r, "token")),
+      role: parseOptRole(pick(r, "role")),
+      refreshToken: toOptStr(pick(r, "refreshToken")) ?? null,
+    };
+  }
+);
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import type { AddAdPayload } from "./ad";
+import {
+  normalizeAdPayload,
+  normalizeChassis,
+  normalizeIranMobile,
+  validateAdField,
+  validateAdPayload,
+} from "./validation";
+
+const valid: AddAdPayload = {
+  type: "UsedSale",
+  title: "هیوندای سوناتا",
+  year: 1398,
+  color: "سفید",
+  mileageKm: 85000,
+  insuranceMonths: 6,
+  gearbox: "Automatic",
+  chassisNumber: "IR-CHS-12345",
+  contactPhone: "09123456789",
+  price: 1500,
+  description: "",
+  photos: [],
+};
+
+describe("validateAdPayload", () => {
+  it("accepts a valid payload", () => {
+    expect(validateAdPayload(valid)).toEqual({});
+  });
+
+  it("reports required fields", () => {
+    const errors = validateAdPayload({
+      ...valid,
+      title: " ",
+      color: "",
+      price: "",
+    });
+    expect(Object.keys(errors).sort()).toEqual(["color", "price", "title"]);
+    expect(errors.title).toBe("نام خودرو الزامی است");
+  });
+
+  it("leaves optional fields alone when empty", () => {
+    expect(
+      validateAdField("insuranceMonths", { ...valid, insuranceMonths: "" })
+    ).toBeNull();
+    expect(
+      validateAdField("insuranceMonths", { ...valid, insuranceMonths: 13 })
+    ).not.toBeNull();
+  });
+
+  it("accepts Jalali and Gregorian years only", () => {
+    expect(validateAdField("year", { ...valid, year: 2019 })).toBeNull();
+    expect(validateAdField("year", { ...valid, year: 1299 })).not.toBeNull();
+    expect(validateAdField("year", { ...valid, year: 1800 })).not.toBeNull();
+    expect(validateAdField("year", { ...valid, year: 1398.5 })).not.toBeNull();
+  });
+
+  it("limits mileage, with a lower cap for new cars", () => {
+    expect(
+      validateAdField("mileageKm", { ...valid, mileageKm: -1 })
+    ).not.toBeNull();
+    expect(
+      validateAdField("mileageKm", { ...valid, mileageKm: 3_000_000 })
+    ).not.toBeNull();
+    expect(
+      validateAdField("mileageKm", {
+        ...valid,
+        type: "ZeroSale",
+        mileageKm: 1500,
+      })
+    ).not.toBeNull();
+    expect(
+      validateAdField("mileageKm", { ...valid, type: "ZeroSale", mileageKm: 0 })
+    ).toBeNull();
+  });
+
+  it("checks price bounds in millions", () => {
+    expect(validateAdField("price", { ...valid, price: 0.5 })).not.toBeNull();
+    expect(
+      validateAdField("price", { ...valid, price: 2_000_000 })
+    ).not.toBeNull();
+  });
+
+  it("checks VINs and local chassis numbers", () => {
+    const check = (chassisNumber: string) =>
+      validateAdField("chassisNumber", { ...valid, chassisNumber });
+    expect(check("1HGCM82633A004352")).toBeNull();
+    expect(check("1HGCM82633A00435O")).toMatch(/VIN/);
+    expect(check("ab 12345")).toBeNull();
+    expect(check("AB1")).not.toBeNull();
+  });
+
+  it("checks the mobile number", () => {
+    expect(
+      validateAdField("contactPhone", { ...valid, contactPhone: "۰۹۱۲۳۴۵۶۷۸۹" })
+    ).toBeNull();
+    expect(
+      validateAdField("contactPhone", { ...valid, contactPhone: "021123456" })
+    ).not.toBeNull();
+  });
+});
+
+describe("normalizers", () => {
+  it("normalizes Iranian mobiles", () => {
+    expect(normalizeIranMobile("+98 912 345 6789")).toBe("09123456789");
+    expect(normalizeIranMobile("00989123456789")).toBe("09123456789");
+    expect(normalizeIranMobile("9123456789")).toBe("09123456789");
+    expect(normalizeIranMobile("0912345")).toBeNull();
+  });
+
+  it("normalizes chassis numbers", () => {
+    expect(normalizeChassis(" ir-chs ۱۲۳ ")).toBe("IR-CHS123");
+  });
+
+  it("normalizes the payload before sending", () => {
+    const p = normalizeAdPayload({
+      ...valid,
+      title: " سوناتا ",
+      contactPhone: "+989123456789",
+      chassisNumber: "ir-chs-1",
+    });
+    expect(p.title).toBe("سوناتا");
+    expect(p.contactPhone).toBe("09123456789");
+    expect(p.chassisNumber).toBe("IR-CHS-1");
+  });
+});
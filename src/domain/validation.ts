@@ -0,0 +1,180 @@
+import type { AddAdPayload } from "./ad";
+import { normalizePhoneInput, toEnDigits } from "./digits";
+
+// ─────────────────────────────────────────────
+// Ad field rules (فرم ثبت/ویرایش + ورود گروهی)
+// ─────────────────────────────────────────────
+export type AdFieldKey =
+  | "title"
+  | "year"
+  | "color"
+  | "mileageKm"
+  | "insuranceMonths"
+  | "chassisNumber"
+  | "contactPhone"
+  | "price"
+  | "description";
+
+export type AdFieldErrors = Partial<Record<AdFieldKey, string>>;
+
+type AdFieldRule = {
+  label: string;
+  required: boolean;
+  /** فقط وقتی مقدار خالی نیست صدا زده می‌شود؛ پیام خطا یا null */
+  check?: (p: AddAdPayload) => string | null;
+};
+
+export const JALALI_MIN_YEAR = 1300;
+export const MAX_MILEAGE_KM = 2_000_000;
+export const MAX_INSURANCE_MONTHS = 12;
+/** بر اساس میلیون تومان: ۱ میلیون تا ۱۰۰۰ میلیارد */
+export const MIN_PRICE = 1;
+export const MAX_PRICE = 1_000_000;
+
+/** سال شمسی جاری (بعد از نوروز) */
+function currentJalaliYear() {
+  return new Date().getFullYear() - 621;
+}
+
+/** 0912… / +98912… / 0098912… / 98912… → 0912… ؛ نامعتبر => null */
+export function normalizeIranMobile(raw: string): string | null {
+  const s = normalizePhoneInput(raw);
+  const m = /^(?:\+98|0098|98|0)?(9\d{9})$/.exec(s);
+  return m ? `0${m[1]}` : null;
+}
+
+/** VIN استاندارد (۱۷ کاراکتر بدون I/O/Q) */
+const VIN_RE = /^[A-HJ-NPR-Z0-9]{17}$/;
+/** شماره شاسی داخلی: حروف لاتین/عدد، با خط تیره */
+const CHASSIS_RE = /^[A-Z0-9](?:[A-Z0-9-]{4,18})[A-Z0-9]$/;
+
+export function normalizeChassis(raw: string): string {
+  return toEnDigits(raw).trim().toUpperCase().replace(/\s+/g, "");
+}
+
+function checkYear(year: number): string | null {
+  if (!Number.isInteger(year)) return "سال باید عدد صحیح باشد";
+  const jMax = currentJalaliYear();
+  const gMax = new Date().getFullYear() + 1; // مدل سال بعد
+  if (year >= JALALI_MIN_YEAR && year <= jMax) return null;
+  if (year >= JALALI_MIN_YEAR + 621 && year <= gMax) return null;
+  return `سال باید بین ${JALALI_MIN_YEAR} تا ${jMax} (شمسی) یا ${
+    JALALI_MIN_YEAR + 621
+  } تا ${gMax} (میلادی) باشد`;
+}
+
+export const AD_FIELD_RULES: Record<AdFieldKey, AdFieldRule> = {
+  title: {
+    label: "نام خودرو",
+    required: true,
+    check: (p) =>
+      p.title.trim().length < 2 ? "نام خودرو خیلی کوتاه است" : null,
+  },
+  year: {
+    label: "سال ساخت",
+    required: true,
+    check: (p) => checkYear(Number(p.year)),
+  },
+  color: { label: "رنگ", required: true },
+  mileageKm: {
+    label: "کارکرد",
+    required: true,
+    check: (p) => {
+      const km = Number(p.mileageKm);
+      if (!Number.isInteger(km) || km < 0)
+        return "کارکرد باید عدد صحیح و مثبت باشد";
+      if (km > MAX_MILEAGE_KM)
+        return `کارکرد بیش از ${MAX_MILEAGE_KM.toLocaleString(
+          "fa-IR"
+        )} کیلومتر معقول نیست`;
+      if (p.type === "ZeroSale" && km > 1000)
+        return "خودروی صفر نباید بیش از ۱۰۰۰ کیلومتر کارکرد داشته باشد";
+      return null;
+    },
+  },
+  insuranceMonths: {
+    label: "مهلت بیمه",
+    required: false,
+    check: (p) => {
+      const m = Number(p.insuranceMonths);
+      return Number.isInteger(m) && m >= 0 && m <= MAX_INSURANCE_MONTHS
+        ? null
+        : `مهلت بیمه باید بین ۰ تا ${MAX_INSURANCE_MONTHS.toLocaleString(
+            "fa-IR"
+          )} ماه باشد`;
+    },
+  },
+  chassisNumber: {
+    label: "شماره شاسی",
+    required: true,
+    check: (p) => {
+      const c = normalizeChassis(p.chassisNumber);
+      if (c.length === 17 && /^[A-Z0-9]+$/.test(c))
+        return VIN_RE.test(c) ? null : "VIN نباید حروف I، O یا Q داشته باشد";
+      return CHASSIS_RE.test(c)
+        ? null
+        : "شماره شاسی باید VIN ۱۷ کاراکتری یا ۶ تا ۲۰ حرف لاتین/عدد باشد";
+    },
+  },
+  contactPhone: {
+    label: "شماره تماس",
+    required: true,
+    check: (p) =>
+      normalizeIranMobile(p.contactPhone)
+        ? null
+        : "شماره موبایل معتبر نیست (مثلاً 09123456789 یا +989123456789)",
+  },
+  price: {
+    label: "قیمت",
+    required: true,
+    check: (p) => {
+      const price = Number(p.price);
+      if (!Number.isFinite(price) || price < MIN_PRICE)
+        return "قیمت بر اساس میلیون تومان است (حداقل ۱)";
+      if (price > MAX_PRICE) return "قیمت بیش از حد معقول است";
+      return null;
+    },
+  },
+  description: {
+    label: "توضیحات",
+    required: false,
+    check: (p) =>
+      p.description.length > 2000 ? "توضیحات حداکثر ۲۰۰۰ کاراکتر" : null,
+  },
+};
+
+function isEmpty(v: unknown): boolean {
+  return v === "" || v === null || v === undefined || String(v).trim() === "";
+}
+
+export function validateAdField(
+  key: AdFieldKey,
+  payload: AddAdPayload
+): string | null {
+  const rule = AD_FIELD_RULES[key];
+  if (isEmpty(payload[key]))
+    return rule.required ? `${rule.label} الزامی است` : null;
+  return rule.check?.(payload) ?? null;
+}
+
+/** فقط فیلدهای دارای خطا */
+export function validateAdPayload(payload: AddAdPayload): AdFieldErrors {
+  const errors: AdFieldErrors = {};
+  for (const key of Object.keys(AD_FIELD_RULES) as AdFieldKey[]) {
+    const err = validateAdField(key, payload);
+    if (err) errors[key] = err;
+  }
+  return errors;
+}
+
+/** مقادیر قابل یکسان‌سازی قبل از ارسال (موبایل/شاسی) */
+export function normalizeAdPayload(payload: AddAdPayload): AddAdPayload {
+  return {
+    ...payload,
+    title: payload.title.trim(),
+    color: payload.color.trim(),
+    chassisNumber: normalizeChassis(payload.chassisNumber),
+    contactPhone:
+      normalizeIranMobile(payload.contactPhone) ?? payload.contactPhone.trim(),
+  };
+}
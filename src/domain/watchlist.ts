@@ -0,0 +1,56 @@
+import type { Ad } from "./ad";
+
+// ─────────────────────────────────────────────
+// Watchlist (آگهی‌های نشان‌شده + تاریخچه‌ی قیمت)
+// ─────────────────────────────────────────────
+export type PricePoint = {
+  /** میلیون تومان */
+  price: number;
+  at: string;
+};
+
+export type WatchedAd = {
+  /** آخرین نسخه‌ی دیده‌شده از آگهی */
+  ad: Ad;
+  addedAt: string;
+  priceHistory: PricePoint[];
+  /** آگهی حذف شده ولی در لیست می‌ماند */
+  removedAt: string | null;
+};
+
+export type PriceChange = {
+  ad: Ad;
+  oldPrice: number;
+  newPrice: number;
+};
+
+export function watchAd(ad: Ad): WatchedAd {
+  const now = new Date().toISOString();
+  return {
+    ad,
+    addedAt: now,
+    priceHistory: [{ price: ad.price, at: now }],
+    removedAt: null,
+  };
+}
+
+/** نسخه‌ی جدید آگهی را اعمال می‌کند؛ تغییر قیمت در تاریخچه ثبت می‌شود */
+export function applyAdUpdate(
+  w: WatchedAd,
+  ad: Ad
+): { next: WatchedAd; change: PriceChange | null } {
+  const oldPrice = w.ad.price;
+  if (ad.price === oldPrice) return { next: { ...w, ad }, change: null };
+
+  return {
+    next: {
+      ...w,
+      ad,
+      priceHistory: [
+        ...w.priceHistory,
+        { price: ad.price, at: new Date().toISOString() },
+      ],
+    },
+    change: { ad, oldPrice, newPrice: ad.price },
+  };
+}
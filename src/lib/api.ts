@@ -1,4 +1,4 @@
-import axios from "axios";
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
 
 export const API_BASE = process.env.NEXT_PUBLIC_API_BASE!;
 
@@ -10,3 +10,77 @@ export function setApiToken(token?: string | null) {
   if (token) api.defaults.headers.common.Authorization = `Bearer ${token}`;
   else delete api.defaults.headers.common.Authorization;
 }
+
+// ✅ 401 روی درخواستی که توکن داشته و refresh هم نشد => نشست تمام شده
+let unauthorizedHandler: (() => void) | null = null;
+
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  unauthorizedHandler = handler;
+}
+
+// ─────────────────────────────────────────────
+// Refresh token
+// ─────────────────────────────────────────────
+/** توکن جدید برمی‌گرداند؛ اگر refresh ممکن نباشد null */
+type TokenRefresher = () => Promise<string | null>;
+
+let tokenRefresher: TokenRefresher | null = null;
+let refreshing: Promise<string | null> | null = null;
+
+export function setTokenRefresher(refresher: TokenRefresher | null) {
+  tokenRefresher = refresher;
+}
+
+/** در هر لحظه فقط یک refresh؛ درخواست‌های هم‌زمان منتظر همان می‌مانند */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!tokenRefresher) return Promise.resolve(null);
+  if (!refreshing) {
+    refreshing = tokenRefresher()
+      .catch(() => null)
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+type RetryConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+function isAuthEndpoint(url?: string) {
+  return !!url && url.includes("/api/auth/");
+}
+
+api.interceptors.response.use(
+  (res) => res,
+  async (error: AxiosError) => {
+    const config = error.config as RetryConfig | undefined;
+    const sentAuth = config?.headers?.Authorization;
+    if (
+      error.response?.status !== 401 ||
+      !config ||
+      !sentAuth ||
+      isAuthEndpoint(config.url)
+    ) {
+      return Promise.reject(error);
+    }
+
+    if (!config._retried) {
+      config._retried = true;
+
+      // درخواستی که با توکن قدیمی رفته بود و در این فاصله refresh انجام شده
+      const current = api.defaults.headers.common.Authorization;
+      const token =
+        current && current !== sentAuth
+          ? String(current).replace(/^Bearer /, "")
+          : await refreshAccessToken();
+
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+        return api(config);
+      }
+    }
+
+    unauthorizedHandler?.();
+    return Promise.reject(error);
+  }
+);
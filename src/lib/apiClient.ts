@@ -0,0 +1,232 @@
+import type { AxiosRequestConfig } from "axios";
+import { api, API_BASE } from "@/lib/api";
+import {
+  adListSchema,
+  adPhotoSchema,
+  adPageSchema,
+  EMPTY_AD_FILTERS,
+  filtersToQuery,
+  bioListSchema,
+  loginResultSchema,
+  optional,
+  telegramMessageListSchema,
+  todayStatsSchema,
+  userListSchema,
+  userSchema,
+  viewAnalyticsSchema,
+  viewCountSchema,
+  type AdFilters,
+  type AdRequestBody,
+  type AdSort,
+  type AnalyticsRange,
+  type Role,
+  type Schema,
+} from "@/domain";
+
+// ─────────────────────────────────────────────
+// Typed API client
+// همه پاسخ‌ها قبل از رسیدن به UI با schema چک می‌شوند؛
+// پاسخ نامعتبر به صورت SchemaError پرتاب می‌شود؛
+// در لیست‌ها فقط آیتم نامعتبر کنار گذاشته و گزارش می‌شود.
+// ─────────────────────────────────────────────
+async function getParsed<T>(
+  url: string,
+  schema: Schema<T>,
+  config?: AxiosRequestConfig
+): Promise<T> {
+  const res = await api.get(url, config);
+  return schema.parse(res.data);
+}
+
+async function postParsed<T>(
+  url: string,
+  body: unknown,
+  schema: Schema<T>
+): Promise<T> {
+  const res = await api.post(url, body);
+  return schema.parse(res.data);
+}
+
+async function send(
+  method: "post" | "put" | "delete",
+  url: string,
+  body?: unknown
+): Promise<void> {
+  if (method === "delete") await api.delete(url);
+  else await api[method](url, body);
+}
+
+// ─────────────────────────────────────────────
+// Request bodies
+// ─────────────────────────────────────────────
+export type BioRequestBody = {
+  GroupKey: string;
+  IsAdvanced: boolean;
+  Title: string | null;
+  Description: string;
+  ContactInfo: string | null;
+};
+
+export type RegisterBody = {
+  firstName: string;
+  lastName: string;
+  username: string;
+  phone: string;
+  email: string;
+  password: string;
+};
+
+export type AdminUserBody = {
+  FirstName: string;
+  LastName: string;
+  Username: string;
+  Phone: string;
+  Email: string;
+};
+
+export type AdminCreateUserBody = AdminUserBody & {
+  Password: string;
+  Role: Role;
+};
+
+// ─────────────────────────────────────────────
+// Endpoints
+// ─────────────────────────────────────────────
+export const authApi = {
+  login: (username: string, password: string) =>
+    postParsed("/api/auth/login", { username, password }, loginResultSchema),
+  register: (body: RegisterBody) => send("post", "/api/auth/register", body),
+  refresh: (refreshToken: string) =>
+    postParsed("/api/auth/refresh", { refreshToken }, loginResultSchema),
+};
+
+/** اندازه‌ی پیش‌فرض صفحه‌ی فید */
+export const AD_PAGE_SIZE = 40;
+
+export const adsApi = {
+  /** با since فقط آگهی‌های ساخته/ویرایش‌شده بعد از آن زمان (delta) */
+  list: (since?: string) =>
+    getParsed("/api/ads", adListSchema, {
+      params: since ? { since } : undefined,
+    }),
+  /** فید صفحه‌بندی‌شده؛ cursor از nextCursor صفحه‌ی قبل، q = جستجوی متنی */
+  page: (
+    cursor?: string | null,
+    filters?: AdFilters,
+    sort?: AdSort,
+    q?: string,
+    limit = AD_PAGE_SIZE
+  ) => {
+    const params = filtersToQuery(filters ?? EMPTY_AD_FILTERS, undefined, q);
+    params.set("limit", String(limit));
+    if (sort) params.set("sort", sort);
+    if (cursor) params.set("cursor", cursor);
+    return getParsed("/api/ads/page", adPageSchema, { params });
+  },
+  /**
+   * کاندیدهای آگهی تکراری در کل سایت: یک صفحه‌ی محدود با فیلتر سرور
+   * (هم‌سال یا هم‌شاسی)، نه دانلود کل لیست
+   */
+  duplicateCandidates: (
+    lookup: { year?: number; chassis?: string },
+    limit = 100
+  ) => {
+    const year = lookup.year ?? null;
+    const params = filtersToQuery({
+      ...EMPTY_AD_FILTERS,
+      yearMin: year,
+      yearMax: year,
+      showInactive: true,
+    });
+    if (lookup.chassis) params.set("chassis", lookup.chassis);
+    params.set("limit", String(limit));
+    return getParsed("/api/ads/page", adPageSchema, { params }).then(
+      (p) => p.items
+    );
+  },
+  mine: (since?: string) =>
+    getParsed("/api/ads/mine", adListSchema, {
+      params: since ? { since } : undefined,
+    }),
+  create: (body: AdRequestBody) => send("post", "/api/ads", body),
+  update: (id: number, body: AdRequestBody) =>
+    send("put", `/api/ads/${id}`, body),
+  remove: (id: number) => send("delete", `/api/ads/${id}`),
+  /** viewCount جدید؛ اگر سرور بدنه خالی برگرداند null */
+  recordView: (id: number) =>
+    postParsed(`/api/ads/${id}/view`, undefined, optional(viewCountSchema)),
+  todayStats: () => getParsed("/api/ads/stats/today", todayStatsSchema),
+  /** finalPrice اختیاری، بر اساس میلیون تومان */
+  markSold: (id: number, finalPrice: number | null) =>
+    send("post", `/api/ads/${id}/sold`, { finalPrice }),
+  /** آگهی منقضی/فروخته/بایگانی دوباره فعال می‌شود */
+  renew: (id: number) => send("post", `/api/ads/${id}/renew`),
+  archive: (id: number) => send("post", `/api/ads/${id}/archive`),
+};
+
+// آپلود عکس می‌تواند به سرور جدا (مثلاً mock محلی) برود
+const UPLOAD_BASE = process.env.NEXT_PUBLIC_UPLOAD_BASE || API_BASE;
+
+export const uploadsApi = {
+  /** onProgress بین ۰ و ۱ */
+  photo: async (
+    file: Blob,
+    fileName: string,
+    onProgress?: (ratio: number) => void
+  ) => {
+    const form = new FormData();
+    form.append("file", file, fileName);
+    const res = await api.post("/api/uploads/photos", form, {
+      baseURL: UPLOAD_BASE,
+      onUploadProgress: (e) => {
+        if (onProgress && e.total) onProgress(e.loaded / e.total);
+      },
+    });
+    return adPhotoSchema.parse(res.data);
+  },
+};
+
+// آمار هم می‌تواند از سرور جدا (mock:analytics) بیاید
+const ANALYTICS_BASE = process.env.NEXT_PUBLIC_ANALYTICS_BASE || API_BASE;
+
+export const analyticsApi = {
+  /** سرور بر اساس توکن فیلتر می‌کند؛ adIds فقط برای mock محلی است */
+  myViews: (days: AnalyticsRange, adIds: number[]) =>
+    getParsed("/api/analytics/my-ads/views", viewAnalyticsSchema, {
+      baseURL: ANALYTICS_BASE,
+      params: { days, adIds: adIds.join(",") },
+    }),
+};
+
+export const usersApi = {
+  get: (id: number) => getParsed(`/api/users/${id}`, userSchema),
+};
+
+export const bioApi = {
+  mine: () => getParsed("/api/bio/mine", bioListSchema),
+  forUser: (userId: number) =>
+    getParsed(`/api/bio/user/${userId}`, bioListSchema),
+  create: (body: BioRequestBody) => send("post", "/api/bio", body),
+  update: (id: number, body: BioRequestBody) =>
+    send("put", `/api/bio/${id}`, body),
+  remove: (id: number) => send("delete", `/api/bio/${id}`),
+};
+
+export const adminUsersApi = {
+  search: (q?: string) =>
+    getParsed("/api/admin/users", userListSchema, {
+      params: q ? { q } : undefined,
+    }),
+  create: (body: AdminCreateUserBody) => send("post", "/api/admin/users", body),
+  update: (id: number, body: AdminUserBody) =>
+    send("put", `/api/admin/users/${id}`, body),
+  setRole: (id: number, role: Role) =>
+    send("put", `/api/admin/users/${id}/role`, { Role: role }),
+  remove: (id: number) => send("delete", `/api/admin/users/${id}`),
+};
+
+export const telegramApi = {
+  recent: () => getParsed("/api/telegram/messages", telegramMessageListSchema),
+  history: () =>
+    getParsed("/api/telegram/messages/history", telegramMessageListSchema),
+};
@@ -0,0 +1,42 @@
+// ─────────────────────────────────────────────
+// Client-side resize/compress قبل از آپلود
+// ─────────────────────────────────────────────
+export type CompressOptions = {
+  /** بلندترین ضلع (px) */
+  maxSize?: number;
+  /** کیفیت JPEG بین ۰ و ۱ */
+  quality?: number;
+};
+
+/**
+ * عکس را کوچک و به JPEG تبدیل می‌کند.
+ * اگر خروجی از فایل اصلی بزرگ‌تر شد همان فایل اصلی برمی‌گردد.
+ */
+export async function compressImage(
+  file: File,
+  { maxSize = 1600, quality = 0.82 }: CompressOptions = {}
+): Promise<Blob> {
+  // جهت EXIF (عکس‌های موبایل) را هم اعمال می‌کند
+  const bitmap = await createImageBitmap(file, {
+    imageOrientation: "from-image",
+  });
+  try {
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return file;
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", quality)
+    );
+    return blob && blob.size < file.size ? blob : file;
+  } finally {
+    bitmap.close();
+  }
+}
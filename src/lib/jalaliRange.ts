@@ -0,0 +1,87 @@
+import dayjs from "dayjs";
+import jalaliday from "jalaliday";
+import type { DateRange } from "react-day-picker";
+
+dayjs.extend(jalaliday);
+
+export type { DateRange };
+
+// ─────────────────────────────────────────────
+// بازه‌ی تاریخ (روزهای محلی، تقویم شمسی)
+// ─────────────────────────────────────────────
+
+/** کلید روز محلی؛ برای شمارش آیتم‌ها در هر روز */
+export function dayKey(d: Date | string): string {
+  return dayjs(d).format("YYYY-MM-DD");
+}
+
+export function countByDay(dates: (string | undefined)[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const d of dates) {
+    if (!d) continue;
+    const k = dayKey(d);
+    counts.set(k, (counts.get(k) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** بازه‌ی خالی یعنی بدون فیلتر؛ to نداشته باشد یعنی فقط همان روز */
+export function inDateRange(
+  iso: string | undefined,
+  range: DateRange | undefined
+): boolean {
+  if (!range?.from) return true;
+  if (!iso) return false;
+  const d = dayjs(iso);
+  return (
+    !d.isBefore(dayjs(range.from).startOf("day")) &&
+    !d.isAfter(dayjs(range.to ?? range.from).endOf("day"))
+  );
+}
+
+function toJalali(d: Date) {
+  return dayjs(d).calendar("jalali").locale("fa").format("YYYY/MM/DD");
+}
+
+export function formatJalaliRange(range: DateRange | undefined): string {
+  if (!range?.from) return "";
+  const from = toJalali(range.from);
+  const to = range.to ? toJalali(range.to) : from;
+  return from === to ? from : `${from} تا ${to}`;
+}
+
+export type DatePreset = { key: string; label: string; range: () => DateRange };
+
+export const DATE_PRESETS: DatePreset[] = [
+  {
+    key: "today",
+    label: "امروز",
+    range: () => ({ from: dayjs().startOf("day").toDate() }),
+  },
+  {
+    key: "week",
+    label: "این هفته",
+    range: () => {
+      // هفته‌ی شمسی از شنبه (day() === 6) شروع می‌شود
+      const today = dayjs().startOf("day");
+      const from = today.subtract((today.day() + 1) % 7, "day");
+      return { from: from.toDate(), to: today.toDate() };
+    },
+  },
+  {
+    key: "month",
+    label: "این ماه",
+    range: () => ({
+      from: dayjs().calendar("jalali").startOf("month").toDate(),
+      to: dayjs().startOf("day").toDate(),
+    }),
+  },
+  {
+    key: "last30",
+    label: "۳۰ روز اخیر",
+    range: () => ({
+      from: dayjs().startOf("day").subtract(29, "day").toDate(),
+      to: dayjs().startOf("day").toDate(),
+    }),
+  },
+];
@@ -1,56 +1,288 @@
 import * as signalR from "@microsoft/signalr";
 import { useAuthStore } from "@/store/auth.store";
+import {
+  adDeletedSchema,
+  adPatchSchema,
+  adSchema,
+  adViewSchema,
+  bioDeletedSchema,
+  bioItemSchema,
+  onlineCountSchema,
+  profileWatchersSchema,
+  reportSchemaIssues,
+  SchemaError,
+  telegramMessageSchema,
+  type Ad,
+  type AdDeleted,
+  type AdPatch,
+  type AdView,
+  type BioDeleted,
+  type BioItem,
+  type ProfileWatchers,
+  type Schema,
+  type TelegramMessage,
+} from "@/domain";
 
 let connection: signalR.HubConnection | null = null;
+let starting: Promise<signalR.HubConnection> | null = null;
+
+// ─────────────────────────────────────────────
+// Connection status
+// ─────────────────────────────────────────────
+/** idle = هنوز start نشده یا عمداً stop شده */
+export type HubStatus =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "disconnected";
+
+let status: HubStatus = "idle";
+const statusListeners = new Set<() => void>();
+
+function setStatus(next: HubStatus) {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach((l) => l());
+}
+
+export function getHubStatus() {
+  return status;
+}
+
+export function subscribeHubStatus(listener: () => void) {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+// ─────────────────────────────────────────────
+// Resync بعد از reconnect
+// ─────────────────────────────────────────────
+// اختلاف ساعت کلاینت و سرور
+const RESYNC_MARGIN_MS = 5_000;
+
+/** زمان آخرین رویدادی که واقعاً رسیده (یا آخرین اتصال موفق) */
+let lastSeenAt = 0;
+const reconnectListeners = new Set<(since: string) => void>();
+
+/** listener با ISO زمانی که از آن به بعد ممکن است رویداد از دست رفته باشد صدا زده می‌شود */
+export function onHubReconnected(listener: (since: string) => void) {
+  reconnectListeners.add(listener);
+  return () => {
+    reconnectListeners.delete(listener);
+  };
+}
+
+// اتاق‌های پروفایل join شده (userId → تعداد کامپوننت‌ها)
+const joinedRooms = new Map<number, number>();
+
+/**
+ * بعد از reconnect خودکار و بعد از اتصال تازه (مثلاً پس از onclose):
+ * اتاق‌ها روی connectionId جدید join و listenerهای resync صدا زده می‌شوند.
+ * resync = false برای اولین اتصال (چیزی از دست نرفته)
+ */
+function handleConnected(conn: signalR.HubConnection, resync: boolean) {
+  setStatus("connected");
+
+  for (const userId of joinedRooms.keys()) {
+    conn.invoke("JoinProfile", String(userId)).catch(() => {});
+  }
+
+  const since = new Date(
+    (lastSeenAt || Date.now()) - RESYNC_MARGIN_MS
+  ).toISOString();
+  lastSeenAt = Date.now();
+  if (resync) reconnectListeners.forEach((l) => l(since));
+}
 
 export function getConnection() {
   return connection;
 }
 
 export async function startSignalR() {
-  if (connection && connection.state === signalR.HubConnectionState.Connected)
+  // ✅ چند کامپوننت هم‌زمان start می‌زنند؛ فقط یک اتصال ساخته شود
+  if (starting) return starting;
+  // ✅ وسط reconnect خودکار اتصال جدید نسازیم؛ onreconnected خودش resync می‌کند
+  const { Connected, Connecting, Reconnecting } = signalR.HubConnectionState;
+  if (
+    connection &&
+    [Connected, Connecting, Reconnecting].includes(connection.state)
+  )
     return connection;
 
-  const token = useAuthStore.getState().token;
+  starting = connect().finally(() => {
+    starting = null;
+  });
+  return starting;
+}
+
+async function connect() {
   const hubUrl = process.env.NEXT_PUBLIC_HUB_URL!;
 
-  console.log("HUB URL =>", hubUrl); // ✅ فقط برای تست
+  if (connection) await connection.stop().catch(() => {});
+  setStatus("connecting");
 
-  connection = new signalR.HubConnectionBuilder()
+  const conn = new signalR.HubConnectionBuilder()
     .withUrl(hubUrl, {
-      accessTokenFactory: () => token ?? "",
+      // ✅ در هر reconnect توکن فعلی (بعد از refresh) خوانده شود
+      accessTokenFactory: () => useAuthStore.getState().token ?? "",
     })
     .withAutomaticReconnect()
     .build();
+  connection = conn;
 
-  connection.onclose((e) => console.log("SignalR closed:", e));
-  connection.onreconnecting((e) => console.log("SignalR reconnecting:", e));
-  connection.onreconnected((id) => console.log("SignalR reconnected:", id));
+  conn.onclose(() => {
+    if (connection === conn) setStatus("disconnected");
+  });
+  conn.onreconnecting(() => {
+    if (connection === conn) setStatus("reconnecting");
+  });
+  conn.onreconnected(() => {
+    if (connection === conn) handleConnected(conn, true);
+  });
 
-  await connection.start();
-  console.log("SignalR connected. state =", connection.state);
+  // listenerهایی که قبل از ساخت این اتصال ثبت شده‌اند
+  for (const name of Object.keys(listeners) as HubEventName[])
+    conn.on(name, dispatchers[name]);
 
-  return connection;
+  try {
+    await conn.start();
+  } catch (e) {
+    if (connection === conn) {
+      connection = null;
+      setStatus("disconnected");
+    }
+    throw e;
+  }
+  // lastSeenAt > 0 یعنی قبلاً وصل بوده‌ایم و این اتصال بعد از قطع کامل است
+  handleConnected(conn, lastSeenAt > 0);
+
+  return conn;
 }
 
 export async function stopSignalR() {
   if (!connection) return;
-  await connection.stop();
+  const conn = connection;
   connection = null;
+  joinedRooms.clear();
+  lastSeenAt = 0;
+  setStatus("idle");
+  await conn.stop();
 }
 
 export async function joinProfile(userId: number) {
+  joinedRooms.set(userId, (joinedRooms.get(userId) ?? 0) + 1);
+  const wasConnected =
+    connection?.state === signalR.HubConnectionState.Connected;
   const conn = await startSignalR();
-  await conn.invoke("JoinProfile", String(userId));
+  // اتصال تازه همه‌ی joinedRooms را خودش join می‌کند
+  if (wasConnected) await conn.invoke("JoinProfile", String(userId));
 }
 
 export async function leaveProfile(userId: number) {
-  const conn = await startSignalR();
+  const count = (joinedRooms.get(userId) ?? 0) - 1;
+  if (count > 0) {
+    joinedRooms.set(userId, count);
+    return;
+  }
+  joinedRooms.delete(userId);
+
+  const conn = connection;
+  if (conn?.state !== signalR.HubConnectionState.Connected) return;
   await conn.invoke("LeaveProfile", String(userId));
 }
 
-export type TelegramMsg = {
-  text: string;
-  senderName: string;
-  sentAt: string;
+// ─────────────────────────────────────────────
+// Typed hub events
+// ─────────────────────────────────────────────
+export type HubEvents = {
+  CarAdCreated: Ad;
+  CarAdUpdated: Ad;
+  CarAdDeleted: AdDeleted;
+  /** فقط برای صاحب آگهی */
+  CarAdCreatedForUser: Ad;
+  /** ممکن است جزئی باشد؛ روی آگهی فعلی merge شود */
+  MyCarAdUpdated: AdPatch;
+  MyCarAdDeleted: AdDeleted;
+  AdViewUpdated: AdView;
+  BioItemAdded: BioItem;
+  BioItemUpdated: BioItem;
+  BioItemDeleted: BioDeleted;
+  TelegramMessage: TelegramMessage;
+  OnlineCount: number;
+  /** بعد از JoinProfile/LeaveProfile برای اعضای اتاق */
+  ProfileWatchers: ProfileWatchers;
 };
+
+export type HubEventName = keyof HubEvents;
+export type HubHandler<K extends HubEventName> = (
+  payload: HubEvents[K]
+) => void;
+
+const HUB_SCHEMAS: { [K in HubEventName]: Schema<HubEvents[K]> } = {
+  CarAdCreated: adSchema,
+  CarAdUpdated: adSchema,
+  CarAdDeleted: adDeletedSchema,
+  CarAdCreatedForUser: adSchema,
+  MyCarAdUpdated: adPatchSchema,
+  MyCarAdDeleted: adDeletedSchema,
+  AdViewUpdated: adViewSchema,
+  BioItemAdded: bioItemSchema,
+  BioItemUpdated: bioItemSchema,
+  BioItemDeleted: bioDeletedSchema,
+  TelegramMessage: telegramMessageSchema,
+  OnlineCount: onlineCountSchema,
+  ProfileWatchers: profileWatchersSchema,
+};
+
+// برای هر رویداد فقط یک listener روی اتصال؛ بقیه از این Set پخش می‌شوند
+const listeners: Partial<{
+  [K in HubEventName]: Set<HubHandler<K>>;
+}> = {};
+
+const dispatchers = Object.fromEntries(
+  (Object.keys(HUB_SCHEMAS) as HubEventName[]).map((name) => [
+    name,
+    (raw: unknown) => dispatch(name, raw),
+  ])
+) as Record<HubEventName, (raw: unknown) => void>;
+
+function dispatch<K extends HubEventName>(name: K, raw: unknown) {
+  lastSeenAt = Date.now();
+
+  const set = listeners[name] as Set<HubHandler<K>> | undefined;
+  if (!set?.size) return;
+
+  let payload: HubEvents[K];
+  try {
+    payload = HUB_SCHEMAS[name].parse(raw);
+  } catch (e) {
+    // payload نامعتبر نادیده گرفته می‌شود
+    if (e instanceof SchemaError) reportSchemaIssues(e);
+    return;
+  }
+  // کپی تا unsubscribe داخل handler حلقه را به هم نزند
+  for (const handler of [...set]) handler(payload);
+}
+
+/** تابع unsubscribe برمی‌گرداند؛ با رفتن آخرین subscriber listener اتصال هم برداشته می‌شود */
+export function onHubEvent<K extends HubEventName>(
+  name: K,
+  handler: HubHandler<K>
+): () => void {
+  let set = listeners[name] as Set<HubHandler<K>> | undefined;
+  if (!set) {
+    set = new Set();
+    (listeners as Record<K, Set<HubHandler<K>>>)[name] = set;
+    connection?.on(name, dispatchers[name]);
+  }
+  set.add(handler);
+
+  return () => {
+    if (!set.delete(handler) || set.size) return;
+    delete listeners[name];
+    connection?.off(name, dispatchers[name]);
+  };
+}
@@ -0,0 +1,162 @@
+import { deflateRawSync } from "node:zlib";
+import { JSDOM } from "jsdom";
+import { beforeAll, describe, expect, it } from "vitest";
+import { parseCsv, parseXlsx, SpreadsheetError, toCsv } from "./spreadsheet";
+
+// محیط node (Blob.stream و DecompressionStream واقعی)؛ فقط DOMParser از jsdom
+beforeAll(() => {
+  globalThis.DOMParser = new JSDOM().window.DOMParser;
+});
+
+describe("parseCsv", () => {
+  it("reads quoted cells, escaped quotes and newlines inside cells", () => {
+    const text = 'a,"b, c","say ""hi"""\r\n1,"line\nbreak",3\n';
+    expect(parseCsv(text)).toEqual([
+      ["a", "b, c", 'say "hi"'],
+      ["1", "line\nbreak", "3"],
+    ]);
+  });
+
+  it("detects ; and tab delimiters and strips the BOM", () => {
+    expect(parseCsv("\uFEFFنام;سال\nپژو;1398")).toEqual([
+      ["نام", "سال"],
+      ["پژو", "1398"],
+    ]);
+    expect(parseCsv("a\tb\n1\t2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("keeps empty cells", () => {
+    expect(parseCsv("a,,c\n,,")).toEqual([
+      ["a", "", "c"],
+      ["", "", ""],
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes only cells that need it and round-trips", () => {
+    const rows = [
+      ["ردیف", "متن"],
+      ["1", 'a,"b"\nc'],
+    ];
+    expect(toCsv(rows)).toBe('ردیف,متن\r\n1,"a,""b""\nc"');
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+// ── XLSX ─────────────────────────────────────
+
+/** zip حداقلی؛ deflate = true برای فشرده‌سازی method 8 */
+function zip(files: Record<string, string>, deflate = false): ArrayBuffer {
+  const enc = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = enc.encode(name);
+    const raw = enc.encode(text);
+    const data = deflate ? new Uint8Array(deflateRawSync(raw)) : raw;
+    const method = deflate ? 8 : 0;
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, method, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, method, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const cdSize = centrals.reduce((n, c) => n + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, centrals.length, true);
+  ev.setUint16(10, centrals.length, true);
+  ev.setUint32(12, cdSize, true);
+  ev.setUint32(16, offset, true);
+
+  const out = new Uint8Array(offset + cdSize + 22);
+  let p = 0;
+  for (const part of [...locals, ...centrals, eocd]) {
+    out.set(part, p);
+    p += part.length;
+  }
+  return out.buffer;
+}
+
+const NS = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+
+const sharedStrings = `<?xml version="1.0"?>
+<sst ${NS}>
+  <si><t>نام</t></si>
+  <si><r><t>هیوندای </t></r><r><t>سوناتا</t></r><rPh sb="0" eb="1"><t>ヒュンダイ</t></rPh></si>
+  <si><t>سال</t><phoneticPr fontId="1"/></si>
+</sst>`;
+
+const sheet = `<?xml version="1.0"?>
+<worksheet ${NS}><sheetData>
+  <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>2</v></c></row>
+  <row r="2"><c r="A2" t="s"><v>1</v></c><c r="C2"><v>1398</v></c></row>
+  <row r="4"><c r="B4" t="inlineStr"><is><t>پژو</t><rPh><t>x</t></rPh></is></c></row>
+</sheetData></worksheet>`;
+
+describe("parseXlsx", () => {
+  it("reads shared and inline strings without phonetic runs", async () => {
+    const table = await parseXlsx(
+      zip({
+        "xl/sharedStrings.xml": sharedStrings,
+        "xl/worksheets/sheet1.xml": sheet,
+      })
+    );
+    expect(table).toEqual([
+      ["نام", "سال"],
+      ["هیوندای سوناتا", "", "1398"],
+      [],
+      ["", "پژو"],
+    ]);
+  });
+
+  it("finds the first sheet through workbook rels and inflates entries", async () => {
+    const table = await parseXlsx(
+      zip(
+        {
+          "xl/workbook.xml": `<workbook ${NS} xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="a" sheetId="1" r:id="rId7"/></sheets></workbook>`,
+          "xl/_rels/workbook.xml.rels": `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId7" Target="worksheets/data.xml"/></Relationships>`,
+          "xl/worksheets/data.xml": `<worksheet ${NS}><sheetData><row r="1"><c r="A1"><v>42</v></c></row></sheetData></worksheet>`,
+        },
+        true
+      )
+    );
+    expect(table).toEqual([["42"]]);
+  });
+
+  it("rejects files that are not zip or have no sheet", async () => {
+    await expect(parseXlsx(new ArrayBuffer(10))).rejects.toThrow(
+      SpreadsheetError
+    );
+    await expect(parseXlsx(zip({ "a.txt": "x" }))).rejects.toThrow(
+      SpreadsheetError
+    );
+  });
+});
@@ -0,0 +1,245 @@
+// ─────────────────────────────────────────────
+// خواندن CSV/XLSX و ساخت CSV (بدون کتابخانه)
+// XLSX = zip از XMLها؛ با DecompressionStream و DOMParser خود مرورگر
+// ─────────────────────────────────────────────
+
+/** جدول خام: هر ردیف آرایه‌ای از متن سلول‌ها */
+export type SheetTable = string[][];
+
+export class SpreadsheetError extends Error {}
+
+// ── CSV ──────────────────────────────────────
+
+/** جداکننده‌ی پرتکرارتر در خط اول (, یا ; یا Tab) */
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  let best = ",";
+  let bestCount = 0;
+  for (const d of [",", ";", "\t"]) {
+    const count = firstLine.split(d).length - 1;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** RFC 4180: نقل‌قول دوتایی، "" داخل نقل‌قول، خط جدید داخل سلول */
+export function parseCsv(input: string): SheetTable {
+  const text = input.replace(/^\uFEFF/, "");
+  const delim = detectDelimiter(text);
+  const rows: SheetTable = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === "") quoted = true;
+    else if (ch === delim) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += ch;
+  }
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function csvCell(v: string): string {
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+export function toCsv(rows: SheetTable): string {
+  return rows.map((r) => r.map(csvCell).join(",")).join("\r\n");
+}
+
+/** دانلود CSV؛ BOM برای اینکه اکسل فارسی را درست نشان دهد */
+export function downloadCsv(fileName: string, rows: SheetTable) {
+  const blob = new Blob(["\uFEFF", toCsv(rows)], {
+    type: "text/csv;charset=utf-8",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// ── XLSX (zip) ───────────────────────────────
+
+type ZipEntry = { method: number; offset: number; size: number };
+
+function readZipEntries(buf: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(buf);
+  // End of central directory (از انتها؛ با کامنت حداکثر ۶۵۵۳۵ بایت)
+  let eocd = -1;
+  const stop = Math.max(0, buf.byteLength - 22 - 65535);
+  for (let i = buf.byteLength - 22; i >= stop; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new SpreadsheetError("فایل XLSX معتبر نیست");
+
+  const count = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(p, true) !== 0x02014b50) break;
+    const method = view.getUint16(p + 10, true);
+    const size = view.getUint32(p + 20, true);
+    const nameLen = view.getUint16(p + 28, true);
+    const extraLen = view.getUint16(p + 30, true);
+    const commentLen = view.getUint16(p + 32, true);
+    const local = view.getUint32(p + 42, true);
+    const name = decoder.decode(new Uint8Array(buf, p + 46, nameLen));
+
+    // طول name/extra در local header ممکن است فرق کند
+    const offset =
+      local +
+      30 +
+      view.getUint16(local + 26, true) +
+      view.getUint16(local + 28, true);
+    entries.set(name, { method, offset, size });
+    p += 46 + nameLen + extraLen + commentLen;
+  }
+  return entries;
+}
+
+async function readZipText(
+  buf: ArrayBuffer,
+  entries: Map<string, ZipEntry>,
+  name: string
+): Promise<string | null> {
+  const e = entries.get(name);
+  if (!e) return null;
+  const data = new Uint8Array(buf, e.offset, e.size);
+  if (e.method === 0) return new TextDecoder().decode(data);
+  if (e.method !== 8)
+    throw new SpreadsheetError("فشرده‌سازی فایل XLSX پشتیبانی نمی‌شود");
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, "application/xml");
+}
+
+/** همه‌ی فرزندان با این نام محلی (با/بدون پیشوند namespace) */
+function tags(node: Document | Element, local: string): Element[] {
+  return Array.from(node.getElementsByTagNameNS("*", local));
+}
+
+/**
+ * متن رشته‌ی rich (<si> یا <is>): فقط <t> مستقیم و <t> داخل <r>؛
+ * <rPh> (تلفظ آوایی) کنار گذاشته می‌شود
+ */
+function richText(node: Element): string {
+  let text = "";
+  for (const child of Array.from(node.children)) {
+    if (child.localName === "t") text += child.textContent ?? "";
+    else if (child.localName === "r")
+      for (const t of Array.from(child.children))
+        if (t.localName === "t") text += t.textContent ?? "";
+  }
+  return text;
+}
+
+/** "AB12" → 27 (شماره ستون از صفر) */
+function columnIndex(ref: string): number {
+  let n = 0;
+  for (const ch of ref.replace(/\d+$/, "")) n = n * 26 + ch.charCodeAt(0) - 64;
+  return n - 1;
+}
+
+/** مسیر فایل اولین شیت از روی workbook.xml و rels آن */
+async function firstSheetPath(
+  buf: ArrayBuffer,
+  entries: Map<string, ZipEntry>
+): Promise<string> {
+  const fallback = "xl/worksheets/sheet1.xml";
+  const wb = await readZipText(buf, entries, "xl/workbook.xml");
+  const rels = await readZipText(buf, entries, "xl/_rels/workbook.xml.rels");
+  if (!wb || !rels) return fallback;
+
+  const sheet = tags(parseXml(wb), "sheet")[0];
+  const rid = sheet?.getAttributeNS(
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+    "id"
+  );
+  const rel = tags(parseXml(rels), "Relationship").find(
+    (r) => r.getAttribute("Id") === rid
+  );
+  const target = rel?.getAttribute("Target");
+  if (!target) return fallback;
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+export async function parseXlsx(buf: ArrayBuffer): Promise<SheetTable> {
+  const entries = readZipEntries(buf);
+
+  const sst = await readZipText(buf, entries, "xl/sharedStrings.xml");
+  const shared = sst ? tags(parseXml(sst), "si").map(richText) : [];
+
+  const sheetXml = await readZipText(
+    buf,
+    entries,
+    await firstSheetPath(buf, entries)
+  );
+  if (!sheetXml) throw new SpreadsheetError("شیتی در فایل پیدا نشد");
+
+  const rows: SheetTable = [];
+  for (const r of tags(parseXml(sheetXml), "row")) {
+    const rowNum = Number(r.getAttribute("r")) || rows.length + 1;
+    const cells: string[] = [];
+    for (const c of tags(r, "c")) {
+      const ref = c.getAttribute("r");
+      const col = ref ? columnIndex(ref) : cells.length;
+      const type = c.getAttribute("t");
+      const v = tags(c, "v")[0]?.textContent ?? "";
+      let value: string;
+      if (type === "s") value = shared[Number(v)] ?? "";
+      else if (type === "inlineStr") {
+        const is = tags(c, "is")[0];
+        value = is ? richText(is) : "";
+      } else value = v;
+      while (cells.length < col) cells.push("");
+      cells[col] = value;
+    }
+    // ردیف‌های خالیِ بین داده‌ها حفظ شوند تا شماره ردیف درست بماند
+    while (rows.length < rowNum - 1) rows.push([]);
+    rows.push(cells);
+  }
+  return rows;
+}
+
+/** CSV یا XLSX بر اساس پسوند فایل */
+export async function readSpreadsheet(file: File): Promise<SheetTable> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx")) return parseXlsx(await file.arrayBuffer());
+  if (name.endsWith(".csv") || name.endsWith(".txt") || name.endsWith(".tsv"))
+    return parseCsv(await file.text());
+  throw new SpreadsheetError("فقط فایل CSV یا XLSX قابل خواندن است");
+}
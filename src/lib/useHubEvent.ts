@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  getHubStatus,
+  onHubEvent,
+  onHubReconnected,
+  startSignalR,
+  subscribeHubStatus,
+  type HubEventName,
+  type HubHandler,
+  type HubStatus,
+} from "@/lib/signalr";
+
+/**
+ * subscribe به یک رویداد hub تا زمانی که کامپوننت mount است.
+ * handler همیشه آخرین نسخه است؛ عوض شدنش subscribe دوباره نمی‌خواهد.
+ */
+export function useHubEvent<K extends HubEventName>(
+  name: K,
+  handler: HubHandler<K>,
+  enabled = true
+) {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const off = onHubEvent(name, (payload) => handlerRef.current(payload));
+    startSignalR().catch(() => {});
+    return off;
+  }, [name, enabled]);
+}
+
+/** بعد از reconnect خودکار با زمان آخرین رویداد دیده‌شده صدا زده می‌شود */
+export function useHubReconnected(
+  handler: (since: string) => void,
+  enabled = true
+) {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    return onHubReconnected((since) => handlerRef.current(since));
+  }, [enabled]);
+}
+
+export function useHubStatus(): HubStatus {
+  return useSyncExternalStore(subscribeHubStatus, getHubStatus, () => "idle");
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+
+// بعد از replaceState خودمان (popstate فقط برای back/forward است)
+const QUERY_EVENT = "carads_query_changed";
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener(QUERY_EVENT, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener(QUERY_EVENT, onChange);
+  };
+}
+
+/**
+ * query string فعلی به عنوان state (بدون نیاز به Suspense مثل useSearchParams).
+ * update بدون navigation و بدون رفتن به history جدید URL را عوض می‌کند.
+ */
+export function useUrlQuery(): [
+  string,
+  (update: (params: URLSearchParams) => URLSearchParams | void) => void
+] {
+  const query = useSyncExternalStore(
+    subscribe,
+    () => window.location.search,
+    () => ""
+  );
+
+  // ناوبری client-side (Link) آدرس را بعد از اولین render عوض می‌کند
+  useEffect(() => {
+    if (window.location.search !== query)
+      window.dispatchEvent(new Event(QUERY_EVENT));
+  }, [query]);
+
+  const updateQuery = useCallback(
+    (update: (params: URLSearchParams) => URLSearchParams | void) => {
+      const current = new URLSearchParams(window.location.search);
+      const next = update(current) ?? current;
+      const qs = next.toString();
+      const { pathname, search, hash } = window.location;
+      const url = pathname + (qs ? `?${qs}` : "") + hash;
+      if (url === pathname + search + hash) return;
+
+      window.history.replaceState(null, "", url);
+      window.dispatchEvent(new Event(QUERY_EVENT));
+    },
+    []
+  );
+
+  return [query, updateQuery];
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * windowing ساده برای لیست با ارتفاع ردیف ثابت.
+ * فقط ردیف‌های [start, end) رندر می‌شوند و padTop/padBottom جای بقیه را نگه می‌دارند.
+ * onReachEnd وقتی انتهای لیست وارد دید شد صدا زده می‌شود (infinite scroll).
+ */
+export function useVirtualList<T extends HTMLElement>({
+  count,
+  rowHeight,
+  overscan = 8,
+  onReachEnd,
+}: {
+  count: number;
+  rowHeight: number;
+  overscan?: number;
+  onReachEnd?: () => void;
+}) {
+  const ref = useRef<T>(null);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const update = () =>
+      setViewport({ top: el.scrollTop, height: el.clientHeight });
+
+    el.addEventListener("scroll", update, { passive: true });
+    // ResizeObserver اولین اندازه را هم گزارش می‌کند
+    const ro = new ResizeObserver(update);
+    ro.observe(el);
+    return () => {
+      el.removeEventListener("scroll", update);
+      ro.disconnect();
+    };
+  }, []);
+
+  const start = Math.max(0, Math.floor(viewport.top / rowHeight) - overscan);
+  const end = Math.min(
+    count,
+    Math.ceil((viewport.top + viewport.height) / rowHeight) + overscan
+  );
+
+  const onReachEndRef = useRef(onReachEnd);
+  useEffect(() => {
+    onReachEndRef.current = onReachEnd;
+  });
+
+  const reachedEnd = viewport.height > 0 && end >= count;
+  // onReachEnd هم در deps است: اگر صفحه‌ی بعد ردیف نمایشی اضافه نکرد (count ثابت) باز صدا زده شود
+  useEffect(() => {
+    if (reachedEnd) onReachEndRef.current?.();
+  }, [reachedEnd, count, onReachEnd]);
+
+  return {
+    ref,
+    start,
+    end,
+    padTop: start * rowHeight,
+    padBottom: Math.max(0, count - end) * rowHeight,
+  };
+}
@@ -1,19 +1,23 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import { setApiToken } from "@/lib/api";
-
-type Role = "User" | "Admin" | "SuperAdmin";
+import { refreshAccessToken, setApiToken, setTokenRefresher } from "@/lib/api";
+import { authApi } from "@/lib/apiClient";
+import { parseOptRole, type Role } from "@/domain";
 
 type AuthState = {
   token: string | null;
   role: Role | null;
   userId: number | null;
   username: string | null;
+  refreshToken: string | null;
   setAuth: (payload: {
     token: string;
-    role: Role;
+    /** null/undefined → claim نقش داخل توکن */
+    role?: Role | null;
     userId?: number;
     username?: string;
+    /** اگر داده نشود refresh token قبلی حفظ می‌شود */
+    refreshToken?: string | null;
   }) => void;
   clear: () => void;
 };
@@ -22,6 +26,7 @@ function decodeJwt(token: string): {
   userId?: number;
   role?: Role;
   username?: string;
+  expiresAt?: number;
 } {
   try {
     const payload = token.split(".")[1];
@@ -29,20 +34,72 @@ function decodeJwt(token: string): {
       atob(payload.replace(/-/g, "+").replace(/_/g, "/"))
     );
     const userId = Number(json.userId ?? json.sub);
-    const role = (json[
-      "http://schemas.microsoft.com/ws/2008/06/identity/claims/role"
-    ] ?? json.role) as Role | undefined;
+    const role =
+      parseOptRole(
+        json["http://schemas.microsoft.com/ws/2008/06/identity/claims/role"] ??
+          json.role
+      ) ?? undefined;
     const username = json.username as string | undefined;
+    const exp = Number(json.exp);
     return {
       userId: Number.isFinite(userId) ? userId : undefined,
       role,
       username,
+      expiresAt: Number.isFinite(exp) ? exp * 1000 : undefined,
     };
   } catch {
     return {};
   }
 }
 
+// ─────────────────────────────────────────────
+// تایمر انقضای توکن (claim exp)
+// ─────────────────────────────────────────────
+// setTimeout بیشتر از ~24.8 روز را قبول نمی‌کند
+const MAX_TIMER_MS = 2_147_483_647;
+// کمی قبل از exp تمدید کن تا درخواست‌ها 401 نخورند
+const REFRESH_LEEWAY_MS = 30_000;
+
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+let expiryHandler: (() => void) | null = null;
+let expiredWhileUnhandled = false;
+
+function notifyExpired() {
+  if (expiryHandler) expiryHandler();
+  else expiredWhileUnhandled = true;
+}
+
+function fireExpiry() {
+  expiryTimer = null;
+  refreshAccessToken().then((token) => {
+    if (!token) notifyExpired();
+  });
+}
+
+function scheduleExpiry(expiresAt?: number) {
+  if (expiryTimer) clearTimeout(expiryTimer);
+  expiryTimer = null;
+  expiredWhileUnhandled = false;
+  if (!expiresAt || typeof window === "undefined") return;
+
+  const fireAt = expiresAt - REFRESH_LEEWAY_MS;
+  const delay = fireAt - Date.now();
+  if (delay <= 0) return fireExpiry();
+  expiryTimer = setTimeout(() => {
+    if (Date.now() >= fireAt) fireExpiry();
+    else scheduleExpiry(expiresAt);
+  }, Math.min(delay, MAX_TIMER_MS));
+}
+
+/** اگر توکن قبل از ثبت handler منقضی شده باشد، همان لحظه صدا زده می‌شود */
+export function setExpiryHandler(handler: (() => void) | null) {
+  expiryHandler = handler;
+  if (handler && expiredWhileUnhandled) {
+    expiredWhileUnhandled = false;
+    handler();
+  }
+}
+
 export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
@@ -50,33 +107,63 @@ export const useAuthStore = create<AuthState>()(
       role: null,
       userId: null,
       username: null,
+      refreshToken: null,
 
-      setAuth: ({ token, role, userId, username }) => {
+      setAuth: ({ token, role, userId, username, refreshToken }) => {
         const decoded = decodeJwt(token);
         const finalUserId = userId ?? decoded.userId ?? null;
         const finalRole = role ?? decoded.role ?? null;
         const finalUsername = username ?? decoded.username ?? null;
 
         setApiToken(token);
+        scheduleExpiry(decoded.expiresAt);
         set({
           token,
           role: finalRole,
           userId: finalUserId,
           username: finalUsername,
+          refreshToken:
+            refreshToken === undefined ? get().refreshToken : refreshToken,
         });
       },
 
       clear: () => {
         setApiToken(null);
-        set({ token: null, role: null, userId: null, username: null });
+        scheduleExpiry(undefined);
+        set({
+          token: null,
+          role: null,
+          userId: null,
+          username: null,
+          refreshToken: null,
+        });
       },
     }),
     {
       name: "carads_auth",
       onRehydrateStorage: () => (state) => {
         // وقتی از localStorage برگشت، توکن رو روی axios ست کن
-        if (state?.token) setApiToken(state.token);
+        if (state?.token) {
+          setApiToken(state.token);
+          scheduleExpiry(decodeJwt(state.token).expiresAt);
+        }
       },
     }
   )
 );
+
+// ✅ refresh با refresh token ذخیره‌شده؛ api.ts آن را single-flight صدا می‌زند
+setTokenRefresher(async () => {
+  const { refreshToken } = useAuthStore.getState();
+  if (!refreshToken) return null;
+
+  const res = await authApi.refresh(refreshToken);
+  const { role: currentRole, setAuth } = useAuthStore.getState();
+  // ✅ پاسخ بدون role نباید Admin را وسط نشست به User تنزل دهد
+  setAuth({
+    token: res.token,
+    role: res.role ?? decodeJwt(res.token).role ?? currentRole,
+    refreshToken: res.refreshToken ?? refreshToken,
+  });
+  return res.token;
+});
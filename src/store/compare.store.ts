@@ -0,0 +1,41 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { COMPARE_MAX, type Ad } from "@/domain";
+
+type CompareState = {
+  /** آگهی‌های انتخاب‌شده برای مقایسه (به ترتیب انتخاب) */
+  ads: Ad[];
+  /** "full" یعنی به سقف COMPARE_MAX رسیده‌ایم */
+  toggle: (ad: Ad) => "added" | "removed" | "full";
+  remove: (adId: number) => void;
+  clear: () => void;
+};
+
+export const useCompareStore = create<CompareState>()(
+  persist(
+    (set, get) => ({
+      ads: [],
+
+      toggle: (ad) => {
+        const { ads } = get();
+        if (ads.some((a) => a.id === ad.id)) {
+          set({ ads: ads.filter((a) => a.id !== ad.id) });
+          return "removed";
+        }
+        if (ads.length >= COMPARE_MAX) return "full";
+        set({ ads: [...ads, ad] });
+        return "added";
+      },
+
+      remove: (adId) =>
+        set((s) => ({ ads: s.ads.filter((a) => a.id !== adId) })),
+
+      clear: () => set({ ads: [] }),
+    }),
+    { name: "carads_compare" }
+  )
+);
+
+export function useIsCompared(adId: number) {
+  return useCompareStore((s) => s.ads.some((a) => a.id === adId));
+}
@@ -0,0 +1,55 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { AdDraft } from "@/domain";
+import { prefsUserKey } from "@/store/prefs.store";
+
+type DraftsState = {
+  /** به ازای هر کاربر؛ جدیدترین اول */
+  byUser: Record<string, AdDraft[]>;
+  save: (userId: number | null, draft: AdDraft) => void;
+  remove: (userId: number | null, id: string) => void;
+};
+
+export const useDraftsStore = create<DraftsState>()(
+  persist(
+    (set) => ({
+      byUser: {},
+
+      save: (userId, draft) =>
+        set((s) => {
+          const key = prefsUserKey(userId);
+          const rest = (s.byUser[key] ?? []).filter((d) => d.id !== draft.id);
+          return { byUser: { ...s.byUser, [key]: [draft, ...rest] } };
+        }),
+
+      remove: (userId, id) =>
+        set((s) => {
+          const key = prefsUserKey(userId);
+          const list = s.byUser[key] ?? [];
+          if (!list.some((d) => d.id === id)) return s;
+          return {
+            byUser: { ...s.byUser, [key]: list.filter((d) => d.id !== id) },
+          };
+        }),
+    }),
+    { name: "carads_drafts" }
+  )
+);
+
+const EMPTY: AdDraft[] = [];
+
+export function useMyDrafts(userId: number | null) {
+  return useDraftsStore((s) => s.byUser[prefsUserKey(userId)] ?? EMPTY);
+}
+
+/** پیش‌نویس قابل بازیابی برای باز شدن مودال (ویرایش همان آگهی یا آخرین ثبت جدید) */
+export function findResumableDraft(
+  userId: number | null,
+  adId: number | null
+): AdDraft | null {
+  const list = useDraftsStore.getState().byUser[prefsUserKey(userId)] ?? [];
+  return (
+    list.find((d) => (adId !== null ? d.adId === adId : d.mode === "create")) ??
+    null
+  );
+}
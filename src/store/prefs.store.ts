@@ -0,0 +1,30 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { AdSort } from "@/domain";
+
+// کاربر مهمان
+const GUEST = "guest";
+
+type PrefsState = {
+  /** مرتب‌سازی فید صفحه اصلی به ازای هر کاربر */
+  adSortByUser: Record<string, AdSort>;
+  setAdSort: (userId: number | null, sort: AdSort) => void;
+};
+
+export function prefsUserKey(userId: number | null) {
+  return userId === null ? GUEST : String(userId);
+}
+
+export const usePrefsStore = create<PrefsState>()(
+  persist(
+    (set) => ({
+      adSortByUser: {},
+
+      setAdSort: (userId, sort) =>
+        set((s) => ({
+          adSortByUser: { ...s.adSortByUser, [prefsUserKey(userId)]: sort },
+        })),
+    }),
+    { name: "carads_prefs" }
+  )
+);
@@ -0,0 +1,67 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { AdFilters, SavedSearch } from "@/domain";
+import { prefsUserKey } from "@/store/prefs.store";
+
+type SavedSearchesState = {
+  /** به ازای هر کاربر (مهمان هم) */
+  byUser: Record<string, SavedSearch[]>;
+  add: (
+    userId: number | null,
+    search: { name: string; q: string; filters: AdFilters }
+  ) => void;
+  remove: (userId: number | null, id: string) => void;
+  setNotify: (userId: number | null, id: string, notify: boolean) => void;
+};
+
+function newId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export const useSavedSearchesStore = create<SavedSearchesState>()(
+  persist(
+    (set) => {
+      const update = (
+        userId: number | null,
+        fn: (list: SavedSearch[]) => SavedSearch[]
+      ) =>
+        set((s) => {
+          const key = prefsUserKey(userId);
+          return { byUser: { ...s.byUser, [key]: fn(s.byUser[key] ?? []) } };
+        });
+
+      return {
+        byUser: {},
+
+        add: (userId, { name, q, filters }) =>
+          update(userId, (list) => [
+            {
+              id: newId(),
+              name: name.trim(),
+              q: q.trim(),
+              filters,
+              notify: false,
+              createdAt: new Date().toISOString(),
+            },
+            ...list,
+          ]),
+
+        remove: (userId, id) =>
+          update(userId, (list) => list.filter((x) => x.id !== id)),
+
+        setNotify: (userId, id, notify) =>
+          update(userId, (list) =>
+            list.map((x) => (x.id === id ? { ...x, notify } : x))
+          ),
+      };
+    },
+    { name: "carads_saved_searches" }
+  )
+);
+
+const EMPTY: SavedSearch[] = [];
+
+/** جستجوهای ذخیره‌شده‌ی کاربر فعلی */
+export function useMySavedSearches(userId: number | null) {
+  return useSavedSearchesStore((s) => s.byUser[prefsUserKey(userId)] ?? EMPTY);
+}
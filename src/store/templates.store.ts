@@ -0,0 +1,56 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { AdTemplate, AdTemplateFields } from "@/domain";
+import { prefsUserKey } from "@/store/prefs.store";
+
+type TemplatesState = {
+  /** به ازای هر کاربر؛ جدیدترین اول */
+  byUser: Record<string, AdTemplate[]>;
+  add: (userId: number | null, name: string, fields: AdTemplateFields) => void;
+  remove: (userId: number | null, id: string) => void;
+};
+
+function newId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export const useTemplatesStore = create<TemplatesState>()(
+  persist(
+    (set) => ({
+      byUser: {},
+
+      add: (userId, name, fields) =>
+        set((s) => {
+          const key = prefsUserKey(userId);
+          // هم‌نام = جایگزین
+          const rest = (s.byUser[key] ?? []).filter(
+            (t) => t.name !== name.trim()
+          );
+          const tpl: AdTemplate = {
+            ...fields,
+            id: newId(),
+            name: name.trim(),
+            createdAt: new Date().toISOString(),
+          };
+          return { byUser: { ...s.byUser, [key]: [tpl, ...rest] } };
+        }),
+
+      remove: (userId, id) =>
+        set((s) => {
+          const key = prefsUserKey(userId);
+          const list = s.byUser[key] ?? [];
+          if (!list.some((t) => t.id === id)) return s;
+          return {
+            byUser: { ...s.byUser, [key]: list.filter((t) => t.id !== id) },
+          };
+        }),
+    }),
+    { name: "carads_ad_templates" }
+  )
+);
+
+const EMPTY: AdTemplate[] = [];
+
+export function useMyTemplates(userId: number | null) {
+  return useTemplatesStore((s) => s.byUser[prefsUserKey(userId)] ?? EMPTY);
+}
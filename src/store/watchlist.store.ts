@@ -0,0 +1,95 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  applyAdUpdate,
+  watchAd,
+  type Ad,
+  type PriceChange,
+  type WatchedAd,
+} from "@/domain";
+import { prefsUserKey } from "@/store/prefs.store";
+
+type WatchlistState = {
+  /** به ازای هر کاربر (مهمان هم) */
+  byUser: Record<string, WatchedAd[]>;
+  /** خروجی: بعد از toggle نشان‌شده هست یا نه */
+  toggle: (userId: number | null, ad: Ad) => boolean;
+  remove: (userId: number | null, adId: number) => void;
+  /** رویداد CarAdUpdated؛ اگر قیمت عوض شده باشد PriceChange برمی‌گرداند */
+  recordUpdate: (userId: number | null, ad: Ad) => PriceChange | null;
+  /** رویداد CarAdDeleted؛ آگهی حذف‌شده در لیست می‌ماند */
+  markRemoved: (userId: number | null, adId: number) => WatchedAd | null;
+};
+
+export const useWatchlistStore = create<WatchlistState>()(
+  persist(
+    (set, get) => {
+      const listOf = (userId: number | null) =>
+        get().byUser[prefsUserKey(userId)] ?? [];
+      const save = (userId: number | null, list: WatchedAd[]) =>
+        set((s) => ({ byUser: { ...s.byUser, [prefsUserKey(userId)]: list } }));
+
+      return {
+        byUser: {},
+
+        toggle: (userId, ad) => {
+          const list = listOf(userId);
+          if (list.some((w) => w.ad.id === ad.id)) {
+            save(
+              userId,
+              list.filter((w) => w.ad.id !== ad.id)
+            );
+            return false;
+          }
+          save(userId, [watchAd(ad), ...list]);
+          return true;
+        },
+
+        remove: (userId, adId) =>
+          save(
+            userId,
+            listOf(userId).filter((w) => w.ad.id !== adId)
+          ),
+
+        recordUpdate: (userId, ad) => {
+          const list = listOf(userId);
+          const idx = list.findIndex((w) => w.ad.id === ad.id);
+          if (idx < 0) return null;
+
+          const { next, change } = applyAdUpdate(list[idx], ad);
+          save(
+            userId,
+            list.map((w, i) => (i === idx ? next : w))
+          );
+          return change;
+        },
+
+        markRemoved: (userId, adId) => {
+          const list = listOf(userId);
+          const w = list.find((x) => x.ad.id === adId);
+          if (!w || w.removedAt) return null;
+
+          const next = { ...w, removedAt: new Date().toISOString() };
+          save(
+            userId,
+            list.map((x) => (x === w ? next : x))
+          );
+          return next;
+        },
+      };
+    },
+    { name: "carads_watchlist" }
+  )
+);
+
+const EMPTY: WatchedAd[] = [];
+
+export function useMyWatchlist(userId: number | null) {
+  return useWatchlistStore((s) => s.byUser[prefsUserKey(userId)] ?? EMPTY);
+}
+
+export function useIsWatched(userId: number | null, adId: number) {
+  return useWatchlistStore(
+    (s) => !!s.byUser[prefsUserKey(userId)]?.some((w) => w.ad.id === adId)
+  );
+}